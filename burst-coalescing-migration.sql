@@ -0,0 +1,13 @@
+-- Coalesce rapid multi-message bursts into a single AI reply
+-- Run this in your Supabase SQL editor
+
+-- How long to wait for follow-up messages before replying (0 disables the wait;
+-- a reply still in flight is superseded whenever a newer message arrives)
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS reply_debounce_seconds INTEGER DEFAULT 5;
+
+COMMENT ON COLUMN phone_document_mapping.reply_debounce_seconds IS 'Debounce window for merging rapid inbound messages into one reply';
+
+-- Burst lookups scan a single conversation by time
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_conversation
+ON whatsapp_messages(from_number, to_number, received_at);
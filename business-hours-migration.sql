@@ -0,0 +1,16 @@
+-- Business hours, holidays and away messages per business number
+-- Run this in your Supabase SQL editor
+
+-- business_hours maps weekdays to opening slots in business_timezone, e.g.
+-- {"mon": [{"open": "09:00", "close": "18:00"}], "sat": [{"open": "10:00", "close": "14:00"}]};
+-- days left out are closed and NULL means always open. A close at or before
+-- the open runs past midnight. business_holidays is a list of closed dates:
+-- [{"date": "2026-11-08", "name": "Diwali"}].
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS business_timezone TEXT DEFAULT 'Asia/Kolkata',
+ADD COLUMN IF NOT EXISTS business_hours JSONB,
+ADD COLUMN IF NOT EXISTS business_holidays JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS away_message TEXT,
+ADD COLUMN IF NOT EXISTS after_hours_bot_replies BOOLEAN DEFAULT true,
+ADD COLUMN IF NOT EXISTS after_hours_suppress_reminders BOOLEAN DEFAULT true,
+ADD COLUMN IF NOT EXISTS after_hours_suppress_handoffs BOOLEAN DEFAULT true;
@@ -0,0 +1,17 @@
+-- Extra channels (Telegram, web widget) for the same business bot
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS telegram_bot_token TEXT,
+ADD COLUMN IF NOT EXISTS telegram_webhook_secret TEXT;
+
+COMMENT ON COLUMN phone_document_mapping.telegram_bot_token IS 'Bot API token from @BotFather';
+-- Kept apart from webhook_secret, which signs WhatsApp webhooks: Telegram sends
+-- this one in a plain header, so it must not double as an HMAC key
+-- Bots connected before this column existed must be connected again
+COMMENT ON COLUMN phone_document_mapping.telegram_webhook_secret IS 'secret_token given to Telegram setWebhook; replaced on every connect';
+
+-- Conversations on every channel share whatsapp_messages. Contacts of other
+-- channels are stored as "telegram:<chat id>" / "web:<session id>".
+COMMENT ON COLUMN whatsapp_messages.channel IS 'whatsapp | telegram | web';
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_channel ON whatsapp_messages(channel);
@@ -0,0 +1,21 @@
+-- Opt-out / opt-in consent per business number and contact
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS contact_consent (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    status TEXT NOT NULL, -- opted_out | opted_in
+    source TEXT NOT NULL, -- keyword | dashboard
+    keyword TEXT, -- the customer's STOP/START message
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (business_number, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_consent_business_status
+ON contact_consent(business_number, status, updated_at DESC);
+
+ALTER TABLE contact_consent ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on contact_consent" ON contact_consent;
+CREATE POLICY "Allow all operations on contact_consent" ON contact_consent FOR ALL USING (true);
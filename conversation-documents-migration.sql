@@ -0,0 +1,73 @@
+-- Documents customers send over WhatsApp, scoped to a single conversation
+-- (kept out of the business's shared knowledge base in `chunks`)
+-- Run this in your Supabase SQL editor
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS conversation_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_number TEXT NOT NULL,
+    message_id TEXT,
+    file_name TEXT,
+    mime_type TEXT,
+    content TEXT NOT NULL,
+    extraction_method TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS conversation_document_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES conversation_documents(id) ON DELETE CASCADE,
+    business_number TEXT NOT NULL,
+    contact_number TEXT NOT NULL,
+    content TEXT NOT NULL,
+    embedding vector(1024), -- Mistral embeddings are 1024-dimensional
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_documents_conversation
+ON conversation_documents(business_number, contact_number);
+CREATE INDEX IF NOT EXISTS idx_conversation_document_chunks_conversation
+ON conversation_document_chunks(business_number, contact_number);
+
+ALTER TABLE conversation_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_document_chunks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on conversation_documents" ON conversation_documents;
+CREATE POLICY "Allow all operations on conversation_documents" ON conversation_documents FOR ALL USING (true);
+DROP POLICY IF EXISTS "Allow all operations on conversation_document_chunks" ON conversation_document_chunks;
+CREATE POLICY "Allow all operations on conversation_document_chunks" ON conversation_document_chunks FOR ALL USING (true);
+
+-- Vector search over documents shared in one conversation (last 30 days)
+CREATE OR REPLACE FUNCTION match_conversation_document_chunks(
+    query_embedding vector(1024),
+    match_count int DEFAULT 3,
+    target_business text DEFAULT NULL,
+    target_contact text DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    file_name text,
+    content text,
+    similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.document_id,
+        d.file_name,
+        c.content,
+        1 - (c.embedding <=> query_embedding) as similarity
+    FROM conversation_document_chunks c
+    JOIN conversation_documents d ON d.id = c.document_id
+    WHERE c.business_number = target_business
+      AND c.contact_number = target_contact
+      AND c.created_at > NOW() - INTERVAL '30 days'
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- Delivery and read receipts for outbound (MtMessage) messages
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE whatsapp_messages
+ADD COLUMN IF NOT EXISTS provider_message_id TEXT,
+ADD COLUMN IF NOT EXISTS delivery_status TEXT,
+ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+COMMENT ON COLUMN whatsapp_messages.provider_message_id IS 'Message ID returned by the WhatsApp provider when the message was sent';
+COMMENT ON COLUMN whatsapp_messages.delivery_status IS 'sent | delivered | read | failed';
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_provider_message_id
+ON whatsapp_messages(provider_message_id)
+WHERE provider_message_id IS NOT NULL;
+
+-- Order of delivery states; receipts can arrive out of order and must never
+-- move a message backwards (e.g. a late "delivered" after "read")
+CREATE OR REPLACE FUNCTION message_status_rank(p_status text)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_status
+        WHEN 'sent' THEN 1
+        WHEN 'delivered' THEN 2
+        WHEN 'read' THEN 3
+        WHEN 'failed' THEN 4
+        ELSE 0
+    END;
+$$;
+
+-- Apply a delivery receipt to the outbound message with this provider ID.
+-- Returns the number of rows updated (0 when the message isn't stored yet).
+CREATE OR REPLACE FUNCTION apply_message_status(
+    p_provider_message_id text,
+    p_status text,
+    p_at timestamptz DEFAULT NOW(),
+    p_error text DEFAULT NULL
+)
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    updated_count int;
+BEGIN
+    UPDATE whatsapp_messages
+    SET
+        sent_at = CASE WHEN p_status = 'sent' THEN COALESCE(sent_at, p_at) ELSE sent_at END,
+        delivered_at = CASE WHEN p_status = 'delivered' THEN COALESCE(delivered_at, p_at) ELSE delivered_at END,
+        read_at = CASE WHEN p_status = 'read' THEN COALESCE(read_at, p_at) ELSE read_at END,
+        failed_at = CASE WHEN p_status = 'failed' THEN COALESCE(failed_at, p_at) ELSE failed_at END,
+        failure_reason = CASE WHEN p_status = 'failed' THEN COALESCE(p_error, failure_reason) ELSE failure_reason END,
+        delivery_status = CASE
+            WHEN message_status_rank(p_status) > message_status_rank(delivery_status) THEN p_status
+            ELSE delivery_status
+        END
+    WHERE provider_message_id = p_provider_message_id;
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+    RETURN updated_count;
+END;
+$$;
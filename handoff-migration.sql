@@ -0,0 +1,48 @@
+-- Human handoff: pause the bot for one conversation while a person takes over
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS conversation_handoffs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    status TEXT NOT NULL, -- paused | active
+    reason TEXT NOT NULL, -- keyword | llm | dashboard
+    assigned_agent TEXT,
+    note TEXT, -- the customer message that triggered the handoff
+    paused_at TIMESTAMPTZ DEFAULT NOW(),
+    last_agent_activity_at TIMESTAMPTZ,
+    resumed_at TIMESTAMPTZ,
+    owner_notified_at TIMESTAMPTZ,
+    owner_notify_error TEXT, -- why the owner alert could not be sent
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (business_number, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_handoffs_business_status
+ON conversation_handoffs(business_number, status, paused_at DESC);
+
+ALTER TABLE conversation_handoffs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on conversation_handoffs" ON conversation_handoffs;
+CREATE POLICY "Allow all operations on conversation_handoffs" ON conversation_handoffs FOR ALL USING (true);
+
+-- Where the business owner is told about a handoff (a WhatsApp number; empty =
+-- dashboard only), and after how many minutes without agent activity the bot
+-- takes the conversation back (NULL = never)
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS handoff_notify_number TEXT,
+ADD COLUMN IF NOT EXISTS handoff_auto_resume_minutes INTEGER;
+
+-- Owners rarely message their own business number, so their 24-hour window is
+-- usually closed: alerts go out as this registered template. Its params map
+-- template parameters to {{message}} (the alert), {{customer_name}} (the
+-- customer's number) and {{business_number}}. Without one, alerts are only
+-- sent while the owner's window is open.
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS handoff_template_name TEXT,
+ADD COLUMN IF NOT EXISTS handoff_template_params JSONB;
+
+-- For tables created before the owner alert columns existed
+ALTER TABLE conversation_handoffs
+ADD COLUMN IF NOT EXISTS owner_notified_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS owner_notify_error TEXT;
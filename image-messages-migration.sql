@@ -0,0 +1,9 @@
+-- Inbound image messages: store text extracted with Mistral OCR / Pixtral
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE whatsapp_messages
+ADD COLUMN IF NOT EXISTS media_text TEXT,
+ADD COLUMN IF NOT EXISTS media_extraction_method TEXT;
+
+COMMENT ON COLUMN whatsapp_messages.media_text IS 'Text extracted from inbound media (OCR or vision description)';
+COMMENT ON COLUMN whatsapp_messages.media_extraction_method IS 'mistral-ocr | pixtral-vision';
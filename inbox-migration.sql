@@ -0,0 +1,31 @@
+-- Agent inbox: unread counts per conversation and live message updates
+-- Run this in your Supabase SQL editor
+
+-- When an agent last opened each conversation; newer inbound messages are unread
+CREATE TABLE IF NOT EXISTS conversation_reads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (business_number, contact_id)
+);
+
+ALTER TABLE conversation_reads ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on conversation_reads" ON conversation_reads;
+CREATE POLICY "Allow all operations on conversation_reads" ON conversation_reads FOR ALL USING (true);
+
+-- The inbox lists a business number's messages newest first; the outbound
+-- side is covered by idx_whatsapp_messages_conversation
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_to_received
+ON whatsapp_messages(to_number, received_at DESC);
+
+-- Stream new messages to the inbox page (Supabase Realtime)
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'whatsapp_messages'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE whatsapp_messages;
+    END IF;
+END $$;
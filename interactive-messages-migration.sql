@@ -0,0 +1,10 @@
+-- Interactive messages (reply buttons / list menus)
+-- Run this in your Supabase SQL editor
+
+-- The option a customer picked: { "id": "opt_book_demo", "title": "Book demo" }.
+-- Set from the provider's button/list reply, or by matching a typed reply
+-- ("2", "book demo") against the options in our last message.
+ALTER TABLE whatsapp_messages
+ADD COLUMN IF NOT EXISTS interactive_reply JSONB;
+
+COMMENT ON COLUMN whatsapp_messages.interactive_reply IS 'Button/list option chosen by the customer ({id, title}); outbound options are kept in raw_payload.interactive';
@@ -0,0 +1,59 @@
+-- Durable job queue for webhook processing
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS webhook_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    business_number TEXT,
+    dedupe_key TEXT UNIQUE,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending | processing | completed | dead
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by TEXT,
+    locked_until TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_status_run_at ON webhook_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_business_number ON webhook_jobs(business_number);
+
+ALTER TABLE webhook_jobs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on webhook_jobs" ON webhook_jobs;
+CREATE POLICY "Allow all operations on webhook_jobs" ON webhook_jobs FOR ALL USING (true);
+
+-- Claim due jobs (and jobs whose lease expired) for a worker.
+-- SKIP LOCKED lets several workers claim concurrently without overlap.
+CREATE OR REPLACE FUNCTION claim_webhook_jobs(
+    p_worker_id text,
+    p_limit int DEFAULT 5,
+    p_lease_seconds int DEFAULT 120
+)
+RETURNS SETOF webhook_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE webhook_jobs j
+    SET
+        status = 'processing',
+        locked_by = p_worker_id,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = j.attempts + 1,
+        updated_at = NOW()
+    WHERE j.id IN (
+        SELECT q.id
+        FROM webhook_jobs q
+        WHERE (q.status = 'pending' AND q.run_at <= NOW())
+           OR (q.status = 'processing' AND q.locked_until < NOW())
+        ORDER BY q.run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Lead-capture flows: scripted questions per business number, the state of
+-- each contact's run, and the leads they produce
+-- Run this in your Supabase SQL editor
+
+-- One flow per number. slots is the ordered list of fields to ask for:
+-- [{"key": "name", "question": "May I have your name?", "type": "text"},
+--  {"key": "budget", "question": "What's your budget?", "type": "choice", "options": ["< 1L", "1-5L", "5L+"]}]
+-- type is text | email | phone | date | number | choice; "required": false lets the customer skip.
+-- trigger is first_message (new contacts) or keywords (trigger_keywords).
+CREATE TABLE IF NOT EXISTS lead_flows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone_number TEXT NOT NULL UNIQUE,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    trigger TEXT NOT NULL DEFAULT 'first_message',
+    trigger_keywords TEXT[] NOT NULL DEFAULT '{}',
+    intro_message TEXT,
+    completion_message TEXT,
+    slots JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A contact's progress through the flow (one run at a time)
+CREATE TABLE IF NOT EXISTS lead_flow_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    flow_id UUID NOT NULL REFERENCES lead_flows(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'active', -- active | completed | expired
+    slot_index INTEGER NOT NULL DEFAULT 0,
+    answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    invalid_attempts INTEGER NOT NULL DEFAULT 0,
+    language TEXT,
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    UNIQUE (business_number, contact_id)
+);
+
+CREATE TABLE IF NOT EXISTS leads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    contact_name TEXT,
+    flow_id UUID REFERENCES lead_flows(id) ON DELETE SET NULL,
+    fields JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_business_created
+ON leads(business_number, created_at DESC);
+
+ALTER TABLE lead_flows ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on lead_flows" ON lead_flows;
+CREATE POLICY "Allow all operations on lead_flows" ON lead_flows FOR ALL USING (true);
+
+ALTER TABLE lead_flow_sessions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on lead_flow_sessions" ON lead_flow_sessions;
+CREATE POLICY "Allow all operations on lead_flow_sessions" ON lead_flow_sessions FOR ALL USING (true);
+
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on leads" ON leads;
+CREATE POLICY "Allow all operations on leads" ON leads FOR ALL USING (true);
@@ -0,0 +1,50 @@
+-- Write captured leads (with an AI summary of the conversation) to a Google Sheet per business number
+-- Run this in your Supabase SQL editor
+
+-- lead_sheet_columns maps sheet headers to lead data, in column order, e.g.
+-- [{"header": "Phone", "source": "contact_id"}, {"header": "Budget", "source": "field:budget"},
+--  {"header": "Summary", "source": "summary"}]
+-- Sources: lead_id, contact_id, contact_name, summary, created_at, updated_at, synced_at, field:<slot key>.
+-- A "Lead ID" column is added when lead_id isn't mapped: rows are found by it on every sync.
+-- NULL uses the default layout (contact, name, every captured field, summary, timestamps).
+-- The sheet must be shared with the service account (GOOGLE_SERVICE_ACCOUNT_EMAIL) as an editor.
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS lead_sheet_sync_enabled BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS lead_sheet_id TEXT,
+ADD COLUMN IF NOT EXISTS lead_sheet_tab TEXT DEFAULT 'Leads',
+ADD COLUMN IF NOT EXISTS lead_sheet_columns JSONB;
+
+-- Where each lead was last written (for display; syncs find the row by its Lead ID)
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS summary TEXT,
+ADD COLUMN IF NOT EXISTS sheet_id TEXT,
+ADD COLUMN IF NOT EXISTS sheet_tab TEXT,
+ADD COLUMN IF NOT EXISTS sheet_row INTEGER,
+ADD COLUMN IF NOT EXISTS sheet_synced_at TIMESTAMPTZ;
+
+-- Held while a sync runs, so two syncs of the same lead can't both append a row
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS sheet_sync_claimed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS sheet_sync_claimed_by TEXT;
+
+-- One row per sync attempt
+CREATE TABLE IF NOT EXISTS lead_sheet_sync_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+    action TEXT NOT NULL, -- append | update
+    status TEXT NOT NULL, -- success | failed
+    attempt INTEGER NOT NULL DEFAULT 1,
+    sheet_id TEXT,
+    sheet_tab TEXT,
+    sheet_row INTEGER,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_sheet_sync_log_business_created
+ON lead_sheet_sync_log(business_number, created_at DESC);
+
+ALTER TABLE lead_sheet_sync_log ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on lead_sheet_sync_log" ON lead_sheet_sync_log;
+CREATE POLICY "Allow all operations on lead_sheet_sync_log" ON lead_sheet_sync_log FOR ALL USING (true);
@@ -0,0 +1,72 @@
+// Local mock of the 11za, Meta Cloud API and Telegram Bot API endpoints used by the senders.
+// Usage:
+//   node mock-whatsapp-provider.mjs [port]
+//   ELEVENZA_API_BASE_URL=http://localhost:4010 META_GRAPH_API_BASE_URL=http://localhost:4010 \
+//   TELEGRAM_API_BASE_URL=http://localhost:4010 npm run dev
+// Every request is logged; sends return a fake provider message ID.
+
+import http from "node:http";
+
+const PORT = Number(process.argv[2] || 4010);
+let counter = 0;
+
+function json(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    console.log(`${req.method} ${url.pathname}`, body);
+
+    // 11za
+    if (req.method === "POST" && url.pathname.startsWith("/apis/")) {
+      return json(res, 200, { status: "success", messageId: `mock_11za_${++counter}` });
+    }
+
+    // Telegram Bot API
+    if (req.method === "POST" && /^\/bot[^/]+\/send(Message|Photo|Document|Audio|Video|Voice)$/.test(url.pathname)) {
+      return json(res, 200, { ok: true, result: { message_id: ++counter } });
+    }
+    if (req.method === "POST" && /^\/bot[^/]+\/(setWebhook|getFile)$/.test(url.pathname)) {
+      return json(res, 200, { ok: true, result: url.pathname.endsWith("getFile") ? { file_path: "mock/file" } : true });
+    }
+    if (req.method === "GET" && url.pathname.startsWith("/file/")) {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      return res.end("mock telegram file");
+    }
+
+    // Meta Cloud API: send message
+    if (req.method === "POST" && /^\/v[\d.]+\/[^/]+\/messages$/.test(url.pathname)) {
+      const { to } = JSON.parse(body || "{}");
+      return json(res, 200, {
+        messaging_product: "whatsapp",
+        contacts: [{ input: to, wa_id: to }],
+        messages: [{ id: `wamid.mock_${++counter}` }],
+      });
+    }
+
+    // Meta Cloud API: media lookup and download
+    if (req.method === "GET" && url.pathname.startsWith("/media/")) {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      return res.end("mock media file");
+    }
+    const mediaMatch = url.pathname.match(/^\/v[\d.]+\/([^/]+)$/);
+    if (req.method === "GET" && mediaMatch) {
+      return json(res, 200, {
+        url: `http://localhost:${PORT}/media/${mediaMatch[1]}`,
+        mime_type: "text/plain",
+        id: mediaMatch[1],
+      });
+    }
+
+    json(res, 404, { error: "Not mocked" });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock WhatsApp provider listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,27 @@
+-- Outbound messages that still failed after retries
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS outbound_dead_letters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    channel TEXT,
+    source TEXT, -- auto_reply | reminder | fallback
+    message_id TEXT NOT NULL, -- whatsapp_messages.message_id the row is stored under once sent
+    message JSONB NOT NULL, -- { text, interactive?, media? }
+    raw_payload JSONB,
+    error TEXT,
+    status_code INTEGER,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'dead', -- dead | replayed
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    replayed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_dead_letters_business_status
+ON outbound_dead_letters(business_number, status, created_at DESC);
+
+ALTER TABLE outbound_dead_letters ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on outbound_dead_letters" ON outbound_dead_letters;
+CREATE POLICY "Allow all operations on outbound_dead_letters" ON outbound_dead_letters FOR ALL USING (true);
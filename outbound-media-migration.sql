@@ -0,0 +1,23 @@
+-- Outbound media: send product photos and brochures from the knowledge base
+-- Run this in your Supabase SQL editor
+
+-- Public bucket for uploaded knowledge-base files; WhatsApp/Telegram fetch
+-- outbound media by URL. Set SUPABASE_MEDIA_BUCKET if you use another name.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('whatsapp-media', 'whatsapp-media', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Allow uploads to whatsapp-media" ON storage.objects;
+CREATE POLICY "Allow uploads to whatsapp-media" ON storage.objects
+FOR INSERT WITH CHECK (bucket_id = 'whatsapp-media');
+
+DROP POLICY IF EXISTS "Allow reads from whatsapp-media" ON storage.objects;
+CREATE POLICY "Allow reads from whatsapp-media" ON storage.objects
+FOR SELECT USING (bucket_id = 'whatsapp-media');
+
+-- Stored copy of files uploaded through /api/process-file
+ALTER TABLE rag_files
+ADD COLUMN IF NOT EXISTS media_url TEXT,
+ADD COLUMN IF NOT EXISTS media_mime_type TEXT;
+
+COMMENT ON COLUMN rag_files.media_url IS 'Public URL of the original file, sendable to customers as an image/document';
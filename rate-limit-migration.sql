@@ -0,0 +1,55 @@
+-- Outbound rate limiting: token buckets shared by every serverless instance
+-- Run this in your Supabase SQL editor
+
+-- Per-number limits. The business bucket holds rate_limit_burst tokens and
+-- refills at rate_limit_per_minute. recipient_rate_limit_per_minute adds a
+-- second bucket per customer; NULL means no per-recipient limit.
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER DEFAULT 600,
+ADD COLUMN IF NOT EXISTS rate_limit_burst INTEGER DEFAULT 20,
+ADD COLUMN IF NOT EXISTS recipient_rate_limit_per_minute INTEGER;
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    bucket_key TEXT PRIMARY KEY, -- business:<number> or recipient:<number>:<contact>
+    tokens DOUBLE PRECISION NOT NULL, -- negative while sends are reserved ahead
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on rate_limit_buckets" ON rate_limit_buckets;
+CREATE POLICY "Allow all operations on rate_limit_buckets" ON rate_limit_buckets FOR ALL USING (true);
+
+-- Refill the bucket and reserve one token. Tokens may go negative: the caller
+-- then owns a slot in the future and gets back how many milliseconds to wait
+-- before sending (0 = send now). The row lock serialises concurrent callers.
+CREATE OR REPLACE FUNCTION reserve_rate_limit_token(
+    p_bucket_key TEXT,
+    p_capacity DOUBLE PRECISION,
+    p_refill_per_second DOUBLE PRECISION
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_tokens DOUBLE PRECISION;
+BEGIN
+    INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at)
+    VALUES (p_bucket_key, p_capacity, v_now)
+    ON CONFLICT (bucket_key) DO NOTHING;
+
+    SELECT LEAST(p_capacity, tokens + EXTRACT(EPOCH FROM (v_now - updated_at)) * p_refill_per_second) - 1
+    INTO v_tokens
+    FROM rate_limit_buckets
+    WHERE bucket_key = p_bucket_key
+    FOR UPDATE;
+
+    UPDATE rate_limit_buckets
+    SET tokens = v_tokens, updated_at = v_now
+    WHERE bucket_key = p_bucket_key;
+
+    IF v_tokens >= 0 THEN
+        RETURN 0;
+    END IF;
+
+    RETURN CEIL(-v_tokens / p_refill_per_second * 1000)::INTEGER;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,11 @@
+-- Atomic reply claims for inbound WhatsApp messages
+-- Run this in your Supabase SQL editor
+
+-- A worker must set these (via a conditional UPDATE) before replying,
+-- so concurrent deliveries of the same message_id produce exactly one reply
+ALTER TABLE whatsapp_messages
+ADD COLUMN IF NOT EXISTS reply_claimed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reply_claimed_by TEXT;
+
+COMMENT ON COLUMN whatsapp_messages.reply_claimed_at IS 'When a worker claimed this inbound message for replying';
+COMMENT ON COLUMN whatsapp_messages.reply_claimed_by IS 'Identifier of the worker/job holding the reply claim';
@@ -0,0 +1,38 @@
+-- Keyword / FAQ reply rules per business number, answered before the LLM
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS reply_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone_number TEXT NOT NULL,
+    name TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0, -- higher runs first
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    match_type TEXT NOT NULL DEFAULT 'keyword', -- keyword | regex
+    patterns TEXT[] NOT NULL DEFAULT '{}', -- keywords and their synonyms in any language, or regexes
+    reply_text TEXT, -- the approved answer (media caption when media is set)
+    media_url TEXT,
+    media_type TEXT, -- image | document | audio | video
+    template_name TEXT, -- registered template (whatsapp_templates.name) sent instead
+    template_params JSONB, -- e.g. {"1": "{{customer_name}}"}
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (phone_number, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_rules_phone_priority
+ON reply_rules(phone_number, priority DESC)
+WHERE enabled;
+
+ALTER TABLE reply_rules ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on reply_rules" ON reply_rules;
+CREATE POLICY "Allow all operations on reply_rules" ON reply_rules FOR ALL USING (true);
+
+-- Atomic hit counter
+CREATE OR REPLACE FUNCTION record_reply_rule_hit(p_rule_id UUID)
+RETURNS VOID AS $$
+    UPDATE reply_rules
+    SET hit_count = hit_count + 1, last_hit_at = NOW()
+    WHERE id = p_rule_id;
+$$ LANGUAGE sql;
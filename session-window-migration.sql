@@ -0,0 +1,36 @@
+-- 24-hour session window: template fallback and outbound send log
+-- Run this in your Supabase SQL editor
+
+-- Approved template sent instead of free-form messages once a conversation's
+-- 24-hour window has closed. window_template_params maps template parameters
+-- to values, e.g. {"1": "{{customer_name}}", "2": "{{message}}"}.
+-- Available variables: message, customer_name, business_number.
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS window_template_id TEXT,
+ADD COLUMN IF NOT EXISTS window_template_language TEXT DEFAULT 'en',
+ADD COLUMN IF NOT EXISTS window_template_params JSONB DEFAULT '{}'::jsonb;
+
+-- The window is tracked from the customer's last inbound message
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_last_inbound
+ON whatsapp_messages(from_number, to_number, received_at DESC)
+WHERE event_type = 'MoMessage';
+
+-- Outbound sends that didn't go out as-is, and why
+CREATE TABLE IF NOT EXISTS outbound_send_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_number TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    channel TEXT,
+    message_id TEXT,
+    source TEXT, -- auto_reply | reminder | fallback
+    action TEXT NOT NULL, -- template_fallback | blocked | failed
+    reason TEXT,
+    template_id TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_send_log_business ON outbound_send_log(business_number, created_at DESC);
+
+ALTER TABLE outbound_send_log ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on outbound_send_log" ON outbound_send_log;
+CREATE POLICY "Allow all operations on outbound_send_log" ON outbound_send_log FOR ALL USING (true);
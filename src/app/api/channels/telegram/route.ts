@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { generateWebhookSecret, isAdminRequest } from "@/lib/webhookAuth";
+import { setTelegramWebhook } from "@/lib/channels/telegram";
+
+/**
+ * Point the number's Telegram bot at our webhook, at APP_BASE_URL.
+ * Every connect gives Telegram a fresh secret_token of its own.
+ * Admin only: the call decides where the bot's messages are delivered.
+ */
+export async function POST(req: Request) {
+    try {
+        if (!isAdminRequest(req.headers)) {
+            console.error("Unauthorized Telegram setup attempt");
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const baseUrl = process.env.APP_BASE_URL?.replace(/\/+$/, "");
+        if (!baseUrl) {
+            throw new Error("APP_BASE_URL is not configured");
+        }
+
+        const body = await req.json();
+        const { phone_number } = body;
+
+        if (!phone_number) {
+            return NextResponse.json(
+                { error: "phone_number is required" },
+                { status: 400 }
+            );
+        }
+
+        const { data: mapping, error } = await supabase
+            .from("phone_document_mapping")
+            .select("telegram_bot_token")
+            .eq("phone_number", phone_number)
+            .limit(1)
+            .single();
+
+        if (error || !mapping) {
+            return NextResponse.json(
+                { error: "Phone number not found" },
+                { status: 404 }
+            );
+        }
+
+        if (!mapping.telegram_bot_token) {
+            return NextResponse.json(
+                { error: "Save a Telegram bot token for this number first" },
+                { status: 400 }
+            );
+        }
+
+        // Stored first: Telegram starts sending it as soon as setWebhook succeeds
+        const secret = generateWebhookSecret();
+        const { error: updateError } = await supabase
+            .from("phone_document_mapping")
+            .update({ telegram_webhook_secret: secret })
+            .eq("phone_number", phone_number);
+
+        if (updateError) {
+            throw updateError;
+        }
+
+        const webhookUrl = `${baseUrl}/api/webhook/telegram/${encodeURIComponent(phone_number)}`;
+        await setTelegramWebhook(mapping.telegram_bot_token, webhookUrl, secret);
+
+        return NextResponse.json({
+            success: true,
+            webhook_url: webhookUrl,
+            message: "Telegram bot connected",
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("TELEGRAM_SETUP_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
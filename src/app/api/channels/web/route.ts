@@ -0,0 +1,150 @@
+import { NextResponse, after } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { hasDocumentMapping } from "@/lib/phoneMapping";
+import { runJobWorker } from "@/lib/jobWorker";
+import { conversationFilter, getChannel, isValidWebSessionId } from "@/lib/channels";
+import { ingestInboundMessage } from "@/lib/webhookIngest";
+import { getInteractiveOptions, InteractiveMessage } from "@/lib/interactive";
+import type { OutboundMedia } from "@/lib/providers";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// The widget is embedded on customer websites
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const webChannel = getChannel("web");
+
+export async function OPTIONS() {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * Send a message from the web widget
+ * Body: { business_number, session_id, text, sender_name?, client_message_id? }
+ */
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const businessNumber = body.business_number as string | undefined;
+
+        if (!businessNumber || !(await hasDocumentMapping(businessNumber))) {
+            return NextResponse.json(
+                { error: "Unknown business_number" },
+                { status: 404, headers: CORS_HEADERS }
+            );
+        }
+
+        const [message] = webChannel.parseInbound(body, businessNumber);
+        if (!message) {
+            return NextResponse.json(
+                { error: "session_id and text are required; session_id and client_message_id may only contain letters, digits, _ and -, up to 64 characters" },
+                { status: 400, headers: CORS_HEADERS }
+            );
+        }
+
+        const result = await ingestInboundMessage(message);
+
+        if (result.jobId) {
+            after(async () => {
+                try {
+                    await new Promise(resolve => setTimeout(resolve, result.debounceMs));
+                    await runJobWorker();
+                } catch (err) {
+                    console.error("Post-response job worker failed:", err);
+                }
+            });
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                message_id: message.messageId,
+                duplicate: result.duplicate,
+            },
+            { headers: CORS_HEADERS }
+        );
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("WEB_CHANNEL_ERROR:", message);
+        return NextResponse.json(
+            { error: message },
+            { status: 500, headers: CORS_HEADERS }
+        );
+    }
+}
+
+/**
+ * Poll the conversation: ?business_number=...&session_id=...&since=<ISO time>
+ */
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const businessNumber = searchParams.get("business_number");
+        const sessionId = searchParams.get("session_id");
+        const since = searchParams.get("since");
+
+        if (!businessNumber || !sessionId) {
+            return NextResponse.json(
+                { error: "business_number and session_id are required" },
+                { status: 400, headers: CORS_HEADERS }
+            );
+        }
+
+        if (!isValidWebSessionId(sessionId)) {
+            return NextResponse.json(
+                { error: "session_id may only contain letters, digits, _ and -, up to 64 characters" },
+                { status: 400, headers: CORS_HEADERS }
+            );
+        }
+
+        const contactId = webChannel.toContactId(sessionId);
+
+        let query = supabase
+            .from("whatsapp_messages")
+            .select("message_id, content_text, event_type, received_at, raw_payload")
+            .or(conversationFilter(contactId, businessNumber))
+            .order("received_at", { ascending: true })
+            .limit(100);
+
+        if (since) {
+            query = query.gt("received_at", since);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            throw error;
+        }
+
+        const messages = (data || [])
+            .filter(m => m.content_text)
+            .map(m => {
+                // Choices offered with a reply; the widget renders them as buttons
+                // and sends the chosen title back as a normal message
+                const interactive = m.raw_payload?.interactive as InteractiveMessage | undefined;
+                const media = m.raw_payload?.media as OutboundMedia | undefined;
+                return {
+                    id: m.message_id,
+                    role: m.event_type === "MoMessage" ? "user" : "assistant",
+                    text: m.content_text,
+                    created_at: m.received_at,
+                    ...(interactive ? { options: getInteractiveOptions(interactive) } : {}),
+                    ...(media ? { media } : {}),
+                };
+            });
+
+        return NextResponse.json({ success: true, messages }, { headers: CORS_HEADERS });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("WEB_CHANNEL_ERROR:", message);
+        return NextResponse.json(
+            { error: message },
+            { status: 500, headers: CORS_HEADERS }
+        );
+    }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { setConsent } from "@/lib/consent";
+
+export const runtime = "nodejs";
+
+// GET: List contacts by consent status (?phone_number=...&status=opted_out)
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+        const status = searchParams.get("status") || "opted_out";
+        const limit = parseInt(searchParams.get("limit") || "100");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("contact_consent")
+            .select("id, contact_id, status, source, keyword, updated_at")
+            .eq("business_number", phoneNumber)
+            .eq("status", status)
+            .order("updated_at", { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({
+            success: true,
+            contacts: data,
+            count: data?.length || 0,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_CONSENT_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Record consent from the dashboard. Body: { phone_number, contact_id, status }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { phone_number, contact_id, status } = body;
+
+        if (!phone_number || !contact_id) {
+            return NextResponse.json(
+                { error: "phone_number and contact_id are required" },
+                { status: 400 }
+            );
+        }
+
+        if (status !== "opted_out" && status !== "opted_in") {
+            return NextResponse.json(
+                { error: "status must be opted_out or opted_in" },
+                { status: 400 }
+            );
+        }
+
+        await setConsent(phone_number, String(contact_id).trim(), status, { source: "dashboard" });
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("SET_CONSENT_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
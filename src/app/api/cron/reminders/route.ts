@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabaseClient";
 import { generateReminderResponse } from "@/lib/autoResponder";
+import { isOptedOut } from "@/lib/consent";
+import { getActiveHandoff } from "@/lib/handoff";
+import { getBusinessHoursStatus, getBusinessSchedule } from "@/lib/businessHours";
 
 export const dynamic = "force-dynamic";
 
@@ -24,7 +27,7 @@ export async function GET(req: NextRequest) {
         // Query: Get recent messages
         const { data: messages, error } = await supabase
             .from("whatsapp_messages")
-            .select("from_number, to_number, event_type, received_at, raw_payload")
+            .select("from_number, to_number, event_type, received_at, raw_payload, delivery_status, read_at")
             .gt("received_at", TWO_HOURS_AGO)
             .order("received_at", { ascending: false });
 
@@ -50,19 +53,44 @@ export async function GET(req: NextRequest) {
         const results = [];
 
         for (const [key, lastMsg] of conversations.entries()) {
-            const [bizNum, userNum] = key.split(":");
+            // Contact IDs of other channels contain ":" too (e.g. "telegram:123")
+            const separator = key.indexOf(":");
+            const bizNum = key.slice(0, separator);
+            const userNum = key.slice(separator + 1);
 
             // Criteria for reminder:
-            // - Last message was MtMessage (AI)
-            // - Sent between 30 and 45 mins ago
-            // - Not already a reminder
+            // - Last message was MtMessage (AI) and didn't fail to deliver
+            // - Read (or, without a read receipt, sent) between 30 and 45 mins ago
+            // - Not already a reminder, nor a handoff notice to the owner
+            const seenAt = lastMsg.read_at ? new Date(lastMsg.read_at).toISOString() : lastMsg.received_at;
             const isStale = 
                 lastMsg.event_type === "MtMessage" &&
-                lastMsg.received_at <= THIRTY_MINS_AGO &&
-                lastMsg.received_at >= FORTY_FIVE_MINS_AGO &&
-                !lastMsg.raw_payload?.isReminder;
+                lastMsg.delivery_status !== "failed" &&
+                seenAt <= THIRTY_MINS_AGO &&
+                seenAt >= FORTY_FIVE_MINS_AGO &&
+                !lastMsg.raw_payload?.isReminder &&
+                !lastMsg.raw_payload?.isHandoffNotice;
 
             if (isStale) {
+                // Don't spend an LLM call on a reminder the sender would block anyway
+                if (await isOptedOut(bizNum, userNum)) {
+                    results.push({ user: userNum, status: "opted_out" });
+                    continue;
+                }
+
+                // No nudges at 3am or on holidays (the sender would block them too)
+                const schedule = await getBusinessSchedule(bizNum);
+                if (schedule.suppressReminders && !getBusinessHoursStatus(schedule).open) {
+                    results.push({ user: userNum, status: "after_hours" });
+                    continue;
+                }
+
+                // A person is handling this conversation
+                if (await getActiveHandoff(bizNum, userNum)) {
+                    results.push({ user: userNum, status: "handed_off" });
+                    continue;
+                }
+
                 console.log(`Sending reminder to ${userNum} (Biz: ${bizNum})`);
                 const reminderResult = await generateReminderResponse(userNum, bizNum);
                 results.push({ user: userNum, status: reminderResult.success ? "sent" : "failed", error: reminderResult.error });
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { pauseConversation, resumeConversation } from "@/lib/handoff";
+
+export const runtime = "nodejs";
+
+// GET: List conversations the bot is paused for (?phone_number=...)
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+        const limit = parseInt(searchParams.get("limit") || "100");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("conversation_handoffs")
+            .select("id, contact_id, reason, assigned_agent, note, paused_at, last_agent_activity_at, owner_notified_at, owner_notify_error")
+            .eq("business_number", phoneNumber)
+            .eq("status", "paused")
+            .order("paused_at", { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({
+            success: true,
+            handoffs: data,
+            count: data?.length || 0,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_HANDOFFS_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Pause or resume the bot from the dashboard. Body: { phone_number, contact_id, action, assigned_agent? }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { phone_number, contact_id, action, assigned_agent } = body;
+
+        if (!phone_number || !contact_id) {
+            return NextResponse.json(
+                { error: "phone_number and contact_id are required" },
+                { status: 400 }
+            );
+        }
+
+        if (action !== "pause" && action !== "resume") {
+            return NextResponse.json(
+                { error: "action must be pause or resume" },
+                { status: 400 }
+            );
+        }
+
+        const contactId = String(contact_id).trim();
+        if (action === "pause") {
+            await pauseConversation(phone_number, contactId, "dashboard", { assignedAgent: assigned_agent });
+        } else {
+            await resumeConversation(phone_number, contactId);
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("UPDATE_HANDOFF_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getConversationMessages, sendAgentReply } from "@/lib/inbox";
+
+export const runtime = "nodejs";
+
+// GET: One conversation's messages, oldest first (?phone_number=...&contact_id=...)
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+        const contactId = searchParams.get("contact_id");
+        const limit = parseInt(searchParams.get("limit") || "200");
+
+        if (!phoneNumber || !contactId) {
+            return NextResponse.json(
+                { error: "phone_number and contact_id are required" },
+                { status: 400 }
+            );
+        }
+
+        const messages = await getConversationMessages(phoneNumber, contactId, limit);
+
+        return NextResponse.json({
+            success: true,
+            messages,
+            count: messages.length,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_CONVERSATION_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Send an agent's reply. Body: { phone_number, contact_id, text, agent_name? }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { phone_number, contact_id, text, agent_name } = body;
+
+        if (!phone_number || !contact_id || typeof text !== "string" || !text.trim()) {
+            return NextResponse.json(
+                { error: "phone_number, contact_id and text are required" },
+                { status: 400 }
+            );
+        }
+
+        const agentName = typeof agent_name === "string" && agent_name.trim() ? agent_name.trim() : "Agent";
+        const result = await sendAgentReply(phone_number, contact_id, text.trim(), agentName);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error || "Failed to send reply", blocked: result.blocked || false },
+                { status: result.blocked ? 409 : 502 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            queued: result.queued || false,
+            template: result.template ? result.template.templateId : null,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("SEND_AGENT_REPLY_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
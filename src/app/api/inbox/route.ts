@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { listConversations, markConversationRead } from "@/lib/inbox";
+
+export const runtime = "nodejs";
+
+// GET: List a business number's conversations (?phone_number=...)
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        const conversations = await listConversations(phoneNumber);
+
+        return NextResponse.json({
+            success: true,
+            conversations,
+            count: conversations.length,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_INBOX_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Mark a conversation as read. Body: { phone_number, contact_id }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { phone_number, contact_id } = body;
+
+        if (!phone_number || !contact_id) {
+            return NextResponse.json(
+                { error: "phone_number and contact_id are required" },
+                { status: 400 }
+            );
+        }
+
+        await markConversationRead(phone_number, contact_id);
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("MARK_READ_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { retryJob } from "@/lib/jobQueue";
+
+// GET: List failed jobs (dead, or waiting for a retry after an error)
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+        const limit = parseInt(searchParams.get("limit") || "50");
+
+        let query = supabase
+            .from("webhook_jobs")
+            .select("id, job_type, business_number, status, attempts, max_attempts, run_at, last_error, created_at, updated_at")
+            .or("status.eq.dead,and(status.eq.pending,last_error.not.is.null)")
+            .order("updated_at", { ascending: false })
+            .limit(limit);
+
+        if (phoneNumber) {
+            query = query.eq("business_number", phoneNumber);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({
+            success: true,
+            jobs: data,
+            count: data?.length || 0,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_JOBS_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Requeue a failed job
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json(
+                { error: "Job id is required" },
+                { status: 400 }
+            );
+        }
+
+        const requeued = await retryJob(id);
+
+        if (!requeued) {
+            return NextResponse.json(
+                { error: "Job not found or currently processing" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Job requeued",
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("RETRY_JOB_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runJobWorker } from "@/lib/jobWorker";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * Drain the job queue. Webhooks already run the worker after each delivery;
+ * this covers retries and queued sends when no new messages come in.
+ * vercel.json runs it once a day, the most Vercel Hobby allows. For retries
+ * within minutes, call it every minute with the CRON_SECRET bearer token from
+ * an external scheduler, or switch the cron to "* * * * *" on Vercel Pro.
+ */
+export async function GET(req: NextRequest) {
+    try {
+        console.log("--- Running Job Worker ---");
+
+        // Security Check: Only allow requests with the correct Bearer token
+        // An unset CRON_SECRET must not let "Bearer undefined" through
+        const authHeader = req.headers.get("authorization");
+        if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+            console.error("Unauthorized job worker attempt");
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const result = await runJobWorker();
+
+        return NextResponse.json({
+            success: true,
+            ...result,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error("JOB_WORKER_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { hasDocumentMapping } from "@/lib/phoneMapping";
+import { getLeadFlow, parseLeadFlowInput } from "@/lib/leadFlows";
+
+export const runtime = "nodejs";
+
+// GET: A number's lead-capture flow (null when none is set up)
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, flow: await getLeadFlow(phoneNumber) });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_LEAD_FLOW_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// PUT: Create or replace the number's flow
+// Body: { phone_number, slots, enabled?, trigger?, trigger_keywords?, intro_message?, completion_message? }
+export async function PUT(req: Request) {
+    try {
+        const body = await req.json();
+        const phoneNumber = body.phone_number as string | undefined;
+
+        if (!phoneNumber || !(await hasDocumentMapping(phoneNumber))) {
+            return NextResponse.json({ error: "Phone number not found" }, { status: 404 });
+        }
+
+        const { input, error: validationError } = parseLeadFlowInput(body);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("lead_flows")
+            .upsert(
+                { ...input, phone_number: phoneNumber, updated_at: new Date().toISOString() },
+                { onConflict: "phone_number" }
+            )
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true, flow: data });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("SAVE_LEAD_FLOW_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
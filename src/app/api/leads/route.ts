@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { listLeads } from "@/lib/leadFlows";
+
+export const runtime = "nodejs";
+
+// GET: Leads captured on a number, newest first
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, leads: await listLeads(phoneNumber) });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_LEADS_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { getLeadSheetSyncLog, queueLeadSheetSync } from "@/lib/leadSheetSync";
+
+export const runtime = "nodejs";
+
+// GET: Recent Google Sheets sync attempts for a number, newest first
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, log: await getLeadSheetSyncLog(phoneNumber) });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_LEAD_SYNC_LOG_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Queue a lead to be written to the sheet again. Body: { lead_id }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+
+        if (!body.lead_id) {
+            return NextResponse.json({ error: "lead_id is required" }, { status: 400 });
+        }
+
+        const { data: lead } = await supabase
+            .from("leads")
+            .select("id, business_number")
+            .eq("id", body.lead_id)
+            .maybeSingle();
+
+        if (!lead) {
+            return NextResponse.json({ error: "Lead not found" }, { status: 404 });
+        }
+
+        if (!(await queueLeadSheetSync(lead))) {
+            return NextResponse.json(
+                { error: "Google Sheets sync is not set up for this number" },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("QUEUE_LEAD_SYNC_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
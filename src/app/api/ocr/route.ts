@@ -3,6 +3,7 @@ import { Mistral } from '@mistralai/mistralai';
 import { chunkText } from "@/lib/chunk";
 import { embedText } from "@/lib/embeddings";
 import { supabase } from "@/lib/supabaseClient";
+import { extractTextFromOcrResponse } from "@/lib/ocr";
 
 const apiKey = process.env.MISTRAL_API_KEY;
 
@@ -75,39 +76,8 @@ export async function POST(request: NextRequest) {
         console.log("Full response:", JSON.stringify(ocrResponse, null, 2));
 
         // Extract text from response
-        let extractedText = "";
-
         const respAny = ocrResponse as any;
-
-        console.log("Extracting text from response...");
-
-        if (typeof respAny.text === "string" && respAny.text.length > 0) {
-            console.log("Found text property directly");
-            extractedText = respAny.text;
-        } else if (Array.isArray(respAny.pages)) {
-            console.log("Found pages array, length:", respAny.pages.length);
-
-            // Extract markdown from each page
-            extractedText = respAny.pages
-                .map((p: any) => {
-                    // First try to get markdown field
-                    if (p.markdown) {
-                        console.log("Found markdown field in page");
-                        return p.markdown;
-                    }
-                    // Fallback to lines/paragraphs structure
-                    if (Array.isArray(p.lines)) return p.lines.map((l: any) => l.text || '').join('\n');
-                    if (Array.isArray(p.paragraphs)) return p.paragraphs.map((par: any) => par.text || '').join('\n');
-                    return '';
-                })
-                .filter(Boolean)
-                .join('\n\n');
-        } else if (Array.isArray(respAny.blocks)) {
-            console.log("Found blocks array, length:", respAny.blocks.length);
-            extractedText = respAny.blocks.map((b: any) => b.text || '').filter(Boolean).join('\n');
-        } else {
-            console.log("No recognized text structure found in response");
-        }
+        const extractedText = extractTextFromOcrResponse(ocrResponse);
 
         console.log("Extracted text length:", extractedText.length);
         console.log("Extracted text preview:", extractedText.substring(0, 200));
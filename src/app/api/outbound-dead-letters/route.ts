@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { replayDeadLetter } from "@/lib/outboundSender";
+
+export const runtime = "nodejs";
+
+// GET: List outbound messages that failed after retries
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+        const status = searchParams.get("status") || "dead";
+        const limit = parseInt(searchParams.get("limit") || "50");
+
+        let query = supabase
+            .from("outbound_dead_letters")
+            .select("id, business_number, contact_id, channel, source, message, error, status_code, attempts, status, created_at, updated_at, replayed_at")
+            .eq("status", status)
+            .order("created_at", { ascending: false })
+            .limit(limit);
+
+        if (phoneNumber) {
+            query = query.eq("business_number", phoneNumber);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({
+            success: true,
+            deadLetters: data,
+            count: data?.length || 0,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_DEAD_LETTERS_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Replay a dead letter. Body: { id }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json(
+                { error: "Dead letter id is required" },
+                { status: 400 }
+            );
+        }
+
+        const result = await replayDeadLetter(id);
+
+        if (!result) {
+            return NextResponse.json(
+                { error: "Dead letter not found or already replayed" },
+                { status: 404 }
+            );
+        }
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error || "Send failed again" },
+                { status: 502 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Message sent",
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("REPLAY_DEAD_LETTER_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// DELETE: Discard a dead letter (?id=...)
+export async function DELETE(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const id = searchParams.get("id");
+
+        if (!id) {
+            return NextResponse.json({ error: "id is required" }, { status: 400 });
+        }
+
+        const { error } = await supabase.from("outbound_dead_letters").delete().eq("id", id);
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("DELETE_DEAD_LETTER_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
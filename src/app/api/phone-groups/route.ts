@@ -15,6 +15,37 @@ export async function GET() {
                 gemini_api_key,
                 groq_api_key,
                 mistral_api_key,
+                reply_debounce_seconds,
+                whatsapp_provider,
+                meta_phone_number_id,
+                telegram_bot_token,
+                window_template_name,
+                window_template_id,
+                window_template_language,
+                window_template_params,
+                rate_limit_per_minute,
+                rate_limit_burst,
+                recipient_rate_limit_per_minute,
+                voice_replies_enabled,
+                tts_provider,
+                tts_voice,
+                stt_providers,
+                stt_min_confidence,
+                handoff_notify_number,
+                handoff_auto_resume_minutes,
+                handoff_template_name,
+                handoff_template_params,
+                business_timezone,
+                business_hours,
+                business_holidays,
+                away_message,
+                after_hours_bot_replies,
+                after_hours_suppress_reminders,
+                after_hours_suppress_handoffs,
+                lead_sheet_sync_enabled,
+                lead_sheet_id,
+                lead_sheet_tab,
+                lead_sheet_columns,
                 file_id,
                 rag_files (
                     id,
@@ -61,6 +92,37 @@ export async function GET() {
                     gemini_api_key: mapping.gemini_api_key || null,
                     groq_api_key: mapping.groq_api_key || null,
                     mistral_api_key: mapping.mistral_api_key || null,
+                    reply_debounce_seconds: mapping.reply_debounce_seconds ?? 5,
+                    whatsapp_provider: mapping.whatsapp_provider || "11za",
+                    meta_phone_number_id: mapping.meta_phone_number_id || "",
+                    telegram_bot_token: mapping.telegram_bot_token || "",
+                    window_template_name: mapping.window_template_name || "",
+                    window_template_id: mapping.window_template_id || "",
+                    window_template_language: mapping.window_template_language || "en",
+                    window_template_params: mapping.window_template_params || {},
+                    rate_limit_per_minute: mapping.rate_limit_per_minute ?? 600,
+                    rate_limit_burst: mapping.rate_limit_burst ?? 20,
+                    recipient_rate_limit_per_minute: mapping.recipient_rate_limit_per_minute ?? null,
+                    voice_replies_enabled: mapping.voice_replies_enabled ?? false,
+                    tts_provider: mapping.tts_provider || "openai",
+                    tts_voice: mapping.tts_voice || "",
+                    stt_providers: mapping.stt_providers || ["mistral", "google", "openai"],
+                    stt_min_confidence: mapping.stt_min_confidence ?? 0.6,
+                    handoff_notify_number: mapping.handoff_notify_number || "",
+                    handoff_auto_resume_minutes: mapping.handoff_auto_resume_minutes ?? null,
+                    handoff_template_name: mapping.handoff_template_name || "",
+                    handoff_template_params: mapping.handoff_template_params || {},
+                    business_timezone: mapping.business_timezone || "Asia/Kolkata",
+                    business_hours: mapping.business_hours || null,
+                    business_holidays: mapping.business_holidays || [],
+                    away_message: mapping.away_message || "",
+                    after_hours_bot_replies: mapping.after_hours_bot_replies ?? true,
+                    after_hours_suppress_reminders: mapping.after_hours_suppress_reminders ?? true,
+                    after_hours_suppress_handoffs: mapping.after_hours_suppress_handoffs ?? true,
+                    lead_sheet_sync_enabled: mapping.lead_sheet_sync_enabled ?? false,
+                    lead_sheet_id: mapping.lead_sheet_id || "",
+                    lead_sheet_tab: mapping.lead_sheet_tab || "Leads",
+                    lead_sheet_columns: mapping.lead_sheet_columns || null,
                     files: [],
                 };
             }
@@ -3,7 +3,9 @@ import { extractPdfText } from "@/lib/pdf";
 import { chunkText } from "@/lib/chunk";
 import { embedText, embedBatch } from "@/lib/embeddings";
 import { supabase } from "@/lib/supabaseClient";
-import { Mistral } from '@mistralai/mistralai';
+import { extractImageText } from "@/lib/ocr";
+import { getProvider } from "@/lib/providers";
+import { uploadMediaFile } from "@/lib/mediaLibrary";
 
 export const runtime = "nodejs";
 
@@ -19,6 +21,8 @@ export async function POST(req: Request) {
         const intent = form.get("intent") as string | null;
         const authToken = form.get("auth_token") as string | null;
         const origin = form.get("origin") as string | null;
+        const whatsappProvider = getProvider(form.get("whatsapp_provider") as string | null).name;
+        const metaPhoneNumberId = form.get("meta_phone_number_id") as string | null;
         const devMode = form.get("dev_mode") === "true";
         const processingMode = form.get("processing_mode") as "ocr" | "transcribe";
         const customGeminiKey = form.get("gemini_api_key") as string | null;
@@ -37,7 +41,13 @@ export async function POST(req: Request) {
             return NextResponse.json({ error: "Phone number is required" }, { status: 400 });
         }
 
-        if (!authToken || !origin) {
+        if (whatsappProvider === "meta" && (!authToken || !metaPhoneNumberId)) {
+            return NextResponse.json({
+                error: "Meta access token and phone number ID are required"
+            }, { status: 400 });
+        }
+
+        if (whatsappProvider === "11za" && (!authToken || !origin)) {
             return NextResponse.json({
                 error: "11za auth_token and origin are required"
             }, { status: 400 });
@@ -65,82 +75,26 @@ export async function POST(req: Request) {
                 }, { status: 500 });
             }
 
-            const base64Image = Buffer.from(buffer).toString('base64');
-            const dataUrl = `data:${fileType};base64,${base64Image}`;
-
-            if (processingMode === "ocr") {
-                // Use Mistral OCR API
-                const client = new Mistral({ apiKey: effectiveMistralKey });
-
-                const ocrResponse = await client.ocr.process({
-                    model: "mistral-ocr-latest",
-                    document: {
-                        type: "image_url",
-                        imageUrl: dataUrl,
-                    },
-                    includeImageBase64: true
-                });
-
-                const respAny = ocrResponse as any;
-
-                if (typeof respAny.text === "string" && respAny.text.length > 0) {
-                    extractedText = respAny.text;
-                } else if (Array.isArray(respAny.pages)) {
-                    extractedText = respAny.pages
-                        .map((p: any) => {
-                            if (p.markdown) return p.markdown;
-                            if (Array.isArray(p.lines)) return p.lines.map((l: any) => l.text || '').join('\n');
-                            if (Array.isArray(p.paragraphs)) return p.paragraphs.map((par: any) => par.text || '').join('\n');
-                            return '';
-                        })
-                        .filter(Boolean)
-                        .join('\n\n');
-                } else if (Array.isArray(respAny.blocks)) {
-                    extractedText = respAny.blocks.map((b: any) => b.text || '').filter(Boolean).join('\n');
-                }
-            } else {
-                // Use Pixtral vision model
-                const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${effectiveMistralKey}`,
-                    },
-                    body: JSON.stringify({
-                        model: "pixtral-12b-2409",
-                        messages: [
-                            {
-                                role: "user",
-                                content: [
-                                    {
-                                        type: "text",
-                                        text: "Extract all text from this image. Provide the text as it appears, maintaining the structure and formatting where possible."
-                                    },
-                                    {
-                                        type: "image_url",
-                                        image_url: {
-                                            url: dataUrl
-                                        }
-                                    }
-                                ]
-                            }
-                        ]
-                    })
-                });
-
-                if (!response.ok) {
-                    throw new Error(`Mistral API error: ${response.statusText}`);
-                }
-
-                const chatResponse = await response.json();
-                extractedText = chatResponse.choices[0].message.content || "";
-            }
+            extractedText = await extractImageText(
+                buffer,
+                fileType,
+                processingMode === "ocr" ? "ocr" : "transcribe",
+                effectiveMistralKey
+            );
         } else {
             return NextResponse.json({
                 error: "Unsupported file type. Please upload a PDF or image file."
             }, { status: 400 });
         }
 
+        // Keep the original so the bot can send it (product photo, brochure) to customers
+        let mediaUrl: string | null = null;
+        try {
+            mediaUrl = await uploadMediaFile(buffer, fileName, fileType, phoneNumber);
+        } catch (uploadError) {
+            console.warn("File will not be sendable as media:", uploadError);
+        }
+
         // 1) Create file record with 11za credentials and file type
         const { data: fileRow, error: fileError } = await supabase
             .from("rag_files")
@@ -149,6 +103,8 @@ export async function POST(req: Request) {
                 file_type: detectedFileType,
                 auth_token: authToken,
                 origin: origin,
+                media_url: mediaUrl,
+                media_mime_type: mediaUrl ? fileType : null,
             })
             .select()
             .single();
@@ -237,6 +193,8 @@ export async function POST(req: Request) {
                     intent: intent || placeholderMapping.intent,
                     auth_token: authToken,
                     origin: origin,
+                    whatsapp_provider: whatsappProvider,
+                    meta_phone_number_id: metaPhoneNumberId || null,
                     gemini_api_key: customGeminiKey || placeholderMapping.gemini_api_key,
                     groq_api_key: customGroqKey || placeholderMapping.groq_api_key,
                     mistral_api_key: customMistralKey || placeholderMapping.mistral_api_key,
@@ -257,6 +215,41 @@ export async function POST(req: Request) {
                     system_prompt: existingMappings[0].system_prompt,
                     auth_token: authToken,
                     origin: origin,
+                    whatsapp_provider: whatsappProvider,
+                    meta_phone_number_id: metaPhoneNumberId || null,
+                    // Per-number settings live on every mapping row
+                    reply_debounce_seconds: existingMappings[0].reply_debounce_seconds,
+                    telegram_bot_token: existingMappings[0].telegram_bot_token,
+                    window_template_name: existingMappings[0].window_template_name,
+                    window_template_id: existingMappings[0].window_template_id,
+                    window_template_language: existingMappings[0].window_template_language,
+                    window_template_params: existingMappings[0].window_template_params,
+                    rate_limit_per_minute: existingMappings[0].rate_limit_per_minute,
+                    rate_limit_burst: existingMappings[0].rate_limit_burst,
+                    recipient_rate_limit_per_minute: existingMappings[0].recipient_rate_limit_per_minute,
+                    voice_replies_enabled: existingMappings[0].voice_replies_enabled,
+                    tts_provider: existingMappings[0].tts_provider,
+                    tts_voice: existingMappings[0].tts_voice,
+                    stt_providers: existingMappings[0].stt_providers,
+                    stt_min_confidence: existingMappings[0].stt_min_confidence,
+                    handoff_notify_number: existingMappings[0].handoff_notify_number,
+                    handoff_auto_resume_minutes: existingMappings[0].handoff_auto_resume_minutes,
+                    handoff_template_name: existingMappings[0].handoff_template_name,
+                    handoff_template_params: existingMappings[0].handoff_template_params,
+                    business_timezone: existingMappings[0].business_timezone,
+                    business_hours: existingMappings[0].business_hours,
+                    business_holidays: existingMappings[0].business_holidays,
+                    away_message: existingMappings[0].away_message,
+                    after_hours_bot_replies: existingMappings[0].after_hours_bot_replies,
+                    after_hours_suppress_reminders: existingMappings[0].after_hours_suppress_reminders,
+                    after_hours_suppress_handoffs: existingMappings[0].after_hours_suppress_handoffs,
+                    lead_sheet_sync_enabled: existingMappings[0].lead_sheet_sync_enabled,
+                    lead_sheet_id: existingMappings[0].lead_sheet_id,
+                    lead_sheet_tab: existingMappings[0].lead_sheet_tab,
+                    lead_sheet_columns: existingMappings[0].lead_sheet_columns,
+                    webhook_secret: existingMappings[0].webhook_secret,
+                    webhook_secret_previous: existingMappings[0].webhook_secret_previous,
+                    webhook_secret_rotated_at: existingMappings[0].webhook_secret_rotated_at,
                     gemini_api_key: customGeminiKey || null,
                     groq_api_key: customGroqKey || null,
                     mistral_api_key: customMistralKey || null,
@@ -275,6 +268,8 @@ export async function POST(req: Request) {
                     intent: intent || null,
                     auth_token: authToken,
                     origin: origin,
+                    whatsapp_provider: whatsappProvider,
+                    meta_phone_number_id: metaPhoneNumberId || null,
                     gemini_api_key: customGeminiKey || null,
                     groq_api_key: customGroqKey || null,
                     mistral_api_key: customMistralKey || null,
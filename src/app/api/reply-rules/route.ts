@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { hasDocumentMapping } from "@/lib/phoneMapping";
+import { parseReplyRuleInput, ReplyRule } from "@/lib/replyRules";
+
+export const runtime = "nodejs";
+
+// Unique (phone_number, name)
+const DUPLICATE_NAME_ERROR = "A rule with this name already exists for this number";
+
+// GET: List a number's reply rules with their hit counts, highest priority first
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("reply_rules")
+            .select("*")
+            .eq("phone_number", phoneNumber)
+            .order("priority", { ascending: false })
+            .order("created_at", { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true, rules: data || [] });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_REPLY_RULES_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Create a rule
+// Body: { phone_number, name, patterns, match_type?, priority?, enabled?, reply_text?, media_url?, media_type?, template_name?, template_params? }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const phoneNumber = body.phone_number as string | undefined;
+
+        if (!phoneNumber || !(await hasDocumentMapping(phoneNumber))) {
+            return NextResponse.json({ error: "Phone number not found" }, { status: 404 });
+        }
+
+        const { input, error: validationError } = parseReplyRuleInput(body);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("reply_rules")
+            .insert({ ...input, phone_number: phoneNumber })
+            .select()
+            .single();
+
+        if (error?.code === "23505") {
+            return NextResponse.json({ error: DUPLICATE_NAME_ERROR }, { status: 409 });
+        }
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true, rule: data });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("CREATE_REPLY_RULE_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// PATCH: Update a rule. Body: { id, ...fields to change }
+export async function PATCH(req: Request) {
+    try {
+        const body = await req.json();
+
+        if (!body.id) {
+            return NextResponse.json({ error: "Rule id is required" }, { status: 400 });
+        }
+
+        const { data: stored, error: loadError } = await supabase
+            .from("reply_rules")
+            .select("*")
+            .eq("id", body.id)
+            .maybeSingle<ReplyRule>();
+
+        if (loadError) {
+            throw loadError;
+        }
+        if (!stored) {
+            return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+        }
+
+        const { input, error: validationError } = parseReplyRuleInput(body, stored);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("reply_rules")
+            .update({ ...input, updated_at: new Date().toISOString() })
+            .eq("id", body.id)
+            .select()
+            .maybeSingle();
+
+        if (error?.code === "23505") {
+            return NextResponse.json({ error: DUPLICATE_NAME_ERROR }, { status: 409 });
+        }
+        if (error) {
+            throw error;
+        }
+        if (!data) {
+            return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, rule: data });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("UPDATE_REPLY_RULE_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// DELETE: Remove a rule (?id=...)
+export async function DELETE(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const id = searchParams.get("id");
+
+        if (!id) {
+            return NextResponse.json({ error: "id is required" }, { status: 400 });
+        }
+
+        const { error } = await supabase.from("reply_rules").delete().eq("id", id);
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("DELETE_REPLY_RULE_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
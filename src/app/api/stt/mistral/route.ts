@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Mistral } from '@mistralai/mistralai';
+import { AUDIO_EXTENSIONS, normalizeAudioMimeType, splitAudio } from '@/lib/audioSegments';
 
-// Initialize Mistral client
-const client = new Mistral({
-  apiKey: process.env.MISTRAL_API_KEY,
-});
+// Uploads over this size are rejected outright; recordings are split into
+// segments small and short enough for a single transcription request
+const MAX_UPLOAD_SIZE = 100 * 1024 * 1024;
+const MAX_SEGMENT_SIZE = 20 * 1024 * 1024;
+const MAX_SEGMENT_SECONDS = 15 * 60;
 
 export interface TranscriptionResult {
   rawTranscript: string;
@@ -20,25 +22,24 @@ export interface TranscriptionResult {
 /**
  * Validates file type and size
  */
-function validateAudioFile(file: File): { isValid: boolean; error?: string } {
-  const allowedTypes = ['audio/wav', 'audio/mpeg', 'audio/webm', 'audio/mp4', 'audio/x-m4a'];
-  const maxSize = 25 * 1024 * 1024; // 25MB limit
+function validateAudioFile(file: File): { isValid: boolean; mimeType?: string; error?: string } {
+  const mimeType = normalizeAudioMimeType(file.type, file.name);
 
-  if (!allowedTypes.includes(file.type)) {
+  if (!mimeType) {
     return {
       isValid: false,
-      error: `Unsupported file type. Allowed: ${allowedTypes.join(', ')}`
+      error: `Unsupported file type. Allowed: ${Object.keys(AUDIO_EXTENSIONS).join(', ')}`
     };
   }
 
-  if (file.size > maxSize) {
+  if (file.size > MAX_UPLOAD_SIZE) {
     return {
       isValid: false,
-      error: `File too large. Maximum size: 25MB`
+      error: `File too large. Maximum size: 100MB`
     };
   }
 
-  return { isValid: true };
+  return { isValid: true, mimeType };
 }
 
 /**
@@ -58,35 +59,68 @@ function normalizeTranscript(text: string): string {
 }
 
 /**
- * Processes audio file with Mistral STT API
+ * Processes audio file with Mistral STT API. Long or large recordings are
+ * split into segments whose transcripts and timestamps are stitched together.
  */
-export async function transcribeAudio(audioBuffer: ArrayBuffer, filename: string): Promise<TranscriptionResult> {
+export async function transcribeAudio(
+  audioBuffer: ArrayBuffer,
+  filename: string,
+  options: { mimeType?: string | null; apiKey?: string } = {}
+): Promise<TranscriptionResult> {
   try {
-    // Create a Blob from the ArrayBuffer
-    const audioBlob = new Blob([audioBuffer], { type: 'audio/webm' });
-
-    // Call Mistral STT API
-    const response = await client.audio.transcriptions.complete({
-      file: audioBlob,
-      model: 'voxtral-mini-latest',
-      timestampGranularities: ['segment'],
+    const mimeType = normalizeAudioMimeType(options.mimeType, filename) || 'audio/ogg';
+    const extension = AUDIO_EXTENSIONS[mimeType];
+    const baseName = filename.replace(/\.[^.]+$/, '') || 'audio';
+
+    const client = new Mistral({
+      apiKey: options.apiKey || process.env.MISTRAL_API_KEY,
     });
 
-    const rawTranscript = response.text || '';
-    const cleanedTranscript = normalizeTranscript(rawTranscript);
+    const segments = splitAudio(audioBuffer, mimeType, {
+      maxBytes: MAX_SEGMENT_SIZE,
+      maxSeconds: MAX_SEGMENT_SECONDS,
+    });
+
+    if (segments.some(segment => segment.buffer.byteLength > MAX_SEGMENT_SIZE)) {
+      throw new Error(`Audio over ${MAX_SEGMENT_SIZE / 1024 / 1024}MB can only be split when it is OGG or WAV`);
+    }
 
-    // Extract timestamps if available
-    const timestamps = response.segments?.map(segment => ({
-      start: segment.start || 0,
-      end: segment.end || 0,
-      text: segment.text || '',
-    }));
+    const texts: string[] = [];
+    const timestamps: NonNullable<TranscriptionResult['timestamps']> = [];
+    let language: string | undefined;
+
+    for (const [index, segment] of segments.entries()) {
+      // Call Mistral STT API
+      const response = await client.audio.transcriptions.complete({
+        file: {
+          fileName: segments.length > 1 ? `${baseName}-part${index + 1}.${extension}` : `${baseName}.${extension}`,
+          content: new Blob([segment.buffer], { type: mimeType }),
+        },
+        model: 'voxtral-mini-latest',
+        timestampGranularities: ['segment'],
+      });
+
+      if (response.text) texts.push(response.text.trim());
+      language = language || response.language || undefined;
+
+      // Shift segment timestamps to their position in the whole recording
+      for (const item of response.segments || []) {
+        timestamps.push({
+          start: (item.start || 0) + segment.startSeconds,
+          end: (item.end || 0) + segment.startSeconds,
+          text: item.text || '',
+        });
+      }
+    }
+
+    const rawTranscript = texts.join(' ');
+    const cleanedTranscript = normalizeTranscript(rawTranscript);
 
     return {
       rawTranscript,
       cleanedTranscript,
-      language: response.language || undefined,
-      timestamps,
+      language,
+      timestamps: timestamps.length > 0 ? timestamps : undefined,
     };
 
   } catch (error) {
@@ -122,8 +156,11 @@ export async function POST(request: NextRequest) {
     // Convert file to ArrayBuffer
     const arrayBuffer = await file.arrayBuffer();
 
-    // Transcribe audio
-    const result = await transcribeAudio(arrayBuffer, file.name);
+    // Transcribe audio with the default key; business numbers' own keys are
+    // only used server-side, for their inbound voice notes
+    const result = await transcribeAudio(arrayBuffer, file.name, {
+      mimeType: validation.mimeType,
+    });
 
     return NextResponse.json({
       success: true,
@@ -162,7 +199,7 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   return NextResponse.json({
     status: 'STT service is running',
-    supportedFormats: ['wav', 'mp3', 'webm', 'm4a'],
-    maxFileSize: '25MB',
+    supportedFormats: ['ogg', 'opus', 'wav', 'mp3', 'webm', 'm4a'],
+    maxFileSize: '100MB (OGG and WAV over 20MB or 15 minutes are split into segments)',
   });
 }
\ No newline at end of file
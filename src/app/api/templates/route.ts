@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabaseClient";
+import { hasDocumentMapping } from "@/lib/phoneMapping";
+import { parseTemplateInput } from "@/lib/templates";
+
+export const runtime = "nodejs";
+
+// Unique (phone_number, name)
+const DUPLICATE_NAME_ERROR = "A template with this name already exists for this number";
+
+// GET: List the templates registered for a number
+export async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const phoneNumber = searchParams.get("phone_number");
+
+        if (!phoneNumber) {
+            return NextResponse.json({ error: "phone_number is required" }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("whatsapp_templates")
+            .select("*")
+            .eq("phone_number", phoneNumber)
+            .order("name", { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true, templates: data || [] });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("GET_TEMPLATES_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// POST: Register a template
+// Body: { phone_number, name, template_id, language, category, parameters?, preview_text? }
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const phoneNumber = body.phone_number as string | undefined;
+
+        if (!phoneNumber || !(await hasDocumentMapping(phoneNumber))) {
+            return NextResponse.json({ error: "Phone number not found" }, { status: 404 });
+        }
+
+        const { input, error: validationError } = parseTemplateInput(body);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("whatsapp_templates")
+            .insert({ ...input, phone_number: phoneNumber })
+            .select()
+            .single();
+
+        if (error?.code === "23505") {
+            return NextResponse.json({ error: DUPLICATE_NAME_ERROR }, { status: 409 });
+        }
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true, template: data });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("CREATE_TEMPLATE_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// PATCH: Update a template. Body: { id, ...fields to change }
+export async function PATCH(req: Request) {
+    try {
+        const body = await req.json();
+
+        if (!body.id) {
+            return NextResponse.json({ error: "Template id is required" }, { status: 400 });
+        }
+
+        const { input, error: validationError } = parseTemplateInput(body, true);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from("whatsapp_templates")
+            .update({ ...input, updated_at: new Date().toISOString() })
+            .eq("id", body.id)
+            .select()
+            .maybeSingle();
+
+        if (error?.code === "23505") {
+            return NextResponse.json({ error: DUPLICATE_NAME_ERROR }, { status: 409 });
+        }
+        if (error) {
+            throw error;
+        }
+        if (!data) {
+            return NextResponse.json({ error: "Template not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, template: data });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("UPDATE_TEMPLATE_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+// DELETE: Remove a template (?id=...)
+export async function DELETE(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const id = searchParams.get("id");
+
+        if (!id) {
+            return NextResponse.json({ error: "id is required" }, { status: 400 });
+        }
+
+        const { error } = await supabase.from("whatsapp_templates").delete().eq("id", id);
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("DELETE_TEMPLATE_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabaseClient";
+import { isProviderName } from "@/lib/providers";
+import { isTtsProviderName } from "@/lib/tts";
+import { isSttProviderName } from "@/lib/stt";
+import { isValidHolidays, isValidTimezone, isValidWeeklyHours } from "@/lib/businessHours";
+import { extractSheetId, isValidLeadSheetColumns } from "@/lib/leadSheetSync";
 
 export async function POST(req: NextRequest) {
     try {
         const body = await req.json();
-        const { phone_number, intent, system_prompt, auth_token, origin, gemini_api_key, groq_api_key, mistral_api_key } = body;
+        const { phone_number, intent, system_prompt, auth_token, origin, gemini_api_key, groq_api_key, mistral_api_key, reply_debounce_seconds, whatsapp_provider, meta_phone_number_id, telegram_bot_token, window_template_name, window_template_id, window_template_language, window_template_params, rate_limit_per_minute, rate_limit_burst, recipient_rate_limit_per_minute, voice_replies_enabled, tts_provider, tts_voice, stt_providers, stt_min_confidence, handoff_notify_number, handoff_auto_resume_minutes, handoff_template_name, handoff_template_params, business_timezone, business_hours, business_holidays, away_message, after_hours_bot_replies, after_hours_suppress_reminders, after_hours_suppress_handoffs, lead_sheet_sync_enabled, lead_sheet_id, lead_sheet_tab, lead_sheet_columns } = body;
 
         if (!phone_number) {
             return NextResponse.json(
@@ -13,6 +18,101 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        if (whatsapp_provider !== undefined && !isProviderName(whatsapp_provider)) {
+            return NextResponse.json(
+                { error: "Unsupported WhatsApp provider" },
+                { status: 400 }
+            );
+        }
+
+        if (tts_provider !== undefined && !isTtsProviderName(tts_provider)) {
+            return NextResponse.json(
+                { error: "Unsupported text-to-speech provider" },
+                { status: 400 }
+            );
+        }
+
+        if (stt_providers !== undefined && (!Array.isArray(stt_providers) || stt_providers.length === 0 || !stt_providers.every(isSttProviderName))) {
+            return NextResponse.json(
+                { error: "Speech-to-text providers must be a list of: mistral, google, openai" },
+                { status: 400 }
+            );
+        }
+
+        if (stt_min_confidence !== undefined && (typeof stt_min_confidence !== "number" || stt_min_confidence < 0 || stt_min_confidence > 1)) {
+            return NextResponse.json(
+                { error: "Minimum transcript confidence must be between 0 and 1" },
+                { status: 400 }
+            );
+        }
+
+        const isParamMapping = (value: unknown) =>
+            typeof value === "object" && value !== null && !Array.isArray(value)
+            && Object.values(value).every(v => typeof v === "string");
+
+        if (
+            (window_template_params !== undefined && window_template_params !== null && !isParamMapping(window_template_params))
+            || (handoff_template_params !== undefined && handoff_template_params !== null && !isParamMapping(handoff_template_params))
+        ) {
+            return NextResponse.json(
+                { error: "Template parameters must map parameter names to text, e.g. {\"1\": \"{{customer_name}}\"}" },
+                { status: 400 }
+            );
+        }
+
+        const isPositiveLimit = (value: unknown) =>
+            value === undefined || (Number.isInteger(value) && (value as number) > 0);
+
+        if (!isPositiveLimit(rate_limit_per_minute) || !isPositiveLimit(rate_limit_burst)
+            || (recipient_rate_limit_per_minute !== null && !isPositiveLimit(recipient_rate_limit_per_minute))) {
+            return NextResponse.json(
+                { error: "Rate limits must be whole numbers greater than zero" },
+                { status: 400 }
+            );
+        }
+
+        if (handoff_auto_resume_minutes !== null && !isPositiveLimit(handoff_auto_resume_minutes)) {
+            return NextResponse.json(
+                { error: "Auto-resume minutes must be a whole number greater than zero" },
+                { status: 400 }
+            );
+        }
+
+        if (business_timezone !== undefined && !isValidTimezone(business_timezone)) {
+            return NextResponse.json(
+                { error: "Unknown timezone, use an IANA name like Asia/Kolkata" },
+                { status: 400 }
+            );
+        }
+
+        if (business_hours !== undefined && business_hours !== null && !isValidWeeklyHours(business_hours)) {
+            return NextResponse.json(
+                { error: "Business hours must map weekdays (mon-sun) to slots like {\"open\": \"09:00\", \"close\": \"18:00\"}" },
+                { status: 400 }
+            );
+        }
+
+        if (business_holidays !== undefined && !isValidHolidays(business_holidays)) {
+            return NextResponse.json(
+                { error: "Holidays must be a list of dates like {\"date\": \"2026-11-08\", \"name\": \"Diwali\"}" },
+                { status: 400 }
+            );
+        }
+
+        if (lead_sheet_columns !== undefined && lead_sheet_columns !== null && !isValidLeadSheetColumns(lead_sheet_columns)) {
+            return NextResponse.json(
+                { error: "Sheet columns must map headers to lead_id, contact_id, contact_name, summary, created_at, updated_at, synced_at or field:<key>" },
+                { status: 400 }
+            );
+        }
+
+        if (lead_sheet_sync_enabled && !lead_sheet_id) {
+            return NextResponse.json(
+                { error: "A Google Sheet is required to sync leads" },
+                { status: 400 }
+            );
+        }
+
         console.log("Updating phone settings for:", phone_number);
 
         // Check if phone number has any mappings
@@ -37,6 +137,37 @@ export async function POST(req: NextRequest) {
         if (gemini_api_key !== undefined) updateData.gemini_api_key = gemini_api_key;
         if (groq_api_key !== undefined) updateData.groq_api_key = groq_api_key;
         if (mistral_api_key !== undefined) updateData.mistral_api_key = mistral_api_key;
+        if (reply_debounce_seconds !== undefined) updateData.reply_debounce_seconds = reply_debounce_seconds;
+        if (whatsapp_provider !== undefined) updateData.whatsapp_provider = whatsapp_provider;
+        if (meta_phone_number_id !== undefined) updateData.meta_phone_number_id = meta_phone_number_id;
+        if (telegram_bot_token !== undefined) updateData.telegram_bot_token = telegram_bot_token;
+        if (window_template_name !== undefined) updateData.window_template_name = window_template_name;
+        if (window_template_id !== undefined) updateData.window_template_id = window_template_id;
+        if (window_template_language !== undefined) updateData.window_template_language = window_template_language;
+        if (window_template_params !== undefined) updateData.window_template_params = window_template_params || {};
+        if (rate_limit_per_minute !== undefined) updateData.rate_limit_per_minute = rate_limit_per_minute;
+        if (rate_limit_burst !== undefined) updateData.rate_limit_burst = rate_limit_burst;
+        if (recipient_rate_limit_per_minute !== undefined) updateData.recipient_rate_limit_per_minute = recipient_rate_limit_per_minute;
+        if (voice_replies_enabled !== undefined) updateData.voice_replies_enabled = !!voice_replies_enabled;
+        if (tts_provider !== undefined) updateData.tts_provider = tts_provider;
+        if (tts_voice !== undefined) updateData.tts_voice = tts_voice;
+        if (stt_providers !== undefined) updateData.stt_providers = stt_providers;
+        if (stt_min_confidence !== undefined) updateData.stt_min_confidence = stt_min_confidence;
+        if (handoff_notify_number !== undefined) updateData.handoff_notify_number = handoff_notify_number;
+        if (handoff_auto_resume_minutes !== undefined) updateData.handoff_auto_resume_minutes = handoff_auto_resume_minutes;
+        if (handoff_template_name !== undefined) updateData.handoff_template_name = handoff_template_name;
+        if (handoff_template_params !== undefined) updateData.handoff_template_params = handoff_template_params || {};
+        if (business_timezone !== undefined) updateData.business_timezone = business_timezone;
+        if (business_hours !== undefined) updateData.business_hours = business_hours;
+        if (business_holidays !== undefined) updateData.business_holidays = business_holidays;
+        if (away_message !== undefined) updateData.away_message = away_message;
+        if (after_hours_bot_replies !== undefined) updateData.after_hours_bot_replies = !!after_hours_bot_replies;
+        if (after_hours_suppress_reminders !== undefined) updateData.after_hours_suppress_reminders = !!after_hours_suppress_reminders;
+        if (after_hours_suppress_handoffs !== undefined) updateData.after_hours_suppress_handoffs = !!after_hours_suppress_handoffs;
+        if (lead_sheet_sync_enabled !== undefined) updateData.lead_sheet_sync_enabled = !!lead_sheet_sync_enabled;
+        if (lead_sheet_id !== undefined) updateData.lead_sheet_id = lead_sheet_id ? extractSheetId(lead_sheet_id) : null;
+        if (lead_sheet_tab !== undefined) updateData.lead_sheet_tab = lead_sheet_tab;
+        if (lead_sheet_columns !== undefined) updateData.lead_sheet_columns = lead_sheet_columns;
 
         const { error: updateMappingError } = await supabase
             .from("phone_document_mapping")
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { isAdminRequest, rotateWebhookSecret } from "@/lib/webhookAuth";
+
+/**
+ * Rotate the webhook signing secret for a business number.
+ * The new secret is only returned once - store it in the provider settings.
+ * Admin only: the secret lets its holder sign webhooks for the number.
+ */
+export async function POST(req: Request) {
+    try {
+        if (!isAdminRequest(req.headers)) {
+            console.error("Unauthorized webhook secret rotation attempt");
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const body = await req.json();
+        const { phone_number } = body;
+
+        if (!phone_number) {
+            return NextResponse.json(
+                { error: "phone_number is required" },
+                { status: 400 }
+            );
+        }
+
+        const secret = await rotateWebhookSecret(phone_number);
+
+        if (!secret) {
+            return NextResponse.json(
+                { error: "Phone number not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            webhook_secret: secret,
+            message: "Webhook secret rotated. The previous secret stays valid for 24 hours.",
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("ROTATE_WEBHOOK_SECRET_ERROR:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
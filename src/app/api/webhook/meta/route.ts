@@ -0,0 +1,116 @@
+import { NextResponse, after } from "next/server";
+import { verifyMetaSignature } from "@/lib/webhookAuth";
+import { runJobWorker } from "@/lib/jobWorker";
+import { getMetaBusinessNumbers, getProvider } from "@/lib/providers";
+import { ingestDeliveryReceipt, ingestInboundMessage } from "@/lib/webhookIngest";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Meta WhatsApp Cloud API webhook
+const provider = getProvider("meta");
+
+export async function POST(req: Request) {
+    try {
+        // Read the raw body first - the signature is computed over the exact bytes
+        const rawBody = await req.text();
+
+        const auth = verifyMetaSignature(req.headers, rawBody);
+        if (!auth.valid) {
+            console.warn(`Rejected Meta webhook: ${auth.error}`);
+            return NextResponse.json(
+                { error: "Unauthorized", reason: auth.error },
+                { status: 401 }
+            );
+        }
+
+        let body: unknown;
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            return NextResponse.json(
+                { error: "Invalid JSON in request body" },
+                { status: 400 }
+            );
+        }
+
+        const messages = provider.parseInbound(body);
+        const receipts = provider.parseStatus(body);
+        const [businessNumber = ""] = getMetaBusinessNumbers(body);
+
+        console.log(`Received Meta webhook: ${messages.length} message(s), ${receipts.length} receipt(s)`);
+
+        let matchedReceipts = 0;
+        for (const receipt of receipts) {
+            if (await ingestDeliveryReceipt(receipt, businessNumber)) {
+                matchedReceipts++;
+            }
+        }
+
+        const jobIds: string[] = [];
+        let debounceMs = 0;
+        for (const message of messages) {
+            const result = await ingestInboundMessage(message);
+            if (result.jobId) {
+                jobIds.push(result.jobId);
+                debounceMs = Math.max(debounceMs, result.debounceMs);
+            }
+        }
+
+        if (jobIds.length > 0) {
+            // Kick the worker once the response has been sent;
+            // the cron worker picks up anything left over or retried
+            after(async () => {
+                try {
+                    await new Promise(resolve => setTimeout(resolve, debounceMs));
+                    await runJobWorker();
+                } catch (err) {
+                    console.error("Post-response job worker failed:", err);
+                }
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            messages: messages.length,
+            receipts: receipts.length,
+            matched_receipts: matchedReceipts,
+            job_ids: jobIds,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("META_WEBHOOK_ERROR:", message, err);
+        return NextResponse.json(
+            { error: message },
+            { status: 500 }
+        );
+    }
+}
+
+// Meta verifies the callback URL with a GET challenge when the webhook is configured
+export async function GET(req: Request) {
+    const { searchParams } = new URL(req.url);
+    const mode = searchParams.get("hub.mode");
+    const token = searchParams.get("hub.verify_token");
+    const challenge = searchParams.get("hub.challenge");
+
+    const VERIFY_TOKEN = process.env.WHATSAPP_VERIFY_TOKEN;
+
+    if (!VERIFY_TOKEN) {
+        console.error("WHATSAPP_VERIFY_TOKEN is not set - refusing webhook verification");
+        return NextResponse.json(
+            { error: "Verification failed" },
+            { status: 403 }
+        );
+    }
+
+    if (mode === "subscribe" && token === VERIFY_TOKEN) {
+        console.log("Meta webhook verified successfully");
+        return new Response(challenge, { status: 200 });
+    }
+
+    return NextResponse.json(
+        { error: "Verification failed" },
+        { status: 403 }
+    );
+}
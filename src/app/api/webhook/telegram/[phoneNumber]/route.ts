@@ -0,0 +1,70 @@
+import { NextResponse, after } from "next/server";
+import { verifyTelegramSecretToken } from "@/lib/webhookAuth";
+import { runJobWorker } from "@/lib/jobWorker";
+import { getChannel } from "@/lib/channels";
+import { ingestInboundMessage } from "@/lib/webhookIngest";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Telegram bot webhook - one URL per business number, registered via /api/channels/telegram
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ phoneNumber: string }> }
+) {
+    try {
+        const { phoneNumber } = await params;
+
+        // Telegram echoes the secret_token given to setWebhook in this header
+        const auth = await verifyTelegramSecretToken(req.headers.get("x-telegram-bot-api-secret-token"), phoneNumber);
+        if (!auth.valid) {
+            console.warn(`Rejected Telegram webhook for ${phoneNumber}: ${auth.error}`);
+            return NextResponse.json(
+                { error: "Unauthorized", reason: auth.error },
+                { status: 401 }
+            );
+        }
+
+        let update: unknown;
+        try {
+            update = await req.json();
+        } catch {
+            return NextResponse.json(
+                { error: "Invalid JSON in request body" },
+                { status: 400 }
+            );
+        }
+
+        const [message] = getChannel("telegram").parseInbound(update, phoneNumber);
+        if (!message) {
+            // Edits, joins etc. - acknowledge so Telegram doesn't redeliver
+            return NextResponse.json({ success: true, ignored: true });
+        }
+
+        const result = await ingestInboundMessage(message);
+
+        if (result.jobId) {
+            after(async () => {
+                try {
+                    await new Promise(resolve => setTimeout(resolve, result.debounceMs));
+                    await runJobWorker();
+                } catch (err) {
+                    console.error("Post-response job worker failed:", err);
+                }
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            duplicate: result.duplicate,
+            job_id: result.jobId,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error("TELEGRAM_WEBHOOK_ERROR:", message, err);
+        return NextResponse.json(
+            { error: message },
+            { status: 500 }
+        );
+    }
+}
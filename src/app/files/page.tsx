@@ -8,6 +8,19 @@ import { SyncGoogleSheetButton } from "@/components/ui/sync-google-sheet-button"
 import { SaveGoogleSheet } from "@/components/ui/save-google-sheet";
 import { SyncGoogleDocButton } from "@/components/ui/sync-google-doc-button";
 import { SaveGoogleDoc } from "@/components/ui/save-google-doc";
+import { WebhookSecret } from "@/components/ui/webhook-secret";
+import { FailedJobs } from "@/components/ui/failed-jobs";
+import { DeadLetters } from "@/components/ui/dead-letters";
+import { ConsentRegistry } from "@/components/ui/consent-registry";
+import { PausedConversations } from "@/components/ui/paused-conversations";
+import { TelegramConnect } from "@/components/ui/telegram-connect";
+import { RegisteredTemplate, TemplateRegistry } from "@/components/ui/template-registry";
+import { ReplyRules } from "@/components/ui/reply-rules";
+import { LeadFlowEditor } from "@/components/ui/lead-flow-editor";
+import { CapturedLeads } from "@/components/ui/captured-leads";
+import { LeadSyncLog } from "@/components/ui/lead-sync-log";
+import type { Holiday, Weekday, WeeklyHours } from "@/lib/businessHours";
+import type { LeadSheetColumn } from "@/lib/leadSheetSync";
 
 /* ================= TYPES ================= */
 
@@ -29,8 +42,117 @@ type PhoneNumberGroup = {
     gemini_api_key: string | null;
     groq_api_key: string | null;
     mistral_api_key: string | null;
+    reply_debounce_seconds: number;
+    whatsapp_provider: "11za" | "meta";
+    meta_phone_number_id: string;
+    telegram_bot_token: string;
+    window_template_name: string;
+    window_template_id: string;
+    window_template_language: string;
+    window_template_params: Record<string, string>;
+    rate_limit_per_minute: number;
+    rate_limit_burst: number;
+    recipient_rate_limit_per_minute: number | null;
+    voice_replies_enabled: boolean;
+    tts_provider: "openai" | "google";
+    tts_voice: string;
+    stt_providers: string[];
+    stt_min_confidence: number;
+    handoff_notify_number: string;
+    handoff_auto_resume_minutes: number | null;
+    handoff_template_name: string;
+    handoff_template_params: Record<string, string>;
+    business_timezone: string;
+    business_hours: WeeklyHours | null;
+    business_holidays: Holiday[];
+    away_message: string;
+    after_hours_bot_replies: boolean;
+    after_hours_suppress_reminders: boolean;
+    after_hours_suppress_handoffs: boolean;
+    lead_sheet_sync_enabled: boolean;
+    lead_sheet_id: string;
+    lead_sheet_tab: string;
+    lead_sheet_columns: LeadSheetColumn[] | null;
 };
 
+/* ================= BUSINESS HOURS ================= */
+
+const WEEK: { day: Weekday; label: string }[] = [
+    { day: "mon", label: "Monday" },
+    { day: "tue", label: "Tuesday" },
+    { day: "wed", label: "Wednesday" },
+    { day: "thu", label: "Thursday" },
+    { day: "fri", label: "Friday" },
+    { day: "sat", label: "Saturday" },
+    { day: "sun", label: "Sunday" },
+];
+
+const DEFAULT_WEEKLY_HOURS: Record<Weekday, string> = {
+    mon: "09:00-18:00",
+    tue: "09:00-18:00",
+    wed: "09:00-18:00",
+    thu: "09:00-18:00",
+    fri: "09:00-18:00",
+    sat: "",
+    sun: "",
+};
+
+// {"mon": [{open, close}]} <-> {"mon": "09:00-13:00, 14:00-18:00"}
+function formatWeeklyHours(hours: WeeklyHours): Record<Weekday, string> {
+    const formatted = { ...DEFAULT_WEEKLY_HOURS };
+    for (const { day } of WEEK) {
+        formatted[day] = (hours[day] || []).map((slot) => `${slot.open}-${slot.close}`).join(", ");
+    }
+    return formatted;
+}
+
+function parseWeeklyHours(text: Record<Weekday, string>): WeeklyHours {
+    const hours: WeeklyHours = {};
+    for (const { day } of WEEK) {
+        const slots = text[day]
+            .split(",")
+            .map((slot) => slot.trim())
+            .filter(Boolean)
+            .map((slot) => {
+                const [open = "", close = ""] = slot.split("-").map((time) => time.trim());
+                return { open, close };
+            });
+        if (slots.length > 0) hours[day] = slots;
+    }
+    return hours;
+}
+
+// One holiday per line: "2026-11-08 Diwali"
+function parseHolidays(text: string): Holiday[] {
+    return text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+            const [date, ...name] = line.split(/\s+/);
+            return name.length > 0 ? { date, name: name.join(" ") } : { date };
+        });
+}
+
+/* ================= LEAD SHEET COLUMNS ================= */
+
+// One "Header = source" per line
+function formatSheetColumns(columns: LeadSheetColumn[]): string {
+    return columns.map((column) => `${column.header} = ${column.source}`).join("\n");
+}
+
+function parseSheetColumns(text: string): LeadSheetColumn[] | null {
+    const columns = text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+            const [header = "", source = ""] = line.split("=").map((part) => part.trim());
+            return { header, source };
+        });
+    return columns.length > 0 ? columns : null;
+}
+
 /* ================= COMPONENT ================= */
 
 export default function FilesPage() {
@@ -47,10 +169,43 @@ export default function FilesPage() {
     const [editIntent, setEditIntent] = useState("");
     const [editAuthToken, setEditAuthToken] = useState("");
     const [editOrigin, setEditOrigin] = useState("");
+    const [editProvider, setEditProvider] = useState<"11za" | "meta">("11za");
+    const [editMetaPhoneNumberId, setEditMetaPhoneNumberId] = useState("");
+    const [editTelegramToken, setEditTelegramToken] = useState("");
     const [editSystemPrompt, setEditSystemPrompt] = useState("");
     const [editGeminiKey, setEditGeminiKey] = useState("");
     const [editGroqKey, setEditGroqKey] = useState("");
     const [editMistralKey, setEditMistralKey] = useState("");
+    const [editDebounceSeconds, setEditDebounceSeconds] = useState(5);
+    const [editWindowTemplateName, setEditWindowTemplateName] = useState("");
+    const [editWindowTemplateId, setEditWindowTemplateId] = useState("");
+    const [editWindowTemplateLanguage, setEditWindowTemplateLanguage] = useState("en");
+    const [editWindowTemplateParams, setEditWindowTemplateParams] = useState("");
+    const [editRateLimitPerMinute, setEditRateLimitPerMinute] = useState(600);
+    const [editRateLimitBurst, setEditRateLimitBurst] = useState(20);
+    const [editRecipientRateLimit, setEditRecipientRateLimit] = useState("");
+    const [editVoiceReplies, setEditVoiceReplies] = useState(false);
+    const [editTtsProvider, setEditTtsProvider] = useState<"openai" | "google">("openai");
+    const [editTtsVoice, setEditTtsVoice] = useState("");
+    const [editSttProviders, setEditSttProviders] = useState("mistral, google, openai");
+    const [editSttMinConfidence, setEditSttMinConfidence] = useState(0.6);
+    const [editHandoffNotifyNumber, setEditHandoffNotifyNumber] = useState("");
+    const [editHandoffAutoResume, setEditHandoffAutoResume] = useState("");
+    const [editHandoffTemplateName, setEditHandoffTemplateName] = useState("");
+    const [editHandoffTemplateParams, setEditHandoffTemplateParams] = useState("");
+    const [editHoursEnabled, setEditHoursEnabled] = useState(false);
+    const [editTimezone, setEditTimezone] = useState("Asia/Kolkata");
+    const [editWeeklyHours, setEditWeeklyHours] = useState<Record<Weekday, string>>(DEFAULT_WEEKLY_HOURS);
+    const [editHolidays, setEditHolidays] = useState("");
+    const [editAwayMessage, setEditAwayMessage] = useState("");
+    const [editBotRepliesAfterHours, setEditBotRepliesAfterHours] = useState(true);
+    const [editSuppressReminders, setEditSuppressReminders] = useState(true);
+    const [editSuppressHandoffs, setEditSuppressHandoffs] = useState(true);
+    const [editLeadSheetSync, setEditLeadSheetSync] = useState(false);
+    const [editLeadSheetId, setEditLeadSheetId] = useState("");
+    const [editLeadSheetTab, setEditLeadSheetTab] = useState("Leads");
+    const [editLeadSheetColumns, setEditLeadSheetColumns] = useState("");
+    const [registeredTemplates, setRegisteredTemplates] = useState<RegisteredTemplate[]>([]);
     const [isNewPhone, setIsNewPhone] = useState(false);
     const [savingSettings, setSavingSettings] = useState(false);
 
@@ -84,10 +239,54 @@ export default function FilesPage() {
                 setEditIntent(group.intent || "");
                 setEditAuthToken(group.auth_token || "");
                 setEditOrigin(group.origin || "");
+                setEditProvider(group.whatsapp_provider || "11za");
+                setEditMetaPhoneNumberId(group.meta_phone_number_id || "");
+                setEditTelegramToken(group.telegram_bot_token || "");
                 setEditSystemPrompt(group.system_prompt || "");
                 setEditGeminiKey(group.gemini_api_key || "");
                 setEditGroqKey(group.groq_api_key || "");
                 setEditMistralKey(group.mistral_api_key || "");
+                setEditDebounceSeconds(group.reply_debounce_seconds ?? 5);
+                setEditWindowTemplateName(group.window_template_name || "");
+                setEditWindowTemplateId(group.window_template_id || "");
+                setEditWindowTemplateLanguage(group.window_template_language || "en");
+                setEditWindowTemplateParams(
+                    Object.keys(group.window_template_params || {}).length > 0
+                        ? JSON.stringify(group.window_template_params, null, 2)
+                        : ""
+                );
+                setEditRateLimitPerMinute(group.rate_limit_per_minute ?? 600);
+                setEditRateLimitBurst(group.rate_limit_burst ?? 20);
+                setEditRecipientRateLimit(group.recipient_rate_limit_per_minute?.toString() || "");
+                setEditVoiceReplies(group.voice_replies_enabled ?? false);
+                setEditTtsProvider(group.tts_provider || "openai");
+                setEditTtsVoice(group.tts_voice || "");
+                setEditSttProviders((group.stt_providers || ["mistral", "google", "openai"]).join(", "));
+                setEditSttMinConfidence(group.stt_min_confidence ?? 0.6);
+                setEditHandoffNotifyNumber(group.handoff_notify_number || "");
+                setEditHandoffAutoResume(group.handoff_auto_resume_minutes?.toString() || "");
+                setEditHandoffTemplateName(group.handoff_template_name || "");
+                setEditHandoffTemplateParams(
+                    Object.keys(group.handoff_template_params || {}).length > 0
+                        ? JSON.stringify(group.handoff_template_params, null, 2)
+                        : ""
+                );
+                setEditHoursEnabled(!!group.business_hours);
+                setEditTimezone(group.business_timezone || "Asia/Kolkata");
+                setEditWeeklyHours(group.business_hours ? formatWeeklyHours(group.business_hours) : DEFAULT_WEEKLY_HOURS);
+                setEditHolidays(
+                    (group.business_holidays || [])
+                        .map((holiday) => `${holiday.date}${holiday.name ? ` ${holiday.name}` : ""}`)
+                        .join("\n")
+                );
+                setEditAwayMessage(group.away_message || "");
+                setEditBotRepliesAfterHours(group.after_hours_bot_replies ?? true);
+                setEditSuppressReminders(group.after_hours_suppress_reminders ?? true);
+                setEditSuppressHandoffs(group.after_hours_suppress_handoffs ?? true);
+                setEditLeadSheetSync(group.lead_sheet_sync_enabled ?? false);
+                setEditLeadSheetId(group.lead_sheet_id || "");
+                setEditLeadSheetTab(group.lead_sheet_tab || "Leads");
+                setEditLeadSheetColumns(group.lead_sheet_columns ? formatSheetColumns(group.lead_sheet_columns) : "");
                 setIsNewPhone(false);
             }
         }
@@ -103,10 +302,42 @@ export default function FilesPage() {
         setEditIntent("");
         setEditAuthToken("");
         setEditOrigin("");
+        setEditProvider("11za");
+        setEditMetaPhoneNumberId("");
+        setEditTelegramToken("");
         setEditSystemPrompt("");
         setEditGeminiKey("");
         setEditGroqKey("");
         setEditMistralKey("");
+        setEditDebounceSeconds(5);
+        setEditWindowTemplateName("");
+        setEditWindowTemplateId("");
+        setEditWindowTemplateLanguage("en");
+        setEditWindowTemplateParams("");
+        setEditRateLimitPerMinute(600);
+        setEditRateLimitBurst(20);
+        setEditRecipientRateLimit("");
+        setEditVoiceReplies(false);
+        setEditTtsProvider("openai");
+        setEditTtsVoice("");
+        setEditSttProviders("mistral, google, openai");
+        setEditSttMinConfidence(0.6);
+        setEditHandoffNotifyNumber("");
+        setEditHandoffAutoResume("");
+        setEditHandoffTemplateName("");
+        setEditHandoffTemplateParams("");
+        setEditHoursEnabled(false);
+        setEditTimezone("Asia/Kolkata");
+        setEditWeeklyHours(DEFAULT_WEEKLY_HOURS);
+        setEditHolidays("");
+        setEditAwayMessage("");
+        setEditBotRepliesAfterHours(true);
+        setEditSuppressReminders(true);
+        setEditSuppressHandoffs(true);
+        setEditLeadSheetSync(false);
+        setEditLeadSheetId("");
+        setEditLeadSheetTab("Leads");
+        setEditLeadSheetColumns("");
         setSelectedFile(null);
         setIsNewPhone(true);
         setDevInfo(null);
@@ -166,8 +397,10 @@ export default function FilesPage() {
             return;
         }
 
-        if (!editAuthToken.trim() || !editOrigin.trim()) {
-            alert("Please provide both 11za Auth Token and Origin");
+        if (!hasProviderCredentials) {
+            alert(editProvider === "meta"
+                ? "Please provide both Meta Access Token and Phone Number ID"
+                : "Please provide both 11za Auth Token and Origin");
             return;
         }
 
@@ -176,6 +409,8 @@ export default function FilesPage() {
         form.append("phone_number", editPhoneNumber.trim());
         form.append("auth_token", editAuthToken.trim());
         form.append("origin", editOrigin.trim());
+        form.append("whatsapp_provider", editProvider);
+        form.append("meta_phone_number_id", editMetaPhoneNumberId.trim());
         form.append("gemini_api_key", editGeminiKey.trim());
         form.append("groq_api_key", editGroqKey.trim());
         form.append("mistral_api_key", editMistralKey.trim());
@@ -275,6 +510,20 @@ export default function FilesPage() {
             return;
         }
 
+        let windowTemplateParams: Record<string, string> = {};
+        let handoffTemplateParams: Record<string, string> = {};
+        try {
+            if (editWindowTemplateParams.trim()) {
+                windowTemplateParams = JSON.parse(editWindowTemplateParams);
+            }
+            if (editHandoffTemplateParams.trim()) {
+                handoffTemplateParams = JSON.parse(editHandoffTemplateParams);
+            }
+        } catch {
+            alert("Template parameters must be valid JSON");
+            return;
+        }
+
         setSavingSettings(true);
         try {
             const res = await fetch("/api/update-phone-settings", {
@@ -286,9 +535,40 @@ export default function FilesPage() {
                     system_prompt: editSystemPrompt.trim() || null,
                     auth_token: editAuthToken.trim() || null,
                     origin: editOrigin.trim() || null,
+                    whatsapp_provider: editProvider,
+                    meta_phone_number_id: editMetaPhoneNumberId.trim() || null,
+                    telegram_bot_token: editTelegramToken.trim() || null,
                     gemini_api_key: editGeminiKey.trim() || null,
                     groq_api_key: editGroqKey.trim() || null,
                     mistral_api_key: editMistralKey.trim() || null,
+                    reply_debounce_seconds: editDebounceSeconds,
+                    window_template_name: editWindowTemplateName || null,
+                    window_template_id: editWindowTemplateName ? null : editWindowTemplateId.trim() || null,
+                    window_template_language: editWindowTemplateLanguage.trim() || "en",
+                    window_template_params: windowTemplateParams,
+                    rate_limit_per_minute: editRateLimitPerMinute,
+                    rate_limit_burst: editRateLimitBurst,
+                    recipient_rate_limit_per_minute: editRecipientRateLimit ? Number(editRecipientRateLimit) : null,
+                    voice_replies_enabled: editVoiceReplies,
+                    tts_provider: editTtsProvider,
+                    tts_voice: editTtsVoice.trim() || null,
+                    stt_providers: editSttProviders.split(",").map((name) => name.trim().toLowerCase()).filter(Boolean),
+                    stt_min_confidence: editSttMinConfidence,
+                    handoff_notify_number: editHandoffNotifyNumber.trim() || null,
+                    handoff_auto_resume_minutes: editHandoffAutoResume ? Number(editHandoffAutoResume) : null,
+                    handoff_template_name: editHandoffTemplateName || null,
+                    handoff_template_params: handoffTemplateParams,
+                    business_timezone: editTimezone.trim() || "Asia/Kolkata",
+                    business_hours: editHoursEnabled ? parseWeeklyHours(editWeeklyHours) : null,
+                    business_holidays: parseHolidays(editHolidays),
+                    away_message: editAwayMessage.trim() || null,
+                    after_hours_bot_replies: editBotRepliesAfterHours,
+                    after_hours_suppress_reminders: editSuppressReminders,
+                    after_hours_suppress_handoffs: editSuppressHandoffs,
+                    lead_sheet_sync_enabled: editLeadSheetSync,
+                    lead_sheet_id: editLeadSheetId.trim() || null,
+                    lead_sheet_tab: editLeadSheetTab.trim() || "Leads",
+                    lead_sheet_columns: parseSheetColumns(editLeadSheetColumns),
                 }),
             });
 
@@ -310,6 +590,15 @@ export default function FilesPage() {
 
     const selectedGroup = phoneGroups.find(g => g.phone_number === selectedPhoneNumber);
 
+    const windowTemplate = registeredTemplates.find(t => t.name === editWindowTemplateName);
+    const handoffTemplate = registeredTemplates.find(t => t.name === editHandoffTemplateName);
+
+    const webhookUrl = `https://whatsapp-ai-chatbot-google-sheet-in.vercel.app/api/webhook/${editProvider === "meta" ? "meta" : "whatsapp"}`;
+
+    const hasProviderCredentials = editProvider === "meta"
+        ? !!editAuthToken.trim() && !!editMetaPhoneNumberId.trim()
+        : !!editAuthToken.trim() && !!editOrigin.trim();
+
     /* ================= UI ================= */
 
     return (
@@ -380,9 +669,10 @@ export default function FilesPage() {
                             </div>
 
                             <Tabs defaultValue="configuration" className="w-full">
-                                <TabsList className="grid w-full grid-cols-2">
+                                <TabsList className="grid w-full grid-cols-3">
                                     <TabsTrigger value="configuration">Configuration</TabsTrigger>
                                     <TabsTrigger value="files">Files</TabsTrigger>
+                                    <TabsTrigger value="monitoring">Monitoring</TabsTrigger>
                                 </TabsList>
 
                                 {/* CONFIGURATION TAB */}
@@ -449,37 +739,64 @@ export default function FilesPage() {
                                         </div>
                                     )}
 
-                                    {/* 11za Credentials */}
+                                    {/* WhatsApp Provider Credentials */}
                                     <div className="border-t pt-6">
-                                        <h3 className="text-lg font-semibold mb-4">11za Credentials</h3>
+                                        <h3 className="text-lg font-semibold mb-4">WhatsApp Provider</h3>
 
                                         <div className="space-y-4">
                                             <div>
-                                                <label className="block text-sm font-medium mb-2">
-                                                    Auth Token <span className="text-red-500">*</span>
-                                                </label>
-                                                <input
-                                                    type="text"
-                                                    value={editAuthToken}
-                                                    onChange={(e) => setEditAuthToken(e.target.value)}
-                                                    placeholder="Your 11za authentication token"
-                                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                                                />
+                                                <label className="block text-sm font-medium mb-2">Provider</label>
+                                                <select
+                                                    value={editProvider}
+                                                    onChange={(e) => setEditProvider(e.target.value as "11za" | "meta")}
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                                                >
+                                                    <option value="11za">11za</option>
+                                                    <option value="meta">Meta Cloud API</option>
+                                                </select>
                                             </div>
 
                                             <div>
                                                 <label className="block text-sm font-medium mb-2">
-                                                    Origin <span className="text-red-500">*</span>
+                                                    {editProvider === "meta" ? "Access Token" : "Auth Token"} <span className="text-red-500">*</span>
                                                 </label>
                                                 <input
                                                     type="text"
-                                                    value={editOrigin}
-                                                    onChange={(e) => setEditOrigin(e.target.value)}
-                                                    placeholder="https://example.com/"
+                                                    value={editAuthToken}
+                                                    onChange={(e) => setEditAuthToken(e.target.value)}
+                                                    placeholder={editProvider === "meta" ? "Your Meta Cloud API access token" : "Your 11za authentication token"}
                                                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                                                 />
                                             </div>
 
+                                            {editProvider === "meta" ? (
+                                                <div>
+                                                    <label className="block text-sm font-medium mb-2">
+                                                        Phone Number ID <span className="text-red-500">*</span>
+                                                    </label>
+                                                    <input
+                                                        type="text"
+                                                        value={editMetaPhoneNumberId}
+                                                        onChange={(e) => setEditMetaPhoneNumberId(e.target.value)}
+                                                        placeholder="From WhatsApp > API Setup in the Meta app dashboard"
+                                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                    />
+                                                </div>
+                                            ) : (
+                                                <div>
+                                                    <label className="block text-sm font-medium mb-2">
+                                                        Origin <span className="text-red-500">*</span>
+                                                    </label>
+                                                    <input
+                                                        type="text"
+                                                        value={editOrigin}
+                                                        onChange={(e) => setEditOrigin(e.target.value)}
+                                                        placeholder="https://example.com/"
+                                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                    />
+                                                </div>
+                                            )}
+
                                             {/* Custom API Keys */}
                                             <div className="pt-4 border-t">
                                                 <h4 className="text-sm font-semibold mb-3">Custom AI API Keys (Optional)</h4>
@@ -520,6 +837,408 @@ export default function FilesPage() {
                                                 </p>
                                             </div>
 
+                                            {/* Reply Behaviour */}
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-semibold mb-3">Reply Behaviour</h4>
+                                                <div>
+                                                    <label className="block text-sm font-medium mb-1">Message Burst Window (seconds)</label>
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        max={60}
+                                                        value={editDebounceSeconds}
+                                                        onChange={(e) => setEditDebounceSeconds(Number(e.target.value))}
+                                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                    />
+                                                </div>
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    Messages a customer sends within this window are merged and answered with a single reply.
+                                                </p>
+                                            </div>
+
+                                            {/* Outbound Rate Limit */}
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-semibold mb-3">Outbound Rate Limit</h4>
+                                                <div className="grid grid-cols-3 gap-3">
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Messages per Minute</label>
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            value={editRateLimitPerMinute}
+                                                            onChange={(e) => setEditRateLimitPerMinute(Number(e.target.value))}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Burst</label>
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            value={editRateLimitBurst}
+                                                            onChange={(e) => setEditRateLimitBurst(Number(e.target.value))}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Per Customer per Minute</label>
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            value={editRecipientRateLimit}
+                                                            onChange={(e) => setEditRecipientRateLimit(e.target.value)}
+                                                            placeholder="No limit"
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    Sends over the limit are delayed or queued, never dropped. Keep these below your provider&apos;s limits.
+                                                </p>
+                                            </div>
+
+                                            {/* Voice Replies */}
+                                            <div className="pt-4 border-t">
+                                                <div className="flex justify-between items-center mb-3">
+                                                    <h4 className="text-sm font-semibold">Voice Replies</h4>
+                                                    <Switch checked={editVoiceReplies} onCheckedChange={setEditVoiceReplies} />
+                                                </div>
+                                                {editVoiceReplies && (
+                                                    <div className="grid grid-cols-2 gap-3">
+                                                        <div>
+                                                            <label className="block text-sm font-medium mb-1">Speech Provider</label>
+                                                            <select
+                                                                value={editTtsProvider}
+                                                                onChange={(e) => setEditTtsProvider(e.target.value as "openai" | "google")}
+                                                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                            >
+                                                                <option value="openai">OpenAI</option>
+                                                                <option value="google">Google Cloud</option>
+                                                            </select>
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-sm font-medium mb-1">Voice</label>
+                                                            <input
+                                                                type="text"
+                                                                value={editTtsVoice}
+                                                                onChange={(e) => setEditTtsVoice(e.target.value)}
+                                                                placeholder={editTtsProvider === "openai" ? "alloy" : "e.g. hi-IN-Wavenet-A"}
+                                                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                )}
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    Customers who send a voice note get the answer as a voice note in their language. Long answers are still sent as text.
+                                                </p>
+                                            </div>
+
+                                            {/* Speech Recognition */}
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-semibold mb-3">Speech Recognition</h4>
+                                                <div className="grid grid-cols-2 gap-3">
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Provider Order</label>
+                                                        <input
+                                                            type="text"
+                                                            value={editSttProviders}
+                                                            onChange={(e) => setEditSttProviders(e.target.value)}
+                                                            placeholder="mistral, google, openai"
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Confirm Below Confidence</label>
+                                                        <input
+                                                            type="number"
+                                                            min={0}
+                                                            max={1}
+                                                            step={0.05}
+                                                            value={editSttMinConfidence}
+                                                            onChange={(e) => setEditSttMinConfidence(Number(e.target.value))}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    Voice notes are transcribed by the first provider that is confident enough. Below the threshold, the customer is asked to confirm what they said.
+                                                </p>
+                                            </div>
+
+                                            {/* Human Handoff */}
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-semibold mb-3">Human Handoff</h4>
+                                                <div className="grid grid-cols-2 gap-3">
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Notify Number</label>
+                                                        <input
+                                                            type="text"
+                                                            value={editHandoffNotifyNumber}
+                                                            onChange={(e) => setEditHandoffNotifyNumber(e.target.value)}
+                                                            placeholder="e.g. 919876543210"
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Resume Bot After (minutes)</label>
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            value={editHandoffAutoResume}
+                                                            onChange={(e) => setEditHandoffAutoResume(e.target.value)}
+                                                            placeholder="Never"
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <div className="grid grid-cols-2 gap-3 mt-3">
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Alert Template</label>
+                                                        <select
+                                                            value={editHandoffTemplateName}
+                                                            onChange={(e) => setEditHandoffTemplateName(e.target.value)}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        >
+                                                            <option value="">None (only within 24 hours)</option>
+                                                            {registeredTemplates.map((template) => (
+                                                                <option key={template.id} value={template.name}>
+                                                                    {template.name} ({template.language})
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        {handoffTemplate && handoffTemplate.parameters.length > 0 && (
+                                                            <p className="mt-1 text-xs text-gray-500">
+                                                                Parameters: {handoffTemplate.parameters.map(p => p.name).join(", ")}
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Alert Template Parameters (JSON)</label>
+                                                        <textarea
+                                                            value={editHandoffTemplateParams}
+                                                            onChange={(e) => setEditHandoffTemplateParams(e.target.value)}
+                                                            placeholder={'{"1": "{{customer_name}}", "2": "{{message}}"}'}
+                                                            rows={2}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    When a customer asks for a person or the assistant escalates, the bot pauses for that conversation and this WhatsApp number is told. Without agent activity, the bot takes over again after the set time.
+                                                    Outside the notify number&apos;s 24-hour window the alert is sent as the alert template, with <code>{"{{customer_name}}"}</code> as the customer&apos;s number and <code>{"{{message}}"}</code> as the alert.
+                                                </p>
+                                            </div>
+
+                                            {/* Business Hours */}
+                                            <div className="pt-4 border-t">
+                                                <div className="flex justify-between items-center mb-3">
+                                                    <h4 className="text-sm font-semibold">Business Hours</h4>
+                                                    <Switch checked={editHoursEnabled} onCheckedChange={setEditHoursEnabled} />
+                                                </div>
+                                                {editHoursEnabled && (
+                                                    <div className="space-y-3">
+                                                        <div>
+                                                            <label className="block text-sm font-medium mb-1">Timezone</label>
+                                                            <input
+                                                                type="text"
+                                                                value={editTimezone}
+                                                                onChange={(e) => setEditTimezone(e.target.value)}
+                                                                placeholder="Asia/Kolkata"
+                                                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                            />
+                                                        </div>
+                                                        <div className="grid grid-cols-2 gap-3">
+                                                            {WEEK.map(({ day, label }) => (
+                                                                <div key={day}>
+                                                                    <label className="block text-sm font-medium mb-1">{label}</label>
+                                                                    <input
+                                                                        type="text"
+                                                                        value={editWeeklyHours[day]}
+                                                                        onChange={(e) => setEditWeeklyHours({ ...editWeeklyHours, [day]: e.target.value })}
+                                                                        placeholder="Closed"
+                                                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                                    />
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-sm font-medium mb-1">Holidays</label>
+                                                            <textarea
+                                                                value={editHolidays}
+                                                                onChange={(e) => setEditHolidays(e.target.value)}
+                                                                placeholder={"2026-11-08 Diwali\n2027-01-26 Republic Day"}
+                                                                rows={3}
+                                                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-sm font-medium mb-1">Away Message</label>
+                                                            <textarea
+                                                                value={editAwayMessage}
+                                                                onChange={(e) => setEditAwayMessage(e.target.value)}
+                                                                placeholder="Thanks for your message! We're closed right now and will reply when we open."
+                                                                rows={2}
+                                                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                            />
+                                                        </div>
+                                                        <div className="space-y-2">
+                                                            <div className="flex justify-between items-center">
+                                                                <span className="text-sm">Bot keeps answering after hours</span>
+                                                                <Switch checked={editBotRepliesAfterHours} onCheckedChange={setEditBotRepliesAfterHours} />
+                                                            </div>
+                                                            <div className="flex justify-between items-center">
+                                                                <span className="text-sm">Hold reminders until opening</span>
+                                                                <Switch checked={editSuppressReminders} onCheckedChange={setEditSuppressReminders} />
+                                                            </div>
+                                                            <div className="flex justify-between items-center">
+                                                                <span className="text-sm">No human handoff after hours</span>
+                                                                <Switch checked={editSuppressHandoffs} onCheckedChange={setEditSuppressHandoffs} />
+                                                            </div>
+                                                        </div>
+                                                    </div>
+                                                )}
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    Hours like 09:00-13:00, 14:00-18:00; leave a day empty when closed. After hours the away message is sent once and the bot tells customers when you open.
+                                                </p>
+                                            </div>
+
+                                            {/* Lead Sheet Sync */}
+                                            <div className="pt-4 border-t">
+                                                <div className="flex justify-between items-center mb-3">
+                                                    <h4 className="text-sm font-semibold">Google Sheets Lead Sync</h4>
+                                                    <Switch checked={editLeadSheetSync} onCheckedChange={setEditLeadSheetSync} />
+                                                </div>
+                                                {editLeadSheetSync && (
+                                                    <div className="space-y-3">
+                                                        <div className="grid grid-cols-3 gap-3">
+                                                            <div className="col-span-2">
+                                                                <label className="block text-sm font-medium mb-1">Sheet URL or ID</label>
+                                                                <input
+                                                                    type="text"
+                                                                    value={editLeadSheetId}
+                                                                    onChange={(e) => setEditLeadSheetId(e.target.value)}
+                                                                    placeholder="https://docs.google.com/spreadsheets/d/..."
+                                                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                                />
+                                                            </div>
+                                                            <div>
+                                                                <label className="block text-sm font-medium mb-1">Tab</label>
+                                                                <input
+                                                                    type="text"
+                                                                    value={editLeadSheetTab}
+                                                                    onChange={(e) => setEditLeadSheetTab(e.target.value)}
+                                                                    placeholder="Leads"
+                                                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                                />
+                                                            </div>
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-sm font-medium mb-1">Columns</label>
+                                                            <textarea
+                                                                value={editLeadSheetColumns}
+                                                                onChange={(e) => setEditLeadSheetColumns(e.target.value)}
+                                                                placeholder={"Phone = contact_id\nName = contact_name\nBudget = field:budget\nSummary = summary\nReceived = created_at"}
+                                                                rows={5}
+                                                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                )}
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    Each captured lead is written to this sheet with an AI summary of the chat; leads that change update their row. Share the sheet with the service account as an editor. Leave columns empty for contact, name, every captured field, summary and timestamps. A <code>Lead ID</code> column is added unless you map <code>lead_id</code>; it is how each lead&apos;s row is found again, so keep it. Sources: <code>lead_id</code>, <code>contact_id</code>, <code>contact_name</code>, <code>summary</code>, <code>created_at</code>, <code>updated_at</code>, <code>synced_at</code>, <code>field:&lt;key&gt;</code>.
+                                                </p>
+                                            </div>
+
+                                            {/* 24-Hour Window */}
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-semibold mb-3">24-Hour Window Fallback</h4>
+                                                <div className="space-y-3">
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Template</label>
+                                                        <select
+                                                            value={editWindowTemplateName}
+                                                            onChange={(e) => setEditWindowTemplateName(e.target.value)}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        >
+                                                            <option value="">Enter a template ID instead</option>
+                                                            {registeredTemplates.map((template) => (
+                                                                <option key={template.id} value={template.name}>
+                                                                    {template.name} ({template.language})
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        {windowTemplate && windowTemplate.parameters.length > 0 && (
+                                                            <p className="mt-1 text-xs text-gray-500">
+                                                                Parameters: {windowTemplate.parameters.map(p => p.name).join(", ")}
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                    {!editWindowTemplateName && (
+                                                        <div className="grid grid-cols-3 gap-3">
+                                                            <div className="col-span-2">
+                                                                <label className="block text-sm font-medium mb-1">Approved Template ID</label>
+                                                                <input
+                                                                    type="text"
+                                                                    value={editWindowTemplateId}
+                                                                    onChange={(e) => setEditWindowTemplateId(e.target.value)}
+                                                                    placeholder="Leave empty to skip sends outside the window"
+                                                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                                />
+                                                            </div>
+                                                            <div>
+                                                                <label className="block text-sm font-medium mb-1">Language</label>
+                                                                <input
+                                                                    type="text"
+                                                                    value={editWindowTemplateLanguage}
+                                                                    onChange={(e) => setEditWindowTemplateLanguage(e.target.value)}
+                                                                    placeholder="en"
+                                                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                                />
+                                                            </div>
+                                                        </div>
+                                                    )}
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Template Parameters (JSON)</label>
+                                                        <textarea
+                                                            value={editWindowTemplateParams}
+                                                            onChange={(e) => setEditWindowTemplateParams(e.target.value)}
+                                                            placeholder={'{"1": "{{customer_name}}", "2": "{{message}}"}'}
+                                                            rows={3}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    WhatsApp only delivers free-form messages within 24 hours of the customer&apos;s last message. After that, reminders and other sends use this template. Variables: <code>{"{{message}}"}</code>, <code>{"{{customer_name}}"}</code>, <code>{"{{business_number}}"}</code>.
+                                                </p>
+                                            </div>
+
+                                            {/* Other Channels */}
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-semibold mb-3">Other Channels</h4>
+                                                <div className="space-y-3">
+                                                    <div>
+                                                        <label className="block text-sm font-medium mb-1">Telegram Bot Token</label>
+                                                        <input
+                                                            type="password"
+                                                            value={editTelegramToken}
+                                                            onChange={(e) => setEditTelegramToken(e.target.value)}
+                                                            placeholder="From @BotFather - leave empty to disable Telegram"
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                                        />
+                                                    </div>
+                                                    {selectedGroup?.telegram_bot_token && (
+                                                        <TelegramConnect phoneNumber={selectedGroup.phone_number} />
+                                                    )}
+                                                    <p className="text-xs text-gray-500">
+                                                        Web widget: POST messages to <code>/api/channels/web</code> with this number as <code>business_number</code> and poll the same URL for replies.
+                                                    </p>
+                                                </div>
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    All channels share this number&apos;s knowledge base, prompt and conversation history model. Reconnect Telegram after rotating the webhook secret.
+                                                </p>
+                                            </div>
+
                                             {/* Save Settings Button */}
                                             <button
                                                 onClick={savePhoneSettings}
@@ -535,23 +1254,84 @@ export default function FilesPage() {
                                             )}
                                         </div>
                                     </div>
+
+                                    {/* Message Templates */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Message Templates
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Approved WhatsApp templates this number owns. Sends outside the 24-hour window pick them by name.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <TemplateRegistry
+                                                phoneNumber={selectedPhoneNumber}
+                                                onTemplatesChange={setRegisteredTemplates}
+                                            />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Reply Rules */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Reply Rules
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Exact answers for common questions like the address, timings or menu. A matching message gets the rule&apos;s reply instead of an AI answer; the highest priority rule wins.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <ReplyRules phoneNumber={selectedPhoneNumber} templates={registeredTemplates} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Lead Capture Flow */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Lead Capture Flow
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Collect details like name, requirement and budget one question at a time. Other questions still get AI answers, and the customer is then asked again.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <LeadFlowEditor phoneNumber={selectedPhoneNumber} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
                                 </TabsContent>
 
                                 {/* FILES TAB */}
                                 <TabsContent value="files" className="space-y-6 mt-6">
                                     {/* Webhook Info */}
                                     <div className="border rounded-lg p-4 bg-blue-50 border-blue-200">
-                                        <h3 className="text-sm font-semibold text-blue-900 mb-2">11za Webhook Configuration</h3>
+                                        <h3 className="text-sm font-semibold text-blue-900 mb-2">
+                                            {editProvider === "meta" ? "Meta Cloud API" : "11za"} Webhook Configuration
+                                        </h3>
                                         <p className="text-xs text-blue-800 mb-2">
-                                            Configure this webhook URL in your 11za WhatsApp settings:
+                                            {editProvider === "meta"
+                                                ? "Configure this callback URL in your Meta app's WhatsApp webhook settings:"
+                                                : "Configure this webhook URL in your 11za WhatsApp settings:"}
                                         </p>
                                         <div className="flex items-center gap-2 bg-white p-2 rounded border border-blue-300">
                                             <code className="text-xs font-mono text-blue-900 flex-1">
-                                                https://whatsapp-ai-chatbot-google-sheet-in.vercel.app/api/webhook/whatsapp
+                                                {webhookUrl}
                                             </code>
                                             <button
                                                 onClick={() => {
-                                                    navigator.clipboard.writeText("https://whatsapp-ai-chatbot-google-sheet-in.vercel.app/api/webhook/whatsapp");
+                                                    navigator.clipboard.writeText(webhookUrl);
                                                     alert("Webhook URL copied to clipboard!");
                                                 }}
                                                 className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
@@ -559,6 +1339,20 @@ export default function FilesPage() {
                                                 Copy
                                             </button>
                                         </div>
+                                        {editProvider === "meta" ? (
+                                            <p className="text-xs text-blue-800 mt-3">
+                                                Use WHATSAPP_VERIFY_TOKEN as the verify token. Requests are authenticated with the app secret (META_APP_SECRET) and subscribe to the &quot;messages&quot; field.
+                                            </p>
+                                        ) : (
+                                            <>
+                                                <p className="text-xs text-blue-800 mt-3 mb-2">
+                                                    Requests must be signed with this number&apos;s webhook secret (x-webhook-signature, x-webhook-timestamp, x-webhook-nonce headers).
+                                                </p>
+                                                {selectedPhoneNumber && (
+                                                    <WebhookSecret phoneNumber={selectedPhoneNumber} />
+                                                )}
+                                            </>
+                                        )}
                                     </div>
 
                                     {/* Google Sheet Source Section */}
@@ -675,13 +1469,13 @@ export default function FilesPage() {
 
                                             <button
                                                 onClick={handleUpload}
-                                                disabled={uploading || !selectedFile || !editPhoneNumber.trim() || !editAuthToken.trim() || !editOrigin.trim()}
+                                                disabled={uploading || !selectedFile || !editPhoneNumber.trim() || !hasProviderCredentials}
                                                 className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium"
                                             >
                                                 {uploading ? "Processing..." : "Upload & Process File"}
                                             </button>
 
-                                            {(!editAuthToken.trim() || !editOrigin.trim()) && !isNewPhone && (
+                                            {!hasProviderCredentials && !isNewPhone && (
                                                 <p className="text-xs text-amber-600 text-center">
                                                     Please set credentials in the Configuration tab before uploading files
                                                 </p>
@@ -752,6 +1546,117 @@ export default function FilesPage() {
                                         </div>
                                     )}
                                 </TabsContent>
+
+                                {/* MONITORING TAB */}
+                                <TabsContent value="monitoring" className="space-y-6 mt-6">
+                                    {/* Failed Jobs Section */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Failed Webhook Jobs
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Incoming messages whose processing failed. Jobs are retried automatically with backoff and marked dead after the last attempt.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <FailedJobs phoneNumber={selectedPhoneNumber} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Undelivered Outbound Messages */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Undelivered Messages
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Replies and reminders the provider still rejected after automatic retries. Replay them once the problem is fixed.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <DeadLetters phoneNumber={selectedPhoneNumber} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Captured Leads */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Captured Leads
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Customers who finished the lead capture flow, with their answers.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <CapturedLeads phoneNumber={selectedPhoneNumber} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Lead Sheet Sync Log */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Sheet Sync Log
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Every attempt to write a lead to Google Sheets. Failed syncs are retried automatically with backoff.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <LeadSyncLog phoneNumber={selectedPhoneNumber} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Human Handoff */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Paused Conversations
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            The bot doesn&apos;t answer these customers while a person handles the conversation. Resume the bot when you&apos;re done.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <PausedConversations phoneNumber={selectedPhoneNumber} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Consent Registry */}
+                                    <div className="border rounded-lg p-6 bg-white">
+                                        <h3 className="text-lg font-semibold mb-2">
+                                            Opted-out Contacts
+                                        </h3>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            Customers who replied STOP (or were opted out here) receive no replies, reminders or other messages until they send START.
+                                        </p>
+
+                                        {selectedPhoneNumber ? (
+                                            <ConsentRegistry phoneNumber={selectedPhoneNumber} />
+                                        ) : (
+                                            <p className="text-sm text-gray-500">
+                                                Select a phone number first
+                                            </p>
+                                        )}
+                                    </div>
+                                </TabsContent>
                             </Tabs>
                         </>
                     ) : (
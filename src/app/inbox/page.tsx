@@ -0,0 +1,410 @@
+"use client";
+
+import { KeyboardEvent, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/lib/supabaseClient";
+
+/* ================= TYPES ================= */
+
+type PhoneGroup = {
+    phone_number: string;
+    intent: string | null;
+};
+
+type InboxMessage = {
+    message_id: string;
+    from_number: string;
+    to_number: string;
+    event_type: "MoMessage" | "MtMessage";
+    channel: string | null;
+    content_type: string | null;
+    content_text: string | null;
+    sender_name: string | null;
+    received_at: string;
+    delivery_status: string | null;
+};
+
+type Conversation = {
+    contact_id: string;
+    channel: string | null;
+    contact_name: string | null;
+    last_message: InboxMessage;
+    unread_count: number;
+    status: "bot" | "agent";
+    assigned_agent: string | null;
+};
+
+/* ================= HELPERS ================= */
+
+function messagePreview(message: InboxMessage): string {
+    if (message.content_text) return message.content_text;
+    return message.content_type ? `[${message.content_type}]` : "";
+}
+
+function formatTime(value: string): string {
+    const date = new Date(value);
+    return date.toDateString() === new Date().toDateString()
+        ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+        : date.toLocaleDateString();
+}
+
+/* ================= COMPONENT ================= */
+
+export default function InboxPage() {
+    const [phoneGroups, setPhoneGroups] = useState<PhoneGroup[]>([]);
+    const [phoneNumber, setPhoneNumber] = useState("");
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [selectedContact, setSelectedContact] = useState<string | null>(null);
+    const [messages, setMessages] = useState<InboxMessage[]>([]);
+    const [reply, setReply] = useState("");
+    const [agentName, setAgentName] = useState("");
+    const [sending, setSending] = useState(false);
+    const [togglingBot, setTogglingBot] = useState(false);
+    const bottomRef = useRef<HTMLDivElement | null>(null);
+
+    const selected = conversations.find((c) => c.contact_id === selectedContact) || null;
+
+    // Business numbers and the agent's name (remembered in this browser)
+    useEffect(() => {
+        setAgentName(localStorage.getItem("inbox_agent_name") || "");
+
+        async function loadPhoneGroups() {
+            try {
+                const res = await fetch("/api/phone-groups");
+                const data = await res.json();
+                if (data.success) {
+                    const groups: PhoneGroup[] = data.groups || [];
+                    setPhoneGroups(groups);
+                    if (groups.length > 0) {
+                        setPhoneNumber((current) => current || groups[0].phone_number);
+                    }
+                }
+            } catch (err) {
+                console.error("Error loading phone groups:", err);
+            }
+        }
+
+        void loadPhoneGroups();
+    }, []);
+
+    const loadConversations = useCallback(async () => {
+        if (!phoneNumber) return;
+
+        try {
+            const res = await fetch(`/api/inbox?phone_number=${encodeURIComponent(phoneNumber)}`);
+            const data = await res.json();
+            if (data.success) {
+                setConversations(data.conversations || []);
+            }
+        } catch (err) {
+            console.error("Error loading conversations:", err);
+        }
+    }, [phoneNumber]);
+
+    const loadMessages = useCallback(async () => {
+        if (!phoneNumber || !selectedContact) return;
+
+        try {
+            const res = await fetch(
+                `/api/inbox/messages?phone_number=${encodeURIComponent(phoneNumber)}&contact_id=${encodeURIComponent(selectedContact)}`
+            );
+            const data = await res.json();
+            if (data.success) {
+                setMessages(data.messages || []);
+            }
+        } catch (err) {
+            console.error("Error loading conversation:", err);
+        }
+    }, [phoneNumber, selectedContact]);
+
+    const markRead = useCallback(async () => {
+        if (!phoneNumber || !selectedContact) return;
+
+        await fetch("/api/inbox", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ phone_number: phoneNumber, contact_id: selectedContact }),
+        });
+        setConversations((prev) =>
+            prev.map((c) => (c.contact_id === selectedContact ? { ...c, unread_count: 0 } : c))
+        );
+    }, [phoneNumber, selectedContact]);
+
+    useEffect(() => {
+        setSelectedContact(null);
+        setMessages([]);
+        void loadConversations();
+    }, [loadConversations]);
+
+    useEffect(() => {
+        void loadMessages();
+        void markRead();
+    }, [loadMessages, markRead]);
+
+    // New and updated messages (incl. delivery receipts) arrive over Supabase Realtime
+    useEffect(() => {
+        if (!phoneNumber) return;
+
+        const handleChange = (row: InboxMessage) => {
+            if (!row.message_id) return;
+            void loadConversations();
+
+            if (!selectedContact) return;
+            const contactId = row.event_type === "MoMessage" ? row.from_number : row.to_number;
+            if (contactId !== selectedContact) return;
+
+            setMessages((prev) => {
+                const index = prev.findIndex((m) => m.message_id === row.message_id);
+                if (index === -1) return [...prev, row];
+                const updated = [...prev];
+                updated[index] = { ...updated[index], ...row };
+                return updated;
+            });
+            if (row.event_type === "MoMessage") {
+                void markRead();
+            }
+        };
+
+        const channel = supabase
+            .channel(`inbox:${phoneNumber}`)
+            .on(
+                "postgres_changes",
+                { event: "*", schema: "public", table: "whatsapp_messages", filter: `to_number=eq.${phoneNumber}` },
+                (payload) => handleChange(payload.new as InboxMessage)
+            )
+            .on(
+                "postgres_changes",
+                { event: "*", schema: "public", table: "whatsapp_messages", filter: `from_number=eq.${phoneNumber}` },
+                (payload) => handleChange(payload.new as InboxMessage)
+            )
+            .subscribe();
+
+        return () => {
+            void supabase.removeChannel(channel);
+        };
+    }, [phoneNumber, selectedContact, loadConversations, markRead]);
+
+    // Auto-scroll to bottom on new messages
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, [messages]);
+
+    async function sendReply() {
+        if (!reply.trim() || !selectedContact || sending) return;
+
+        setSending(true);
+        try {
+            const res = await fetch("/api/inbox/messages", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    phone_number: phoneNumber,
+                    contact_id: selectedContact,
+                    text: reply.trim(),
+                    agent_name: agentName.trim() || undefined,
+                }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                throw new Error(data.error || "Failed to send reply");
+            }
+            if (data.template) {
+                alert("ℹ️ The customer's 24-hour window is closed, so the fallback template was sent instead.");
+            }
+
+            setReply("");
+            await Promise.all([loadMessages(), loadConversations()]);
+        } catch (err) {
+            alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+        } finally {
+            setSending(false);
+        }
+    }
+
+    async function toggleBot() {
+        if (!selected) return;
+
+        setTogglingBot(true);
+        try {
+            const res = await fetch("/api/handoffs", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    phone_number: phoneNumber,
+                    contact_id: selected.contact_id,
+                    action: selected.status === "agent" ? "resume" : "pause",
+                    assigned_agent: agentName.trim() || undefined,
+                }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                throw new Error(data.error || "Failed to update conversation");
+            }
+
+            await loadConversations();
+        } catch (err) {
+            alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+        } finally {
+            setTogglingBot(false);
+        }
+    }
+
+    function handleKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+        if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            void sendReply();
+        }
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-50">
+            {/* Header */}
+            <header className="border-b bg-white">
+                <div className="max-w-7xl mx-auto px-6 py-4 flex justify-between items-center gap-4">
+                    <div className="flex items-center gap-4">
+                        <Link href="/" className="text-xl font-bold tracking-tight">
+                            Inbox
+                        </Link>
+                        <select
+                            value={phoneNumber}
+                            onChange={(e) => setPhoneNumber(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        >
+                            {phoneGroups.map((group) => (
+                                <option key={group.phone_number} value={group.phone_number}>
+                                    {group.phone_number}{group.intent ? ` – ${group.intent}` : ""}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <input
+                        type="text"
+                        value={agentName}
+                        onChange={(e) => {
+                            setAgentName(e.target.value);
+                            localStorage.setItem("inbox_agent_name", e.target.value);
+                        }}
+                        placeholder="Your name"
+                        className="w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                </div>
+            </header>
+
+            <div className="max-w-7xl mx-auto px-6 py-6 grid grid-cols-3 gap-6 h-[calc(100vh-5rem)]">
+                {/* Conversation list */}
+                <div className="col-span-1 border rounded-lg bg-white overflow-y-auto">
+                    {conversations.length === 0 && (
+                        <p className="p-4 text-sm text-gray-500">No conversations yet</p>
+                    )}
+                    {conversations.map((conversation) => (
+                        <button
+                            key={conversation.contact_id}
+                            onClick={() => setSelectedContact(conversation.contact_id)}
+                            className={`w-full text-left p-4 border-b hover:bg-gray-50 ${
+                                conversation.contact_id === selectedContact ? "bg-blue-50" : ""
+                            }`}
+                        >
+                            <div className="flex justify-between items-center gap-2">
+                                <span className="font-medium text-sm truncate">
+                                    {conversation.contact_name || conversation.contact_id}
+                                </span>
+                                <span className="text-xs text-gray-500 shrink-0">
+                                    {formatTime(conversation.last_message.received_at)}
+                                </span>
+                            </div>
+                            <div className="flex justify-between items-center gap-2 mt-1">
+                                <span className="text-sm text-gray-600 truncate">
+                                    {conversation.last_message.event_type === "MtMessage" && "↪ "}
+                                    {messagePreview(conversation.last_message)}
+                                </span>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <span
+                                        className={`text-xs px-2 py-0.5 rounded ${
+                                            conversation.status === "agent"
+                                                ? "bg-orange-100 text-orange-700"
+                                                : "bg-gray-100 text-gray-700"
+                                        }`}
+                                    >
+                                        {conversation.status === "agent" ? conversation.assigned_agent || "Agent" : "Bot"}
+                                    </span>
+                                    {conversation.unread_count > 0 && (
+                                        <span className="text-xs px-2 py-0.5 rounded-full bg-green-600 text-white">
+                                            {conversation.unread_count}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                {/* Thread */}
+                <div className="col-span-2 border rounded-lg bg-white flex flex-col min-h-0">
+                    {!selected ? (
+                        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                            Select a conversation
+                        </div>
+                    ) : (
+                        <>
+                            <div className="p-4 border-b flex justify-between items-center">
+                                <div>
+                                    <h2 className="font-semibold">{selected.contact_name || selected.contact_id}</h2>
+                                    <p className="text-xs text-gray-500">
+                                        {selected.contact_id} • {selected.channel || "whatsapp"} •{" "}
+                                        {selected.status === "agent" ? "bot paused" : "bot answering"}
+                                    </p>
+                                </div>
+                                <Button variant="outline" size="sm" onClick={() => void toggleBot()} disabled={togglingBot}>
+                                    {selected.status === "agent" ? "Resume bot" : "Take over"}
+                                </Button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-gray-50">
+                                {messages.map((message) => {
+                                    const outbound = message.event_type === "MtMessage";
+                                    return (
+                                        <div key={message.message_id} className={`flex ${outbound ? "justify-end" : "justify-start"}`}>
+                                            <div
+                                                className={`max-w-[70%] rounded-lg px-3 py-2 text-sm ${
+                                                    outbound ? "bg-green-100" : "bg-white border"
+                                                }`}
+                                            >
+                                                {outbound && (
+                                                    <p className="text-xs font-semibold text-gray-600 mb-1">
+                                                        {message.sender_name || "AI Assistant"}
+                                                    </p>
+                                                )}
+                                                <p className="whitespace-pre-wrap text-gray-800">{messagePreview(message)}</p>
+                                                <p className="text-xs text-gray-500 mt-1 text-right">
+                                                    {formatTime(message.received_at)}
+                                                    {outbound && message.delivery_status && ` • ${message.delivery_status}`}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                                <div ref={bottomRef} />
+                            </div>
+
+                            <div className="p-4 border-t flex gap-2">
+                                <Input
+                                    value={reply}
+                                    onChange={(e) => setReply(e.target.value)}
+                                    onKeyDown={handleKeyDown}
+                                    placeholder={selected.status === "agent" ? "Type your reply..." : "Replying pauses the bot for this conversation..."}
+                                />
+                                <Button onClick={() => void sendReply()} disabled={sending || !reply.trim()}>
+                                    {sending ? "Sending..." : "Send"}
+                                </Button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </main>
+    );
+}
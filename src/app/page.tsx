@@ -52,6 +52,13 @@ export default function HomePage() {
                     button="Sync"
                 />
 
+                <DashboardCard
+                    title="Inbox"
+                    desc="Read and answer customer conversations live"
+                    href="/inbox"
+                    button="Open Inbox"
+                />
+
                 <DashboardCard
                     title="Live Chat"
                     desc="Test chatbot responses instantly"
@@ -0,0 +1,116 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+type Lead = {
+  id: string;
+  contact_id: string;
+  contact_name: string | null;
+  fields: Record<string, string>;
+  created_at: string;
+  sheet_row: number | null;
+  sheet_synced_at: string | null;
+};
+
+export function CapturedLeads({ phoneNumber }: Props) {
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadLeads = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/leads?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setLeads(data.leads || []);
+      }
+    } catch (err) {
+      console.error("Error loading leads:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadLeads();
+  }, [loadLeads]);
+
+  async function handleSync(lead: Lead) {
+    setBusyId(lead.id);
+    try {
+      const res = await fetch("/api/leads/sync", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ lead_id: lead.id }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to queue sync");
+      }
+
+      alert("✅ Queued for Google Sheets");
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${leads.length} lead(s)`}
+        </p>
+        <button
+          onClick={() => void loadLeads()}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {leads.map((lead) => (
+        <div key={lead.id} className="p-4 border rounded-lg bg-white">
+          <div className="flex justify-between items-start gap-4">
+            <span className="font-medium text-sm">
+              {lead.contact_name ? `${lead.contact_name} (${lead.contact_id})` : lead.contact_id}
+            </span>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500">{new Date(lead.created_at).toLocaleString()}</span>
+              <button
+                onClick={() => void handleSync(lead)}
+                disabled={busyId === lead.id}
+                className="px-2 py-1 text-xs border rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                {busyId === lead.id ? "Queuing..." : "Sync to sheet"}
+              </button>
+            </div>
+          </div>
+          <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+            {Object.entries(lead.fields).map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="text-gray-500 font-mono text-xs pt-0.5">{key}</dt>
+                <dd className="text-gray-800 break-words">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          {lead.sheet_synced_at && (
+            <p className="text-xs text-gray-500 mt-2">
+              Sheet row {lead.sheet_row} • synced {new Date(lead.sheet_synced_at).toLocaleString()}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+type OptedOutContact = {
+  id: string;
+  contact_id: string;
+  source: string;
+  keyword: string | null;
+  updated_at: string;
+};
+
+export function ConsentRegistry({ phoneNumber }: Props) {
+  const [contacts, setContacts] = useState<OptedOutContact[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [newContact, setNewContact] = useState("");
+
+  const loadContacts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/consent?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setContacts(data.contacts || []);
+      }
+    } catch (err) {
+      console.error("Error loading opted-out contacts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadContacts();
+  }, [loadContacts]);
+
+  async function updateConsent(contactId: string, status: "opted_out" | "opted_in") {
+    const res = await fetch("/api/consent", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ phone_number: phoneNumber, contact_id: contactId, status }),
+    });
+
+    const data = await res.json();
+
+    if (!res.ok) {
+      throw new Error(data.error || "Failed to update consent");
+    }
+  }
+
+  async function handleOptOut() {
+    if (!newContact.trim()) return;
+
+    setBusyId("new");
+    try {
+      await updateConsent(newContact.trim(), "opted_out");
+      setNewContact("");
+      await loadContacts();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleOptIn(contact: OptedOutContact) {
+    if (!confirm(`Only continue if ${contact.contact_id} asked to receive messages again. Opt them back in?`)) return;
+
+    setBusyId(contact.id);
+    try {
+      await updateConsent(contact.contact_id, "opted_in");
+      await loadContacts();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${contacts.length} opted-out contact(s)`}
+        </p>
+        <button
+          onClick={() => void loadContacts()}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newContact}
+          onChange={(e) => setNewContact(e.target.value)}
+          placeholder="Contact number, e.g. 919876543210"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        />
+        <button
+          onClick={() => void handleOptOut()}
+          disabled={busyId === "new" || !newContact.trim()}
+          className="px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded hover:bg-red-50 disabled:opacity-50"
+        >
+          Opt out
+        </button>
+      </div>
+
+      {contacts.map((contact) => (
+        <div key={contact.id} className="p-4 border rounded-lg bg-white">
+          <div className="flex justify-between items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{contact.contact_id}</span>
+                <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                  {contact.source}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Opted out {new Date(contact.updated_at).toLocaleString()}
+                {contact.keyword && ` • "${contact.keyword}"`}
+              </p>
+            </div>
+            <button
+              onClick={() => void handleOptIn(contact)}
+              disabled={busyId === contact.id}
+              className="px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50"
+            >
+              {busyId === contact.id ? "Working..." : "Opt back in"}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
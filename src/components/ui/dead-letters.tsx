@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+type DeadLetter = {
+  id: string;
+  contact_id: string;
+  channel: string | null;
+  source: string | null;
+  message: { text: string };
+  error: string | null;
+  status_code: number | null;
+  attempts: number;
+  created_at: string;
+};
+
+export function DeadLetters({ phoneNumber }: Props) {
+  const [letters, setLetters] = useState<DeadLetter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadLetters = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/outbound-dead-letters?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setLetters(data.deadLetters || []);
+      }
+    } catch (err) {
+      console.error("Error loading dead letters:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadLetters();
+  }, [loadLetters]);
+
+  async function handleReplay(id: string) {
+    setBusyId(id);
+    try {
+      const res = await fetch("/api/outbound-dead-letters", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to replay message");
+      }
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setBusyId(null);
+      await loadLetters();
+    }
+  }
+
+  async function handleDiscard(id: string) {
+    if (!confirm("Discard this message? It will not be sent.")) return;
+
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/outbound-dead-letters?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to discard message");
+      }
+
+      await loadLetters();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${letters.length} undelivered message(s)`}
+        </p>
+        <button
+          onClick={() => void loadLetters()}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {letters.map((letter) => (
+        <div key={letter.id} className="p-4 border rounded-lg bg-white">
+          <div className="flex justify-between items-start gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{letter.contact_id}</span>
+                {letter.source && (
+                  <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                    {letter.source}
+                  </span>
+                )}
+                {letter.channel && <span className="text-xs text-gray-500">{letter.channel}</span>}
+              </div>
+              <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap break-words">
+                {letter.message?.text}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Attempts {letter.attempts} • Failed {new Date(letter.created_at).toLocaleString()}
+                {letter.status_code && ` • HTTP ${letter.status_code}`}
+              </p>
+              {letter.error && (
+                <p className="text-xs text-red-600 mt-1 break-words">{letter.error}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => void handleReplay(letter.id)}
+                disabled={busyId === letter.id}
+                className="px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50"
+              >
+                {busyId === letter.id ? "Working..." : "Replay"}
+              </button>
+              <button
+                onClick={() => void handleDiscard(letter.id)}
+                disabled={busyId === letter.id}
+                className="px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded hover:bg-red-50 disabled:opacity-50"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+type FailedJob = {
+  id: string;
+  job_type: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error: string | null;
+  created_at: string;
+};
+
+export function FailedJobs({ phoneNumber }: Props) {
+  const [jobs, setJobs] = useState<FailedJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/jobs?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setJobs(data.jobs || []);
+      }
+    } catch (err) {
+      console.error("Error loading failed jobs:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadJobs();
+  }, [loadJobs]);
+
+  async function handleRetry(id: string) {
+    setRetryingId(id);
+    try {
+      const res = await fetch("/api/jobs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to retry job");
+      }
+
+      await loadJobs();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setRetryingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${jobs.length} failed job(s)`}
+        </p>
+        <button
+          onClick={() => void loadJobs()}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {jobs.map((job) => (
+        <div key={job.id} className="p-4 border rounded-lg bg-white">
+          <div className="flex justify-between items-start gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{job.job_type}</span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded ${
+                    job.status === "dead"
+                      ? "bg-red-100 text-red-800"
+                      : "bg-amber-100 text-amber-800"
+                  }`}
+                >
+                  {job.status === "dead" ? "dead" : "retrying"}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Attempts {job.attempts}/{job.max_attempts} • Created {new Date(job.created_at).toLocaleString()}
+                {job.status !== "dead" && ` • Next try ${new Date(job.run_at).toLocaleString()}`}
+              </p>
+              {job.last_error && (
+                <p className="text-xs text-red-600 mt-1 break-words">{job.last_error}</p>
+              )}
+            </div>
+            <button
+              onClick={() => handleRetry(job.id)}
+              disabled={retryingId === job.id}
+              className="px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50"
+            >
+              {retryingId === job.id ? "Retrying..." : "Retry now"}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
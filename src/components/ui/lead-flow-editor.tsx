@@ -0,0 +1,299 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Switch } from "@/components/ui/switch";
+
+type Props = {
+  phoneNumber: string;
+};
+
+type SlotType = "text" | "email" | "phone" | "date" | "number" | "choice";
+
+type SlotForm = {
+  key: string;
+  question: string;
+  type: SlotType;
+  required: boolean;
+  // Comma-separated in the editor
+  options: string;
+};
+
+const SLOT_TYPES: Array<{ value: SlotType; label: string }> = [
+  { value: "text", label: "Text" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone" },
+  { value: "date", label: "Date" },
+  { value: "number", label: "Number" },
+  { value: "choice", label: "Choice" },
+];
+
+const DEFAULT_SLOTS: SlotForm[] = [
+  { key: "name", question: "May I have your name?", type: "text", required: true, options: "" },
+  { key: "requirement", question: "What are you looking for?", type: "text", required: true, options: "" },
+  { key: "budget", question: "What's your budget?", type: "number", required: false, options: "" },
+];
+
+export function LeadFlowEditor({ phoneNumber }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [exists, setExists] = useState(false);
+  const [enabled, setEnabled] = useState(true);
+  const [trigger, setTrigger] = useState<"first_message" | "keywords">("first_message");
+  const [triggerKeywords, setTriggerKeywords] = useState("");
+  const [introMessage, setIntroMessage] = useState("");
+  const [completionMessage, setCompletionMessage] = useState("");
+  const [slots, setSlots] = useState<SlotForm[]>(DEFAULT_SLOTS);
+
+  const loadFlow = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/lead-flows?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      const flow = data.success ? data.flow : null;
+
+      setExists(!!flow);
+      setEnabled(flow?.enabled ?? true);
+      setTrigger(flow?.trigger || "first_message");
+      setTriggerKeywords((flow?.trigger_keywords || []).join(", "));
+      setIntroMessage(flow?.intro_message || "");
+      setCompletionMessage(flow?.completion_message || "");
+      setSlots(
+        flow?.slots?.length
+          ? flow.slots.map((slot: Omit<SlotForm, "options" | "required"> & { required?: boolean; options?: string[] }) => ({
+              key: slot.key,
+              question: slot.question,
+              type: slot.type,
+              required: slot.required !== false,
+              options: (slot.options || []).join(", "),
+            }))
+          : DEFAULT_SLOTS
+      );
+    } catch (err) {
+      console.error("Error loading lead flow:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadFlow();
+  }, [loadFlow]);
+
+  function updateSlot(index: number, changes: Partial<SlotForm>) {
+    setSlots(slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  }
+
+  function moveSlot(index: number, direction: -1 | 1) {
+    const target = index + direction;
+    if (target < 0 || target >= slots.length) return;
+
+    const next = [...slots];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSlots(next);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/lead-flows", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          phone_number: phoneNumber,
+          enabled,
+          trigger,
+          trigger_keywords: triggerKeywords.split(","),
+          intro_message: introMessage,
+          completion_message: completionMessage,
+          slots: slots.map((slot) => ({
+            key: slot.key,
+            question: slot.question,
+            type: slot.type,
+            required: slot.required,
+            options: slot.type === "choice" ? slot.options.split(",") : undefined,
+          })),
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save flow");
+      }
+
+      setExists(true);
+      alert("✅ Lead flow saved");
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+  if (loading) {
+    return <p className="text-sm text-gray-600">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm font-medium">Run the flow</label>
+          <p className="text-xs text-gray-500">
+            {exists ? "Questions are asked one at a time, in the customer's language" : "Not set up yet"}
+          </p>
+        </div>
+        <Switch checked={enabled} onCheckedChange={setEnabled} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">Start</label>
+          <select
+            value={trigger}
+            onChange={(e) => setTrigger(e.target.value as "first_message" | "keywords")}
+            className={inputClass}
+          >
+            <option value="first_message">On a new contact&apos;s first message</option>
+            <option value="keywords">When a message contains a keyword</option>
+          </select>
+        </div>
+        {trigger === "keywords" && (
+          <div>
+            <label className="block text-sm font-medium mb-1">Keywords (comma-separated)</label>
+            <input
+              type="text"
+              value={triggerKeywords}
+              onChange={(e) => setTriggerKeywords(e.target.value)}
+              placeholder="quote, price, enquiry"
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Intro (optional)</label>
+        <input
+          type="text"
+          value={introMessage}
+          onChange={(e) => setIntroMessage(e.target.value)}
+          placeholder="To help you better, I'll ask a couple of quick questions."
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Questions</label>
+        {slots.map((slot, index) => (
+          <div key={index} className="p-3 border rounded-lg bg-gray-50 space-y-2">
+            <div className="grid grid-cols-4 gap-2">
+              <input
+                type="text"
+                value={slot.key}
+                onChange={(e) => updateSlot(index, { key: e.target.value })}
+                placeholder="field, e.g. budget"
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="text"
+                value={slot.question}
+                onChange={(e) => updateSlot(index, { question: e.target.value })}
+                placeholder="Question to ask"
+                className={`${inputClass} col-span-2`}
+              />
+              <select
+                value={slot.type}
+                onChange={(e) => updateSlot(index, { type: e.target.value as SlotType })}
+                className={inputClass}
+              >
+                {SLOT_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {slot.type === "choice" && (
+              <input
+                type="text"
+                value={slot.options}
+                onChange={(e) => updateSlot(index, { options: e.target.value })}
+                placeholder="Options, comma-separated (up to 10)"
+                className={inputClass}
+              />
+            )}
+            <div className="flex justify-between items-center">
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={slot.required}
+                  onChange={(e) => updateSlot(index, { required: e.target.checked })}
+                />
+                Required
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => moveSlot(index, -1)}
+                  disabled={index === 0}
+                  className="px-2 py-1 text-xs border rounded hover:bg-white disabled:opacity-50"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveSlot(index, 1)}
+                  disabled={index === slots.length - 1}
+                  className="px-2 py-1 text-xs border rounded hover:bg-white disabled:opacity-50"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => setSlots(slots.filter((_, i) => i !== index))}
+                  disabled={slots.length === 1}
+                  className="px-2 py-1 text-xs text-red-600 border border-red-300 rounded hover:bg-red-50 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => setSlots([...slots, { key: "", question: "", type: "text", required: true, options: "" }])}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Add question
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Completion message (optional)</label>
+        <textarea
+          value={completionMessage}
+          onChange={(e) => setCompletionMessage(e.target.value)}
+          placeholder="Thanks {{name}}! Our team will call you shortly."
+          rows={2}
+          className={inputClass}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {"{{field}}"} inserts a captured answer
+        </p>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => void handleSave()}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save flow"}
+        </button>
+      </div>
+    </div>
+  );
+}
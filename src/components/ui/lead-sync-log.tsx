@@ -0,0 +1,81 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+type SyncLogEntry = {
+  id: string;
+  lead_id: string | null;
+  action: "append" | "update";
+  status: "success" | "failed";
+  attempt: number;
+  sheet_tab: string | null;
+  sheet_row: number | null;
+  error: string | null;
+  created_at: string;
+};
+
+export function LeadSyncLog({ phoneNumber }: Props) {
+  const [entries, setEntries] = useState<SyncLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadLog = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/leads/sync?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setEntries(data.log || []);
+      }
+    } catch (err) {
+      console.error("Error loading sheet sync log:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadLog();
+  }, [loadLog]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${entries.length} recent attempt(s)`}
+        </p>
+        <button
+          onClick={() => void loadLog()}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {entries.map((entry) => (
+        <div key={entry.id} className="p-3 border rounded-lg bg-white">
+          <div className="flex items-center gap-2">
+            <span
+              className={`text-xs px-2 py-0.5 rounded ${
+                entry.status === "success" ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+              }`}
+            >
+              {entry.status}
+            </span>
+            <span className="text-sm">
+              {entry.action === "append" ? "Added" : "Updated"}
+              {entry.sheet_row && ` row ${entry.sheet_row}`}
+              {entry.sheet_tab && ` in ${entry.sheet_tab}`}
+            </span>
+            <span className="text-xs text-gray-500">attempt {entry.attempt}</span>
+            <span className="text-xs text-gray-500 ml-auto">{new Date(entry.created_at).toLocaleString()}</span>
+          </div>
+          {entry.error && <p className="text-xs text-red-600 mt-1 break-words">{entry.error}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+type Handoff = {
+  id: string;
+  contact_id: string;
+  reason: string;
+  assigned_agent: string | null;
+  note: string | null;
+  paused_at: string;
+  owner_notify_error: string | null;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  keyword: "asked for a person",
+  llm: "flagged by assistant",
+  dashboard: "paused manually",
+};
+
+export function PausedConversations({ phoneNumber }: Props) {
+  const [handoffs, setHandoffs] = useState<Handoff[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [newContact, setNewContact] = useState("");
+
+  const loadHandoffs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/handoffs?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setHandoffs(data.handoffs || []);
+      }
+    } catch (err) {
+      console.error("Error loading paused conversations:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadHandoffs();
+  }, [loadHandoffs]);
+
+  async function updateHandoff(contactId: string, action: "pause" | "resume") {
+    const res = await fetch("/api/handoffs", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ phone_number: phoneNumber, contact_id: contactId, action }),
+    });
+
+    const data = await res.json();
+
+    if (!res.ok) {
+      throw new Error(data.error || "Failed to update conversation");
+    }
+  }
+
+  async function handlePause() {
+    if (!newContact.trim()) return;
+
+    setBusyId("new");
+    try {
+      await updateHandoff(newContact.trim(), "pause");
+      setNewContact("");
+      await loadHandoffs();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleResume(handoff: Handoff) {
+    setBusyId(handoff.id);
+    try {
+      await updateHandoff(handoff.contact_id, "resume");
+      await loadHandoffs();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${handoffs.length} conversation(s) with a person`}
+        </p>
+        <button
+          onClick={() => void loadHandoffs()}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newContact}
+          onChange={(e) => setNewContact(e.target.value)}
+          placeholder="Contact number, e.g. 919876543210"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        />
+        <button
+          onClick={() => void handlePause()}
+          disabled={busyId === "new" || !newContact.trim()}
+          className="px-3 py-1.5 text-sm text-orange-600 border border-orange-300 rounded hover:bg-orange-50 disabled:opacity-50"
+        >
+          Pause bot
+        </button>
+      </div>
+
+      {handoffs.map((handoff) => (
+        <div key={handoff.id} className="p-4 border rounded-lg bg-white">
+          <div className="flex justify-between items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{handoff.contact_id}</span>
+                <span className="text-xs px-2 py-0.5 rounded bg-orange-100 text-orange-700">
+                  {REASON_LABELS[handoff.reason] || handoff.reason}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Paused {new Date(handoff.paused_at).toLocaleString()}
+                {handoff.assigned_agent && ` • ${handoff.assigned_agent}`}
+              </p>
+              {handoff.note && (
+                <p className="text-sm text-gray-700 mt-1 truncate">&ldquo;{handoff.note}&rdquo;</p>
+              )}
+              {handoff.owner_notify_error && (
+                <p className="text-xs text-red-600 mt-1">Owner alert not sent: {handoff.owner_notify_error}</p>
+              )}
+            </div>
+            <button
+              onClick={() => void handleResume(handoff)}
+              disabled={busyId === handoff.id}
+              className="px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50"
+            >
+              {busyId === handoff.id ? "Working..." : "Resume bot"}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
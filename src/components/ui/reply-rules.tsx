@@ -0,0 +1,365 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { RegisteredTemplate } from "@/components/ui/template-registry";
+
+type Props = {
+  phoneNumber: string;
+  // Registered templates a rule can reply with
+  templates: RegisteredTemplate[];
+};
+
+type ReplyRule = {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  match_type: "keyword" | "regex";
+  patterns: string[];
+  reply_text: string | null;
+  media_url: string | null;
+  media_type: string | null;
+  template_name: string | null;
+  template_params: Record<string, string> | null;
+  hit_count: number;
+  last_hit_at: string | null;
+};
+
+const MEDIA_TYPES = ["image", "document", "video", "audio"];
+
+const EMPTY_FORM = {
+  name: "",
+  priority: 0,
+  match_type: "keyword" as ReplyRule["match_type"],
+  patterns: "",
+  reply_text: "",
+  media_type: "",
+  media_url: "",
+  template_name: "",
+  template_params: "",
+};
+
+export function ReplyRules({ phoneNumber, templates }: Props) {
+  const [rules, setRules] = useState<ReplyRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/reply-rules?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setRules(data.rules || []);
+      }
+    } catch (err) {
+      console.error("Error loading reply rules:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    void loadRules();
+  }, [loadRules]);
+
+  function startCreate() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  }
+
+  function startEdit(rule: ReplyRule) {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      priority: rule.priority,
+      match_type: rule.match_type,
+      patterns: rule.patterns.join("\n"),
+      reply_text: rule.reply_text || "",
+      media_type: rule.media_type || "",
+      media_url: rule.media_url || "",
+      template_name: rule.template_name || "",
+      template_params: rule.template_params ? JSON.stringify(rule.template_params) : "",
+    });
+    setShowForm(true);
+  }
+
+  async function saveRule(body: Record<string, unknown>, id: string | null) {
+    const res = await fetch("/api/reply-rules", {
+      method: id ? "PATCH" : "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...(id ? { id } : { phone_number: phoneNumber }), ...body }),
+    });
+
+    const data = await res.json();
+
+    if (!res.ok) {
+      throw new Error(data.error || "Failed to save rule");
+    }
+  }
+
+  async function handleSave() {
+    let templateParams: Record<string, string> | null = null;
+    if (form.template_name && form.template_params.trim()) {
+      try {
+        templateParams = JSON.parse(form.template_params);
+      } catch {
+        alert("Template parameters must be valid JSON");
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      await saveRule({
+        name: form.name,
+        priority: form.priority,
+        match_type: form.match_type,
+        patterns: form.patterns.split("\n"),
+        reply_text: form.reply_text,
+        media_type: form.media_url.trim() ? form.media_type || null : null,
+        media_url: form.media_url,
+        template_name: form.template_name || null,
+        template_params: templateParams,
+      }, editingId);
+
+      setShowForm(false);
+      await loadRules();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(rule: ReplyRule) {
+    try {
+      await saveRule({ enabled: !rule.enabled }, rule.id);
+      await loadRules();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    }
+  }
+
+  async function handleDelete(rule: ReplyRule) {
+    if (!confirm(`Delete rule "${rule.name}"?`)) return;
+
+    try {
+      const res = await fetch(`/api/reply-rules?id=${encodeURIComponent(rule.id)}`, {
+        method: "DELETE",
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to delete rule");
+      }
+
+      await loadRules();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    }
+  }
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${rules.length} rule(s)`}
+        </p>
+        <button
+          onClick={startCreate}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Add rule
+        </button>
+      </div>
+
+      {rules.map((rule) => (
+        <div key={rule.id} className={`p-4 border rounded-lg bg-white ${rule.enabled ? "" : "opacity-60"}`}>
+          <div className="flex justify-between items-start gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{rule.name}</span>
+                <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                  {rule.match_type}
+                </span>
+                <span className="text-xs text-gray-500">priority {rule.priority}</span>
+                {!rule.enabled && <span className="text-xs text-gray-500">disabled</span>}
+              </div>
+              <p className="text-xs text-gray-500 mt-1 font-mono break-all">{rule.patterns.join(" • ")}</p>
+              <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">
+                {rule.template_name
+                  ? `Template: ${rule.template_name}`
+                  : rule.reply_text || (rule.media_url ? `[${rule.media_type}] ${rule.media_url}` : "")}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {rule.hit_count} hit(s)
+                {rule.last_hit_at && ` • last ${new Date(rule.last_hit_at).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => void handleToggle(rule)}
+                className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+              >
+                {rule.enabled ? "Disable" : "Enable"}
+              </button>
+              <button
+                onClick={() => startEdit(rule)}
+                className="px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => void handleDelete(rule)}
+                className="px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded hover:bg-red-50"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {showForm && (
+        <div className="p-4 border rounded-lg bg-gray-50 space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. address"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Match</label>
+              <select
+                value={form.match_type}
+                onChange={(e) => setForm({ ...form, match_type: e.target.value as ReplyRule["match_type"] })}
+                className={inputClass}
+              >
+                <option value="keyword">Keywords</option>
+                <option value="regex">Regex</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Priority</label>
+              <input
+                type="number"
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              {form.match_type === "regex" ? "Regexes (one per line)" : "Keywords and synonyms in any language (one per line)"}
+            </label>
+            <textarea
+              value={form.patterns}
+              onChange={(e) => setForm({ ...form, patterns: e.target.value })}
+              placeholder={form.match_type === "regex" ? "\\b(open|close)\\w* (time|hours)\\b" : "address\nlocation\nपता\nસરનામું"}
+              rows={4}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Reply</label>
+            <textarea
+              value={form.reply_text}
+              onChange={(e) => setForm({ ...form, reply_text: e.target.value })}
+              placeholder="The exact answer to send (the caption when media is attached)"
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Media Type</label>
+              <select
+                value={form.media_type}
+                onChange={(e) => setForm({ ...form, media_type: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {MEDIA_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium mb-1">Media URL</label>
+              <input
+                type="text"
+                value={form.media_url}
+                onChange={(e) => setForm({ ...form, media_url: e.target.value })}
+                placeholder="https://..."
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Or Reply With Template</label>
+              <select
+                value={form.template_name}
+                onChange={(e) => setForm({ ...form, template_name: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.name}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {form.template_name && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Template Parameters (JSON)</label>
+                <input
+                  type="text"
+                  value={form.template_params}
+                  onChange={(e) => setForm({ ...form, template_params: e.target.value })}
+                  placeholder={'{"1": "{{customer_name}}"}'}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm border rounded hover:bg-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleSave()}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : editingId ? "Save changes" : "Add rule"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+export function TelegramConnect({ phoneNumber }: Props) {
+  const [webhookUrl, setWebhookUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [adminKey, setAdminKey] = useState("");
+
+  async function handleConnect() {
+    if (!adminKey.trim()) {
+      alert("Enter the admin key to connect the bot");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/channels/telegram", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminKey.trim()}`,
+        },
+        body: JSON.stringify({ phone_number: phoneNumber }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to connect Telegram bot");
+      }
+
+      setWebhookUrl(data.webhook_url);
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+          placeholder="Admin key (ADMIN_API_SECRET)"
+          className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded"
+        />
+        <button
+          onClick={handleConnect}
+          disabled={loading}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading ? "Connecting..." : "Connect Telegram Webhook"}
+        </button>
+      </div>
+
+      {webhookUrl && (
+        <p className="text-xs text-green-700 break-all">
+          ✅ Connected: {webhookUrl}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+  // Called with the current list after every load
+  onTemplatesChange?: (templates: RegisteredTemplate[]) => void;
+};
+
+type TemplateParameter = {
+  name: string;
+  example?: string;
+};
+
+export type RegisteredTemplate = {
+  id: string;
+  name: string;
+  template_id: string;
+  language: string;
+  category: string;
+  parameters: TemplateParameter[];
+  preview_text: string | null;
+};
+
+const CATEGORIES = ["UTILITY", "MARKETING", "AUTHENTICATION"];
+
+const EMPTY_FORM = {
+  name: "",
+  template_id: "",
+  language: "en",
+  category: "UTILITY",
+  parameters: "",
+  preview_text: "",
+};
+
+// One parameter per line: "name" or "name | example"
+function parseParameters(text: string): TemplateParameter[] {
+  return text
+    .split("\n")
+    .map((line) => line.split("|").map((part) => part.trim()))
+    .filter(([name]) => !!name)
+    .map(([name, example]) => (example ? { name, example } : { name }));
+}
+
+function formatParameters(parameters: TemplateParameter[]): string {
+  return parameters
+    .map((p) => (p.example ? `${p.name} | ${p.example}` : p.name))
+    .join("\n");
+}
+
+function renderPreview(template: RegisteredTemplate): string {
+  const examples = Object.fromEntries(
+    template.parameters.map((p) => [p.name, p.example || `{{${p.name}}}`])
+  );
+  return (template.preview_text || "").replace(
+    /\{\{\s*([\w.-]+)\s*\}\}/g,
+    (match, name: string) => examples[name] || match
+  );
+}
+
+export function TemplateRegistry({ phoneNumber, onTemplatesChange }: Props) {
+  const [templates, setTemplates] = useState<RegisteredTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/templates?phone_number=${encodeURIComponent(phoneNumber)}`);
+      const data = await res.json();
+      if (data.success) {
+        setTemplates(data.templates || []);
+        onTemplatesChange?.(data.templates || []);
+      }
+    } catch (err) {
+      console.error("Error loading templates:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [phoneNumber, onTemplatesChange]);
+
+  useEffect(() => {
+    void loadTemplates();
+  }, [loadTemplates]);
+
+  function startCreate() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  }
+
+  function startEdit(template: RegisteredTemplate) {
+    setEditingId(template.id);
+    setForm({
+      name: template.name,
+      template_id: template.template_id,
+      language: template.language,
+      category: template.category,
+      parameters: formatParameters(template.parameters),
+      preview_text: template.preview_text || "",
+    });
+    setShowForm(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/templates", {
+        method: editingId ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...(editingId ? { id: editingId } : { phone_number: phoneNumber }),
+          name: form.name,
+          template_id: form.template_id,
+          language: form.language,
+          category: form.category,
+          parameters: parseParameters(form.parameters),
+          preview_text: form.preview_text,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save template");
+      }
+
+      setShowForm(false);
+      await loadTemplates();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(template: RegisteredTemplate) {
+    if (!confirm(`Delete template "${template.name}"?`)) return;
+
+    try {
+      const res = await fetch(`/api/templates?id=${encodeURIComponent(template.id)}`, {
+        method: "DELETE",
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to delete template");
+      }
+
+      await loadTemplates();
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    }
+  }
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${templates.length} template(s)`}
+        </p>
+        <button
+          onClick={startCreate}
+          className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+        >
+          Add template
+        </button>
+      </div>
+
+      {templates.map((template) => (
+        <div key={template.id} className="p-4 border rounded-lg bg-white">
+          <div className="flex justify-between items-start gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{template.name}</span>
+                <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                  {template.category}
+                </span>
+                <span className="text-xs text-gray-500">{template.language}</span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1 font-mono break-all">{template.template_id}</p>
+              {template.parameters.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Parameters: {template.parameters.map((p) => p.name).join(", ")}
+                </p>
+              )}
+              {template.preview_text && (
+                <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{renderPreview(template)}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => startEdit(template)}
+                className="px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => void handleDelete(template)}
+                className="px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded hover:bg-red-50"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {showForm && (
+        <div className="p-4 border rounded-lg bg-gray-50 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. follow_up"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Provider Template ID</label>
+              <input
+                type="text"
+                value={form.template_id}
+                onChange={(e) => setForm({ ...form, template_id: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Language</label>
+              <input
+                type="text"
+                value={form.language}
+                onChange={(e) => setForm({ ...form, language: e.target.value })}
+                placeholder="en"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Category</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                className={inputClass}
+              >
+                {CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Parameters (in order, one per line)</label>
+            <textarea
+              value={form.parameters}
+              onChange={(e) => setForm({ ...form, parameters: e.target.value })}
+              placeholder={"1 | Priya\n2 | your order"}
+              rows={3}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Approved Text</label>
+            <textarea
+              value={form.preview_text}
+              onChange={(e) => setForm({ ...form, preview_text: e.target.value })}
+              placeholder={"Hi {{1}}, just checking in about {{2}}."}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm border rounded hover:bg-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleSave()}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : editingId ? "Save changes" : "Add template"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
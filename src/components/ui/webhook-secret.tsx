@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+
+type Props = {
+  phoneNumber: string;
+};
+
+export function WebhookSecret({ phoneNumber }: Props) {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [adminKey, setAdminKey] = useState("");
+
+  async function handleRotate() {
+    if (!adminKey.trim()) {
+      alert("Enter the admin key to rotate the secret");
+      return;
+    }
+    if (!confirm("Rotate the webhook secret? The current secret keeps working for 24 hours.")) return;
+
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/webhook-secret", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminKey.trim()}`,
+        },
+        body: JSON.stringify({ phone_number: phoneNumber }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to rotate secret");
+      }
+
+      setSecret(data.webhook_secret);
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : "Something went wrong"}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+          placeholder="Admin key (ADMIN_API_SECRET)"
+          className="flex-1 px-2 py-1 text-xs border border-blue-300 rounded"
+        />
+        <button
+          onClick={handleRotate}
+          disabled={loading}
+          className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {loading ? "Rotating..." : "Generate / Rotate Webhook Secret"}
+        </button>
+      </div>
+
+      {secret && (
+        <div className="bg-white p-2 rounded border border-blue-300">
+          <p className="text-xs text-blue-800 mb-1">
+            Copy this secret now - it will not be shown again:
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="text-xs font-mono text-blue-900 flex-1 break-all">{secret}</code>
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(secret);
+                alert("Webhook secret copied to clipboard!");
+              }}
+              className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * Split recordings that are too large or too long for one transcription call
+ * into self-contained segments. OGG (Opus/Vorbis) is split on page boundaries
+ * with the stream headers repeated in every segment; WAV on sample frames.
+ */
+
+export type AudioSegment = {
+    buffer: ArrayBuffer;
+    // Offset of the segment in the original recording, for stitching timestamps
+    startSeconds: number;
+};
+
+export type SegmentLimits = {
+    maxBytes: number;
+    maxSeconds: number;
+};
+
+type OggPage = {
+    bytes: Uint8Array;
+    // Samples decoded up to the end of this page; -1 when no packet ends on it
+    granule: number;
+};
+
+// Accepted MIME types (without parameters such as "; codecs=opus") and the
+// extension files are sent with, which STT APIs use to detect the format
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+    "audio/ogg": "ogg",
+    "audio/opus": "opus",
+    "audio/wav": "wav",
+    "audio/x-wav": "wav",
+    "audio/mpeg": "mp3",
+    "audio/webm": "webm",
+    "audio/mp4": "m4a",
+    "audio/x-m4a": "m4a",
+};
+
+const OGG_PAGE_HEADER_LENGTH = 27;
+
+const OGG_CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let r = i << 24;
+        for (let j = 0; j < 8; j++) {
+            r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+        }
+        table[i] = r >>> 0;
+    }
+    return table;
+})();
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function concat(parts: Uint8Array[]): ArrayBuffer {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result.buffer;
+}
+
+function readOggPages(data: Uint8Array): OggPage[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const pages: OggPage[] = [];
+
+    let offset = 0;
+    while (offset + OGG_PAGE_HEADER_LENGTH <= data.length) {
+        if (ascii(data, offset, 4) !== "OggS") {
+            throw new Error("Invalid OGG stream");
+        }
+
+        const segmentCount = data[offset + 26];
+        let length = OGG_PAGE_HEADER_LENGTH + segmentCount;
+        for (let i = 0; i < segmentCount; i++) {
+            length += data[offset + OGG_PAGE_HEADER_LENGTH + i];
+        }
+
+        // Truncated last page
+        if (offset + length > data.length) break;
+
+        pages.push({
+            bytes: data.subarray(offset, offset + length),
+            granule: Number(view.getBigInt64(offset + 6, true)),
+        });
+        offset += length;
+    }
+
+    return pages;
+}
+
+// Granule positions count samples: always 48 kHz for Opus, the stream's rate for Vorbis
+function oggSampleRate(firstPage: Uint8Array): number | null {
+    const body = OGG_PAGE_HEADER_LENGTH + firstPage[26];
+    if (ascii(firstPage, body, 8) === "OpusHead") return 48000;
+    if (ascii(firstPage, body, 7) === "\x01vorbis") {
+        return new DataView(firstPage.buffer, firstPage.byteOffset).getUint32(body + 12, true);
+    }
+    return null;
+}
+
+// Pages keep their granule positions but are renumbered, so each segment is a gapless stream
+function buildOggSegment(pages: OggPage[]): ArrayBuffer {
+    const buffer = concat(pages.map(page => page.bytes));
+    const data = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+
+    let offset = 0;
+    pages.forEach((page, sequence) => {
+        view.setUint32(offset + 18, sequence, true);
+        view.setUint32(offset + 22, 0, true);
+
+        let crc = 0;
+        for (const byte of data.subarray(offset, offset + page.bytes.length)) {
+            crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+        }
+        view.setUint32(offset + 22, crc, true);
+
+        offset += page.bytes.length;
+    });
+
+    return buffer;
+}
+
+function splitOgg(data: Uint8Array, limits: SegmentLimits): AudioSegment[] | null {
+    const pages = readOggPages(data);
+
+    // Identification and comment headers come first and carry granule position 0
+    const headerCount = pages.findIndex(page => page.granule !== 0);
+    if (headerCount <= 0) return null;
+
+    const rate = oggSampleRate(pages[0].bytes);
+    if (!rate) return null;
+
+    const headers = pages.slice(0, headerCount);
+    const headerBytes = headers.reduce((sum, page) => sum + page.bytes.length, 0);
+
+    const segments: AudioSegment[] = [];
+    let current: OggPage[] = [];
+    let currentBytes = headerBytes;
+    let startGranule = 0;
+    let lastGranule = 0;
+
+    for (const page of pages.slice(headerCount)) {
+        const granule = page.granule >= 0 ? page.granule : lastGranule;
+        const tooLarge = currentBytes + page.bytes.length > limits.maxBytes;
+        const tooLong = (granule - startGranule) / rate > limits.maxSeconds;
+
+        if (current.length > 0 && (tooLarge || tooLong)) {
+            segments.push({ buffer: buildOggSegment([...headers, ...current]), startSeconds: startGranule / rate });
+            startGranule = lastGranule;
+            current = [];
+            currentBytes = headerBytes;
+        }
+
+        current.push(page);
+        currentBytes += page.bytes.length;
+        lastGranule = granule;
+    }
+
+    if (current.length > 0) {
+        segments.push({ buffer: buildOggSegment([...headers, ...current]), startSeconds: startGranule / rate });
+    }
+
+    return segments;
+}
+
+function splitWav(data: Uint8Array, limits: SegmentLimits): AudioSegment[] | null {
+    if (ascii(data, 0, 4) !== "RIFF" || ascii(data, 8, 4) !== "WAVE") return null;
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let fmt: Uint8Array | null = null;
+    let dataStart = -1;
+    let dataLength = 0;
+
+    for (let offset = 12; offset + 8 <= data.length;) {
+        const id = ascii(data, offset, 4);
+        const size = view.getUint32(offset + 4, true);
+
+        if (id === "fmt ") {
+            fmt = data.subarray(offset, offset + 8 + size);
+        } else if (id === "data") {
+            dataStart = offset + 8;
+            dataLength = Math.min(size, data.length - dataStart);
+            break;
+        }
+
+        // Chunks are padded to an even length
+        offset += 8 + size + (size % 2);
+    }
+
+    if (!fmt || dataStart < 0) return null;
+
+    const fmtView = new DataView(fmt.buffer, fmt.byteOffset, fmt.byteLength);
+    const byteRate = fmtView.getUint32(16, true);
+    const blockAlign = fmtView.getUint16(20, true);
+    if (!byteRate || !blockAlign) return null;
+
+    const headerLength = 12 + fmt.length + 8;
+    const maxDataBytes = Math.min(limits.maxBytes - headerLength, limits.maxSeconds * byteRate);
+    const segmentBytes = Math.floor(maxDataBytes / blockAlign) * blockAlign;
+    if (segmentBytes <= 0) return null;
+
+    const segments: AudioSegment[] = [];
+    for (let start = 0; start < dataLength; start += segmentBytes) {
+        const samples = data.subarray(dataStart + start, dataStart + Math.min(start + segmentBytes, dataLength));
+
+        const header = new Uint8Array(headerLength);
+        const headerView = new DataView(header.buffer);
+        header.set([0x52, 0x49, 0x46, 0x46], 0); // RIFF
+        headerView.setUint32(4, headerLength - 8 + samples.length, true);
+        header.set([0x57, 0x41, 0x56, 0x45], 8); // WAVE
+        header.set(fmt, 12);
+        header.set([0x64, 0x61, 0x74, 0x61], 12 + fmt.length); // data
+        headerView.setUint32(16 + fmt.length, samples.length, true);
+
+        segments.push({ buffer: concat([header, samples]), startSeconds: start / byteRate });
+    }
+
+    return segments;
+}
+
+/**
+ * "audio/ogg; codecs=opus" -> "audio/ogg"; falls back to the file extension
+ * when the type is missing or generic (e.g. application/octet-stream)
+ */
+export function normalizeAudioMimeType(mimeType: string | null | undefined, fileName = ""): string | null {
+    const type = (mimeType || "").split(";")[0].trim().toLowerCase();
+    if (type === "audio/x-wav") return "audio/wav";
+    if (type in AUDIO_EXTENSIONS) return type;
+
+    const extension = fileName.split(".").pop()?.toLowerCase();
+    const byExtension = Object.entries(AUDIO_EXTENSIONS).find(([, ext]) => ext === extension);
+    return byExtension ? byExtension[0] : null;
+}
+
+/**
+ * Split a recording into segments within the limits. Recordings that already
+ * fit, and formats that can't be split here, come back as a single segment.
+ */
+export function splitAudio(buffer: ArrayBuffer, mimeType: string, limits: SegmentLimits): AudioSegment[] {
+    const data = new Uint8Array(buffer);
+    let segments: AudioSegment[] | null = null;
+
+    try {
+        if (mimeType === "audio/ogg" || mimeType === "audio/opus") {
+            segments = splitOgg(data, limits);
+        } else if (mimeType === "audio/wav") {
+            segments = splitWav(data, limits);
+        }
+    } catch (error) {
+        console.error("Could not split audio, transcribing it whole:", error);
+    }
+
+    if (!segments || segments.length <= 1) {
+        return [{ buffer, startSeconds: 0 }];
+    }
+
+    console.log(`Split ${mimeType} recording into ${segments.length} segments`);
+    return segments;
+}
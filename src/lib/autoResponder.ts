@@ -1,8 +1,15 @@
 import { supabase } from "./supabaseClient";
 import { embedText } from "./embeddings";
 import { retrieveRelevantChunksForPhoneNumber } from "./retrieval";
+import { retrieveConversationDocumentChunks } from "./conversationDocuments";
 import { getFilesForPhoneNumber } from "./phoneMapping";
-import { sendWhatsAppMessage } from "./whatsappSender";
+import { CHANNEL_MAPPING_COLUMNS, conversationFilter, createChannelSender } from "./channels";
+import { OutboundMessage, sendOutboundMessage } from "./outboundSender";
+import { buildInteractiveMessage, extractOptionsMarker } from "./interactive";
+import { extractMediaMarkers, findMediaUrls, getMediaLibrary, MediaLibraryItem } from "./mediaLibrary";
+import { synthesizeVoiceNote } from "./tts";
+import { extractHandoffMarker, pauseConversation } from "./handoff";
+import { buildAfterHoursNote, getBusinessHoursStatus, getBusinessSchedule } from "./businessHours";
 import Groq from "groq-sdk";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 
@@ -12,12 +19,25 @@ const groq = new Groq({
 
 const genAI = process.env.GEMINI_API_KEY ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY) : null;
 
+// Keeps the media list from crowding out the knowledge-base context
+const MAX_LISTED_MEDIA = 20;
+
 export type AutoResponseResult = {
     success: boolean;
     response?: string;
     error?: string;
     noDocuments?: boolean;
     sent?: boolean;
+    superseded?: boolean;
+};
+
+export type AutoResponseOptions = {
+    // Inbound messages already merged into `messageText` (kept out of history)
+    excludeMessageIds?: string[];
+    // Checked before each send; returning true cancels the rest of the reply
+    shouldAbort?: () => Promise<boolean>;
+    // The customer sent a voice note; answered with one if the number opted in
+    voiceNote?: { language?: string };
 };
 
 /**
@@ -29,7 +49,8 @@ export async function generateAutoResponse(
     toNumber: string,
     messageText: string,
     messageId: string,
-    senderName?: string
+    senderName?: string,
+    options: AutoResponseOptions = {}
 ): Promise<AutoResponseResult> {
     try {
         console.log(`--- Starting Fast Auto-Response for ${toNumber} ---`);
@@ -38,7 +59,7 @@ export async function generateAutoResponse(
         // 1. Fetch mapping first (needed for custom API keys)
         const mappingResult = await supabase
             .from("phone_document_mapping")
-            .select("system_prompt, auth_token, origin, gemini_api_key, groq_api_key, mistral_api_key")
+            .select(`system_prompt, gemini_api_key, groq_api_key, mistral_api_key, voice_replies_enabled, tts_provider, tts_voice, ${CHANNEL_MAPPING_COLUMNS}`)
             .eq("phone_number", toNumber)
             .single();
 
@@ -52,15 +73,16 @@ export async function generateAutoResponse(
         }
 
         // 2. Parallelize remaining data fetching using custom keys if available
-        const [fileIds, queryEmbedding, historyResult] = await Promise.all([
+        const [fileIds, queryEmbedding, historyResult, schedule] = await Promise.all([
             getFilesForPhoneNumber(toNumber),
             embedText(messageText, 3, phoneMapping.mistral_api_key),
             supabase
                 .from("whatsapp_messages")
-                .select("content_text, event_type, from_number, to_number")
-                .or(`and(from_number.eq.${fromNumber},to_number.eq.${toNumber}),and(from_number.eq.${toNumber},to_number.eq.${fromNumber})`)
+                .select("message_id, content_text, event_type, from_number, to_number")
+                .or(conversationFilter(fromNumber, toNumber))
                 .order("received_at", { ascending: true })
-                .limit(20)
+                .limit(20),
+            getBusinessSchedule(toNumber)
         ]);
 
         if (fileIds.length === 0) {
@@ -74,17 +96,19 @@ export async function generateAutoResponse(
 
 
         const customSystemPrompt = phoneMapping.system_prompt;
-        const auth_token = phoneMapping.auth_token;
-        const origin = phoneMapping.origin;
+        const sender = createChannelSender(fromNumber, phoneMapping);
 
-        if (!auth_token || !origin) {
-            console.error("No credentials found for phone number");
+        if (!sender.hasCredentials) {
+            console.error(`No ${sender.channel} credentials found for phone number`);
             return {
                 success: false,
-                error: "No WhatsApp API credentials found",
+                error: `No ${sender.channel} API credentials found`,
             };
         }
 
+        // The webhook processor sends the away message; here the model is only told the business is closed
+        const hoursStatus = getBusinessHoursStatus(schedule);
+
         if (!queryEmbedding) {
             return {
                 success: false,
@@ -92,19 +116,34 @@ export async function generateAutoResponse(
             };
         }
 
-        // 2. Vector Search (Depends on embedding)
-        const matches = await retrieveRelevantChunksForPhoneNumber(
-            queryEmbedding,
-            toNumber,
-            5
-        );
+        // 2. Vector Search (Depends on embedding) - knowledge base plus documents shared in this chat
+        const [matches, conversationDocMatches, mediaLibrary] = await Promise.all([
+            retrieveRelevantChunksForPhoneNumber(
+                queryEmbedding,
+                toNumber,
+                5
+            ),
+            retrieveConversationDocumentChunks(queryEmbedding, toNumber, fromNumber, 3),
+            getMediaLibrary(fileIds)
+        ]);
 
         const contextText = matches.length > 0 
             ? matches.map((m) => m.chunk).join("\n\n")
             : "";
 
-        // 3. Process history
-        const historyRows = historyResult.data || [];
+        // Uploaded files plus media links in the matched rows (e.g. a sheet's image column)
+        const sendableMedia: MediaLibraryItem[] = [...mediaLibrary];
+        for (const item of findMediaUrls(contextText)) {
+            if (!sendableMedia.some(m => m.url === item.url)) sendableMedia.push(item);
+        }
+
+        const conversationDocText = conversationDocMatches
+            .map((m) => `[${m.file_name || "document"}]\n${m.content}`)
+            .join("\n\n");
+
+        // 3. Process history (the current message(s) are appended separately below)
+        const excludedIds = new Set([messageId, ...(options.excludeMessageIds || [])]);
+        const historyRows = (historyResult.data || []).filter(m => !excludedIds.has(m.message_id));
         const history = historyRows
             .filter(m => m.content_text && (m.event_type === "MoMessage" || m.event_type === "MtMessage"))
             .map(m => ({
@@ -155,6 +194,39 @@ export async function generateAutoResponse(
             systemPrompt += `\n\n=== NOTE ===\nNo specific context available for this query. Respond based on general knowledge and conversation history.\n`;
         }
 
+        if (conversationDocText) {
+            systemPrompt += `\n\n=== DOCUMENTS THE CUSTOMER SHARED IN THIS CHAT ===\n${conversationDocText}\n`;
+        }
+
+        if (sendableMedia.length > 0) {
+            systemPrompt += `\n\n=== MEDIA YOU CAN SEND ===\n`;
+            systemPrompt += sendableMedia
+                .slice(0, MAX_LISTED_MEDIA)
+                .map(m => `- ${m.name} (${m.type}): ${m.url}`)
+                .join("\n");
+            systemPrompt += `\n- To send one, add a line: [[MEDIA: <exact URL from this list> | <optional caption>]]\n`;
+            systemPrompt += `- For a product, send its photo with the name and price as the caption\n`;
+            systemPrompt += `- Only send media that directly answers the customer; never invent URLs\n`;
+        }
+
+        // Choices are sent as tappable buttons / a list menu instead of asking the customer to type
+        systemPrompt += `\n\n=== OFFERING CHOICES ===\n`;
+        systemPrompt += `- When the customer should pick from a few clear options, end your reply with one line like: [[OPTIONS: Pricing | Book demo | Talk to human]]\n`;
+        systemPrompt += `- At most 10 options, each under 24 characters, in the customer's language\n`;
+        systemPrompt += `- Only use it when the choices genuinely help; never for open questions\n`;
+
+        // The bot steps back when a person is needed (see handoff.ts) - unless nobody is in
+        const handoffsAllowed = hoursStatus.open || !schedule.suppressHandoffs;
+        if (handoffsAllowed) {
+            systemPrompt += `\n\n=== HANDING OVER TO A PERSON ===\n`;
+            systemPrompt += `- If the customer is angry or upset, asks for a human, or needs something you cannot resolve, reply briefly that a team member will take over and end with the line: [[HANDOFF]]\n`;
+            systemPrompt += `- Never promise a handoff without the marker, and never use it for questions you can answer\n`;
+        }
+
+        if (!hoursStatus.open) {
+            systemPrompt += buildAfterHoursNote(schedule, hoursStatus);
+        }
+
         // 9. Build context for the LLM
         const visitorContext = senderName 
             ? `\n\n=== VISITOR INFORMATION (DO NOT ADOPT THIS IDENTITY) ===\n- You are talking to: ${senderName}\n- YOUR identity is strictly limited to the role defined above.\n- NEVER assume or repeat the visitor's name as your own name.\n- Address the visitor as "${senderName}" naturally in conversation.`
@@ -240,6 +312,12 @@ export async function generateAutoResponse(
             }
         }
 
+        // Pull out media and choices the model offered
+        const attached = extractMediaMarkers(response, sendableMedia);
+        const escalation = extractHandoffMarker(attached.text);
+        const offered = extractOptionsMarker(escalation.text);
+        response = offered.text;
+
         // 11. Send the response via WhatsApp (Splitting into multiple messages if long)
         // We split by double newlines or single newlines if paragraphs are long
         const messageChunks = response
@@ -247,46 +325,76 @@ export async function generateAutoResponse(
             .map(chunk => chunk.trim())
             .filter(chunk => chunk.length > 0);
 
-        console.log(`Splitting response into ${messageChunks.length} chunks`);
+        if (offered.options.length > 0 && messageChunks.length === 0) {
+            messageChunks.push("Please choose an option:");
+        }
+
+        // Text first, then media; the choices stay on the very last message
+        const outgoing: OutboundMessage[] = messageChunks.map(text => ({ text }));
+        const choiceMessage = offered.options.length > 0 ? outgoing.pop() : undefined;
+
+        // Spoken questions get a spoken answer: the text part becomes one voice note
+        if (options.voiceNote && phoneMapping.voice_replies_enabled && outgoing.length > 0) {
+            const spokenText = outgoing.map(message => message.text).join("\n\n");
+            const voiceNote = await synthesizeVoiceNote(spokenText, {
+                businessNumber: toNumber,
+                provider: phoneMapping.tts_provider,
+                voice: phoneMapping.tts_voice,
+                language: options.voiceNote.language,
+            });
+
+            if (voiceNote) {
+                outgoing.splice(0, outgoing.length, { text: spokenText, media: voiceNote });
+            }
+        }
+        outgoing.push(...attached.media.map(media => ({
+            text: `[${media.type}] ${media.caption || media.fileName || media.url}`,
+            media,
+        })));
+        if (choiceMessage) {
+            outgoing.push({
+                text: choiceMessage.text,
+                interactive: buildInteractiveMessage(choiceMessage.text, offered.options),
+            });
+        }
+
+        console.log(`Splitting response into ${outgoing.length} messages`);
 
         let allSent = true;
         let lastError = "";
 
-        for (let i = 0; i < messageChunks.length; i++) {
-            const chunk = messageChunks[i];
-            
-            // Send to WhatsApp
-            const sendResult = await sendWhatsAppMessage(fromNumber, chunk, auth_token, origin);
+        for (let i = 0; i < outgoing.length; i++) {
+            const chunk = outgoing[i].text;
+
+            // A newer customer message makes this reply stale - stop and let
+            // the newer message's run answer everything together
+            if (options.shouldAbort && await options.shouldAbort()) {
+                console.log(`Reply superseded by a newer message after ${i} chunk(s)`);
+                return {
+                    success: false,
+                    response,
+                    sent: i > 0,
+                    superseded: true,
+                    error: "Superseded by a newer inbound message",
+                };
+            }
+
+            // Send on the contact's channel (WhatsApp, Telegram, web)
+            const responseMessageId = `auto_${messageId}_${Date.now()}_${i}`;
+            const sendResult = await sendOutboundMessage({
+                businessNumber: toNumber,
+                contactId: fromNumber,
+                message: outgoing[i],
+                source: "auto_reply",
+                messageId: responseMessageId,
+                rawPayload: { isAutoResponse: true, chunkIndex: i },
+                sender,
+            });
             
             if (sendResult.success) {
-                // Store each chunk in the database
-                const responseMessageId = `auto_${messageId}_${Date.now()}_${i}`;
-                await supabase
-                    .from("whatsapp_messages")
-                    .insert([
-                        {
-                            message_id: responseMessageId,
-                            channel: "whatsapp",
-                            from_number: toNumber,
-                            to_number: fromNumber,
-                            received_at: new Date().toISOString(),
-                            content_type: "text",
-                            content_text: chunk,
-                            sender_name: "AI Assistant",
-                            event_type: "MtMessage",
-                            is_in_24_window: true,
-                            is_responded: false,
-                            auto_respond_sent: false,
-                            raw_payload: {
-                                messageId: responseMessageId,
-                                isAutoResponse: true,
-                                chunkIndex: i
-                            },
-                        },
-                    ]);
-                
-                // Add a small delay between messages to simulate typing (except for the last message)
-                if (i < messageChunks.length - 1) {
+                // Add a small delay between messages to simulate typing (except for the last message;
+                // rate-limited chunks are already queued further apart)
+                if (i < outgoing.length - 1 && !sendResult.queued) {
                     const delay = Math.min(1500, 800 + (chunk.length * 5)); // Dynamic delay based on length
                     await new Promise(resolve => setTimeout(resolve, delay));
                 }
@@ -297,7 +405,7 @@ export async function generateAutoResponse(
             }
         }
 
-        if (!allSent && messageChunks.length > 0) {
+        if (!allSent && outgoing.length > 0) {
             return {
                 success: false,
                 response,
@@ -306,6 +414,11 @@ export async function generateAutoResponse(
             };
         }
 
+        // 12. The model asked for a person: pause the bot once its reply is out
+        if (escalation.handoff && handoffsAllowed) {
+            await pauseConversation(toNumber, fromNumber, "llm", { note: messageText });
+        }
+
         // 13. Mark original message as responded
         await supabase
             .from("whatsapp_messages")
@@ -334,7 +447,7 @@ export async function generateAutoResponse(
 /**
  * Detect language from message and conversation history
  */
-function detectLanguage(text: string, history: Array<{role: string, content: string}>): string {
+export function detectLanguage(text: string, history: Array<{role: string, content: string}>): string {
     const lowerText = text.toLowerCase();
 
     // Gujarati detection
@@ -390,13 +503,13 @@ export async function generateReminderResponse(
         const [mappingResult, historyResult] = await Promise.all([
             supabase
                 .from("phone_document_mapping")
-                .select("system_prompt, auth_token, origin, gemini_api_key, groq_api_key, mistral_api_key")
+                .select(`system_prompt, gemini_api_key, groq_api_key, mistral_api_key, ${CHANNEL_MAPPING_COLUMNS}`)
                 .eq("phone_number", toNumber)
                 .single(),
             supabase
                 .from("whatsapp_messages")
                 .select("content_text, event_type, from_number, to_number, raw_payload")
-                .or(`and(from_number.eq.${fromNumber},to_number.eq.${toNumber}),and(from_number.eq.${toNumber},to_number.eq.${fromNumber})`)
+                .or(conversationFilter(fromNumber, toNumber))
                 .order("received_at", { ascending: true })
         ]);
 
@@ -475,23 +588,18 @@ export async function generateReminderResponse(
 
         if (!response) return { success: false, error: "No response generated" };
 
-        // 4. Send to WhatsApp
-        const sendResult = await sendWhatsAppMessage(fromNumber, response, phoneMapping.auth_token, phoneMapping.origin);
+        // 4. Send on the contact's channel (as the fallback template if the window has closed)
+        const sendResult = await sendOutboundMessage({
+            businessNumber: toNumber,
+            contactId: fromNumber,
+            message: { text: response },
+            source: "reminder",
+            messageId: `reminder_${fromNumber}_${Date.now()}`,
+            rawPayload: { isReminder: true },
+            sender: createChannelSender(fromNumber, phoneMapping),
+        });
 
         if (sendResult.success) {
-            const responseMessageId = `reminder_${fromNumber}_${Date.now()}`;
-            await supabase.from("whatsapp_messages").insert([{
-                message_id: responseMessageId,
-                channel: "whatsapp",
-                from_number: toNumber,
-                to_number: fromNumber,
-                received_at: new Date().toISOString(),
-                content_type: "text",
-                content_text: response,
-                sender_name: "AI Assistant",
-                event_type: "MtMessage",
-                raw_payload: { isReminder: true }
-            }]);
             return { success: true, response, sent: true };
         }
 
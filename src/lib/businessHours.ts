@@ -0,0 +1,232 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * Per-number business hours: a timezone, weekly opening hours and a holiday
+ * calendar. Outside them the number can send an away message, tell the LLM
+ * it is after hours, and hold back reminders and handoffs.
+ */
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+// "HH:MM" in the number's timezone; a close at or before the open runs past midnight
+export type OpeningSlot = { open: string; close: string };
+
+export type WeeklyHours = Partial<Record<Weekday, OpeningSlot[]>>;
+
+export type Holiday = { date: string; name?: string };
+
+export type BusinessSchedule = {
+    timezone: string;
+    // Null when the number is always open
+    hours: WeeklyHours | null;
+    holidays: Holiday[];
+    awayMessage: string | null;
+    botRepliesAfterHours: boolean;
+    suppressReminders: boolean;
+    suppressHandoffs: boolean;
+};
+
+export type BusinessHoursStatus = {
+    open: boolean;
+    // Name of today's holiday, when that is why we're closed
+    holiday?: string;
+    // e.g. "tomorrow at 09:00 (Asia/Kolkata)"; null when no opening is scheduled
+    nextOpening?: string | null;
+};
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+    sun: "Sunday",
+    mon: "Monday",
+    tue: "Tuesday",
+    wed: "Wednesday",
+    thu: "Thursday",
+    fri: "Friday",
+    sat: "Saturday",
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead the next opening is looked up
+const MAX_LOOKAHEAD_DAYS = 14;
+
+// One away message per contact in this period, however many messages they send after hours
+const AWAY_MESSAGE_COOLDOWN_MS = 12 * 60 * 60 * 1000;
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+    if (typeof timezone !== "string" || !timezone) return false;
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function isValidWeeklyHours(hours: unknown): hours is WeeklyHours {
+    if (typeof hours !== "object" || hours === null || Array.isArray(hours)) return false;
+
+    return Object.entries(hours).every(([day, slots]) =>
+        (WEEKDAYS as readonly string[]).includes(day)
+        && Array.isArray(slots)
+        && slots.every(slot =>
+            typeof slot === "object" && slot !== null
+            && TIME_PATTERN.test(slot.open) && TIME_PATTERN.test(slot.close)
+        )
+    );
+}
+
+export function isValidHolidays(holidays: unknown): holidays is Holiday[] {
+    return Array.isArray(holidays) && holidays.every(holiday =>
+        typeof holiday === "object" && holiday !== null
+        && typeof holiday.date === "string" && DATE_PATTERN.test(holiday.date)
+        && (holiday.name === undefined || holiday.name === null || typeof holiday.name === "string")
+    );
+}
+
+export async function getBusinessSchedule(businessNumber: string): Promise<BusinessSchedule> {
+    const { data: mapping } = await supabase
+        .from("phone_document_mapping")
+        .select("business_timezone, business_hours, business_holidays, away_message, after_hours_bot_replies, after_hours_suppress_reminders, after_hours_suppress_handoffs")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    return {
+        timezone: isValidTimezone(mapping?.business_timezone) ? mapping.business_timezone : DEFAULT_TIMEZONE,
+        hours: isValidWeeklyHours(mapping?.business_hours) ? mapping.business_hours : null,
+        holidays: isValidHolidays(mapping?.business_holidays) ? mapping.business_holidays : [],
+        awayMessage: mapping?.away_message?.trim() || null,
+        botRepliesAfterHours: mapping?.after_hours_bot_replies ?? true,
+        suppressReminders: mapping?.after_hours_suppress_reminders ?? true,
+        suppressHandoffs: mapping?.after_hours_suppress_handoffs ?? true,
+    };
+}
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+}
+
+// Calendar date, weekday and minute of the day in the given timezone
+function localTime(date: Date, timezone: string) {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || "";
+
+    return {
+        date: `${get("year")}-${get("month")}-${get("day")}`,
+        weekday: get("weekday").toLowerCase().slice(0, 3) as Weekday,
+        minutes: Number(get("hour")) * 60 + Number(get("minute")),
+    };
+}
+
+function isOvernight(slot: OpeningSlot): boolean {
+    return toMinutes(slot.close) <= toMinutes(slot.open);
+}
+
+/**
+ * Whether the number is open at `now`, and if not, when it opens next
+ */
+export function getBusinessHoursStatus(schedule: BusinessSchedule, now = new Date()): BusinessHoursStatus {
+    if (!schedule.hours) {
+        return { open: true };
+    }
+
+    const hours = schedule.hours;
+    const holidayOn = (date: string) => schedule.holidays.find(holiday => holiday.date === date);
+
+    const today = localTime(now, schedule.timezone);
+    const holiday = holidayOn(today.date);
+
+    if (!holiday) {
+        const openToday = (hours[today.weekday] || []).some(slot =>
+            today.minutes >= toMinutes(slot.open)
+            && (isOvernight(slot) || today.minutes < toMinutes(slot.close))
+        );
+
+        // Yesterday's overnight hours reach into this morning
+        const yesterday = localTime(new Date(now.getTime() - DAY_MS), schedule.timezone);
+        const openFromYesterday = !holidayOn(yesterday.date) && (hours[yesterday.weekday] || []).some(slot =>
+            isOvernight(slot) && today.minutes < toMinutes(slot.close)
+        );
+
+        if (openToday || openFromYesterday) {
+            return { open: true };
+        }
+    }
+
+    return {
+        open: false,
+        holiday: holiday ? holiday.name || "holiday" : undefined,
+        nextOpening: findNextOpening(schedule, hours, now, today.minutes),
+    };
+}
+
+function findNextOpening(schedule: BusinessSchedule, hours: WeeklyHours, now: Date, minutesNow: number): string | null {
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+        const day = localTime(new Date(now.getTime() + offset * DAY_MS), schedule.timezone);
+        if (schedule.holidays.some(holiday => holiday.date === day.date)) continue;
+
+        const opening = (hours[day.weekday] || [])
+            .map(slot => slot.open)
+            .filter(open => offset > 0 || toMinutes(open) > minutesNow)
+            .sort()[0];
+
+        if (opening) {
+            const when = offset === 0 ? "today" : offset === 1 ? "tomorrow" : WEEKDAY_NAMES[day.weekday];
+            return `${when} at ${opening} (${schedule.timezone})`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Whether the contact was sent the away message within the cooldown
+ */
+export async function hasRecentAwayMessage(contactId: string, businessNumber: string): Promise<boolean> {
+    const { data } = await supabase
+        .from("whatsapp_messages")
+        .select("message_id")
+        .eq("from_number", businessNumber)
+        .eq("to_number", contactId)
+        .eq("event_type", "MtMessage")
+        .contains("raw_payload", { isAwayMessage: true })
+        .gt("received_at", new Date(Date.now() - AWAY_MESSAGE_COOLDOWN_MS).toISOString())
+        .limit(1);
+
+    return (data?.length || 0) > 0;
+}
+
+/**
+ * Prompt section telling the model the business is closed right now
+ */
+export function buildAfterHoursNote(schedule: BusinessSchedule, status: BusinessHoursStatus): string {
+    let note = `\n\n=== BUSINESS HOURS ===\n`;
+    note += status.holiday
+        ? `- The business is closed today for ${status.holiday}\n`
+        : `- The business is closed right now\n`;
+    if (status.nextOpening) {
+        note += `- It opens again ${status.nextOpening}\n`;
+    }
+    note += `- You can still answer questions, but don't promise anything that needs the team before then\n`;
+    if (schedule.suppressHandoffs) {
+        note += `- Nobody from the team is available until then; say they will follow up once the business opens\n`;
+    }
+    return note;
+}
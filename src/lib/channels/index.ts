@@ -0,0 +1,72 @@
+import { supabase } from "../supabaseClient";
+import { PROVIDER_MAPPING_COLUMNS } from "../whatsappSender";
+import { telegramChannel } from "./telegram";
+import { webChannel } from "./web";
+import { whatsappChannel } from "./whatsapp";
+import { Channel, ChannelMapping, ChannelName, ChannelSender } from "./types";
+
+export * from "./types";
+export { isValidWebSessionId } from "./web";
+
+const channels: Record<ChannelName, Channel> = {
+    whatsapp: whatsappChannel,
+    telegram: telegramChannel,
+    web: webChannel,
+};
+
+// phone_document_mapping columns needed to build a sender for any channel
+export const CHANNEL_MAPPING_COLUMNS = `${PROVIDER_MAPPING_COLUMNS}, telegram_bot_token`;
+
+export function getChannel(name: ChannelName): Channel {
+    return channels[name];
+}
+
+/**
+ * Work out a contact's channel from its ID ("telegram:123", "web:abc", or a phone number)
+ */
+export function getChannelForContact(contactId: string): Channel {
+    if (contactId.startsWith("telegram:")) return telegramChannel;
+    if (contactId.startsWith("web:")) return webChannel;
+    return whatsappChannel;
+}
+
+/**
+ * PostgREST filter for both directions of a conversation. Values are quoted
+ * because contact IDs like "telegram:123" contain reserved characters, and
+ * quotes and backslashes inside them are escaped so a value can't end its quotes.
+ */
+export function conversationFilter(contactId: string, businessNumber: string): string {
+    const contact = quoteFilterValue(contactId);
+    const business = quoteFilterValue(businessNumber);
+    return `and(from_number.eq.${contact},to_number.eq.${business}),and(from_number.eq.${business},to_number.eq.${contact})`;
+}
+
+function quoteFilterValue(value: string): string {
+    return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Build the sender for a contact from an already loaded mapping row
+ */
+export function createChannelSender(contactId: string, mapping: ChannelMapping): ChannelSender {
+    return getChannelForContact(contactId).createSender(mapping);
+}
+
+/**
+ * Load the business's settings and build the sender for a contact
+ */
+export async function getChannelSender(businessNumber: string, contactId: string): Promise<ChannelSender | null> {
+    const { data: mapping, error } = await supabase
+        .from("phone_document_mapping")
+        .select(CHANNEL_MAPPING_COLUMNS)
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    if (error || !mapping) {
+        console.error("Error fetching channel settings for", businessNumber, error);
+        return null;
+    }
+
+    return createChannelSender(contactId, mapping);
+}
@@ -0,0 +1,223 @@
+import { getInteractiveOptions, InteractiveMessage } from "../interactive";
+import { InboundMessage, isRetryableStatus, OutboundMedia, SendMessageResult } from "../providers";
+import { Channel, ChannelMapping } from "./types";
+
+/**
+ * Telegram Bot API channel. Contacts are "telegram:<chat id>".
+ */
+
+// Overridable so the channel can be pointed at a local mock server
+const API_BASE_URL = process.env.TELEGRAM_API_BASE_URL || "https://api.telegram.org";
+
+const PREFIX = "telegram:";
+
+type TelegramFile = { file_id: string; file_name?: string; mime_type?: string };
+
+type TelegramMessage = {
+    message_id: number;
+    date: number;
+    chat: { id: number };
+    from?: { first_name?: string; last_name?: string; username?: string };
+    text?: string;
+    caption?: string;
+    photo?: TelegramFile[];
+    document?: TelegramFile;
+    voice?: TelegramFile;
+    audio?: TelegramFile;
+    video?: TelegramFile;
+};
+
+// Bot API method and field for each outbound media type
+const MEDIA_METHODS: Record<OutboundMedia["type"], { method: string; field: string }> = {
+    image: { method: "sendPhoto", field: "photo" },
+    document: { method: "sendDocument", field: "document" },
+    audio: { method: "sendAudio", field: "audio" },
+    video: { method: "sendVideo", field: "video" },
+};
+
+const VOICE_METHOD = { method: "sendVoice", field: "voice" };
+
+type TelegramUpdate = {
+    update_id: number;
+    message?: TelegramMessage;
+};
+
+class TelegramApiError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+    }
+}
+
+async function callBotApi(token: string, method: string, params: Record<string, unknown>) {
+    const response = await fetch(`${API_BASE_URL}/bot${token}/${method}`, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify(params),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.ok) {
+        throw new TelegramApiError(data?.description || `Telegram API returned ${response.status}`, response.status);
+    }
+
+    return data.result;
+}
+
+/**
+ * Register the webhook URL for a bot; Telegram echoes `secretToken`
+ * back in the X-Telegram-Bot-Api-Secret-Token header
+ */
+export async function setTelegramWebhook(token: string, url: string, secretToken: string): Promise<void> {
+    await callBotApi(token, "setWebhook", {
+        url,
+        secret_token: secretToken,
+        allowed_updates: ["message"],
+    });
+}
+
+function senderName(message: TelegramMessage): string | undefined {
+    const from = message.from;
+    if (!from) return undefined;
+    return [from.first_name, from.last_name].filter(Boolean).join(" ") || from.username;
+}
+
+export const telegramChannel: Channel = {
+    name: "telegram",
+
+    toContactId(externalId: string) {
+        return `${PREFIX}${externalId}`;
+    },
+
+    fromContactId(contactId: string) {
+        return contactId.startsWith(PREFIX) ? contactId.slice(PREFIX.length) : contactId;
+    },
+
+    parseInbound(body: unknown, businessNumber: string) {
+        const message = (body as TelegramUpdate | null)?.message;
+        if (!message) {
+            return [];
+        }
+
+        const receivedAt = new Date(message.date * 1000).toISOString();
+        const inbound: InboundMessage = {
+            messageId: `${PREFIX}${message.chat.id}:${message.message_id}`,
+            channel: "telegram",
+            from: telegramChannel.toContactId(String(message.chat.id)),
+            to: businessNumber,
+            receivedAt,
+            content: { contentType: "text", text: message.text },
+            whatsapp: { senderName: senderName(message) },
+            timestamp: receivedAt,
+            event: "MoMessage",
+            isin24window: true,
+            isResponded: false,
+        };
+
+        // Largest photo size is last; media URLs hold the Bot API file_id
+        const photo = message.photo?.[message.photo.length - 1];
+        const media: [string, TelegramFile | undefined][] = [
+            ["image", photo],
+            ["document", message.document],
+            ["voice", message.voice],
+            ["audio", message.audio],
+            ["video", message.video],
+        ];
+        const [mediaType, file] = media.find(([, f]) => !!f) || [];
+
+        if (mediaType && file) {
+            inbound.content = {
+                contentType: "media",
+                text: message.caption,
+                media: {
+                    type: mediaType,
+                    url: file.file_id,
+                    mimeType: file.mime_type || (mediaType === "image" ? "image/jpeg" : undefined),
+                    caption: message.caption,
+                    fileName: file.file_name,
+                },
+            };
+        }
+
+        return [inbound];
+    },
+
+    createSender(mapping: ChannelMapping) {
+        const token = mapping.telegram_bot_token;
+
+        async function send(
+            contactId: string,
+            method: string,
+            params: Record<string, unknown>
+        ): Promise<SendMessageResult> {
+            if (!token) {
+                return { success: false, error: "Telegram bot token not configured" };
+            }
+
+            try {
+                const result = await callBotApi(token, method, {
+                    chat_id: telegramChannel.fromContactId(contactId),
+                    ...params,
+                });
+
+                // No providerMessageId: Telegram has no delivery receipts
+                return { success: true, response: result };
+            } catch (error) {
+                console.error("Error sending Telegram message:", error);
+                const status = error instanceof TelegramApiError ? error.status : undefined;
+                return {
+                    success: false,
+                    error: error instanceof Error ? error.message : "Unknown error",
+                    statusCode: status,
+                    // No status means the request itself failed
+                    retryable: status === undefined || isRetryableStatus(status),
+                };
+            }
+        }
+
+        return {
+            channel: "telegram",
+            hasCredentials: !!token,
+
+            async sendText(contactId: string, text: string): Promise<SendMessageResult> {
+                return send(contactId, "sendMessage", { text });
+            },
+
+            // One-time reply keyboard: tapping a button sends its title back as a text message
+            async sendInteractive(contactId: string, message: InteractiveMessage): Promise<SendMessageResult> {
+                return send(contactId, "sendMessage", {
+                    text: message.footer ? `${message.body}\n\n${message.footer}` : message.body,
+                    reply_markup: {
+                        keyboard: getInteractiveOptions(message).map((option) => [{ text: option.title }]),
+                        one_time_keyboard: true,
+                        resize_keyboard: true,
+                    },
+                });
+            },
+
+            // Telegram fetches the file from the URL itself
+            async sendMedia(contactId: string, media: OutboundMedia): Promise<SendMessageResult> {
+                const { method, field } = media.voice ? VOICE_METHOD : MEDIA_METHODS[media.type];
+                return send(contactId, method, {
+                    [field]: media.url,
+                    ...(media.caption ? { caption: media.caption } : {}),
+                });
+            },
+
+            async downloadMedia(fileId: string) {
+                if (!token) {
+                    throw new Error("Telegram bot token not configured");
+                }
+
+                const file = await callBotApi(token, "getFile", { file_id: fileId });
+                const response = await fetch(`${API_BASE_URL}/file/bot${token}/${file.file_path}`);
+                if (!response.ok) {
+                    throw new Error(`Failed to download media: ${response.status}`);
+                }
+
+                return { buffer: await response.arrayBuffer(), contentType: response.headers.get("content-type") };
+            },
+        };
+    },
+};
@@ -0,0 +1,41 @@
+import type { InteractiveMessage } from "../interactive";
+import type { InboundMessage, OutboundMedia, SendMessageResult, TemplateMessage } from "../providers";
+
+/**
+ * Channel abstraction - the same business bot can answer on WhatsApp,
+ * Telegram and a web widget with one shared conversation history
+ */
+
+export type ChannelName = "whatsapp" | "telegram" | "web";
+
+// phone_document_mapping columns the channels need to send messages
+export type ChannelMapping = {
+    whatsapp_provider?: string | null;
+    auth_token?: string | null;
+    origin?: string | null;
+    meta_phone_number_id?: string | null;
+    telegram_bot_token?: string | null;
+};
+
+// Sends to contacts of one channel on behalf of one business
+export type ChannelSender = {
+    channel: ChannelName;
+    hasCredentials: boolean;
+    sendText(contactId: string, text: string): Promise<SendMessageResult>;
+    // Reply buttons / list menu, or the closest thing the channel supports
+    sendInteractive(contactId: string, message: InteractiveMessage): Promise<SendMessageResult>;
+    sendMedia(contactId: string, media: OutboundMedia): Promise<SendMessageResult>;
+    // Only channels with a session window (WhatsApp) send templates
+    sendTemplate?(contactId: string, template: TemplateMessage): Promise<SendMessageResult>;
+    downloadMedia(url: string): Promise<{ buffer: ArrayBuffer; contentType: string | null }>;
+};
+
+export interface Channel {
+    name: ChannelName;
+    // Conversation identity: the channel's own user/chat ID <-> our contact ID
+    toContactId(externalId: string): string;
+    fromContactId(contactId: string): string;
+    // Webhook/API body -> inbound messages addressed to the business
+    parseInbound(body: unknown, businessNumber: string): InboundMessage[];
+    createSender(mapping: ChannelMapping): ChannelSender;
+}
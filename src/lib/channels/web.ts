@@ -0,0 +1,89 @@
+import crypto from "crypto";
+import type { InboundMessage } from "../providers";
+import { Channel } from "./types";
+
+/**
+ * Generic HTTP channel for a web chat widget. Contacts are "web:<session id>".
+ * Replies are stored like any other outbound message and the widget polls for them.
+ */
+
+const PREFIX = "web:";
+
+// Session IDs come from the browser and end up in contact IDs and query filters
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type WebChannelMessage = {
+    session_id?: string;
+    text?: string;
+    sender_name?: string;
+    // Client-generated ID so retried requests aren't answered twice
+    client_message_id?: string;
+};
+
+export function isValidWebSessionId(value: unknown): value is string {
+    return typeof value === "string" && SESSION_ID_PATTERN.test(value);
+}
+
+export const webChannel: Channel = {
+    name: "web",
+
+    toContactId(externalId: string) {
+        return `${PREFIX}${externalId}`;
+    },
+
+    fromContactId(contactId: string) {
+        return contactId.startsWith(PREFIX) ? contactId.slice(PREFIX.length) : contactId;
+    },
+
+    parseInbound(body: unknown, businessNumber: string) {
+        const message = (body || {}) as WebChannelMessage;
+        if (!isValidWebSessionId(message.session_id) || !message.text?.trim()) {
+            return [];
+        }
+        if (message.client_message_id !== undefined && !isValidWebSessionId(message.client_message_id)) {
+            return [];
+        }
+
+        const now = new Date().toISOString();
+        const inbound: InboundMessage = {
+            messageId: `${PREFIX}${message.session_id}:${message.client_message_id || crypto.randomUUID()}`,
+            channel: "web",
+            from: webChannel.toContactId(message.session_id),
+            to: businessNumber,
+            receivedAt: now,
+            content: { contentType: "text", text: message.text.trim() },
+            whatsapp: { senderName: message.sender_name },
+            timestamp: now,
+            event: "MoMessage",
+            isin24window: true,
+            isResponded: false,
+        };
+
+        return [inbound];
+    },
+
+    createSender() {
+        return {
+            channel: "web",
+            hasCredentials: true,
+            // Nothing to push - the stored reply is what the widget reads
+            async sendText() {
+                return { success: true };
+            },
+            // The options are stored with the reply and returned to the widget when it polls
+            async sendInteractive() {
+                return { success: true };
+            },
+            async sendMedia() {
+                return { success: true };
+            },
+            async downloadMedia(url: string) {
+                const response = await fetch(url);
+                if (!response.ok) {
+                    throw new Error(`Failed to download media: ${response.status}`);
+                }
+                return { buffer: await response.arrayBuffer(), contentType: response.headers.get("content-type") };
+            },
+        };
+    },
+};
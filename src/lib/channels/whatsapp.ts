@@ -0,0 +1,38 @@
+import { getProvider } from "../providers";
+import { createWhatsAppClient } from "../whatsappSender";
+import { Channel, ChannelMapping } from "./types";
+
+/**
+ * WhatsApp via the number's provider (11za or Meta Cloud API).
+ * Contacts are identified by their bare phone number.
+ */
+export const whatsappChannel: Channel = {
+    name: "whatsapp",
+
+    toContactId(externalId: string) {
+        return externalId;
+    },
+
+    fromContactId(contactId: string) {
+        return contactId;
+    },
+
+    parseInbound(body: unknown) {
+        const isMetaBody = (body as { object?: string } | null)?.object === "whatsapp_business_account";
+        return getProvider(isMetaBody ? "meta" : "11za").parseInbound(body);
+    },
+
+    createSender(mapping: ChannelMapping) {
+        const client = createWhatsAppClient(mapping);
+
+        return {
+            channel: "whatsapp",
+            hasCredentials: client.hasCredentials,
+            sendText: (contactId, text) => client.sendText(contactId, text),
+            sendInteractive: (contactId, message) => client.sendInteractive(contactId, message),
+            sendMedia: (contactId, media) => client.sendMedia(contactId, media),
+            sendTemplate: (contactId, template) => client.sendTemplate(contactId, template),
+            downloadMedia: (url) => client.downloadMedia(url),
+        };
+    },
+};
@@ -0,0 +1,113 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * Opt-out registry per (business number, contact). Customers opt out and back
+ * in with STOP/START keywords (English, Hindi, Gujarati); every outbound send
+ * checks it in the outbound sender.
+ */
+
+export type ConsentStatus = "opted_out" | "opted_in";
+
+export type ConsentSource = "keyword" | "dashboard";
+
+export type ConsentKeyword = {
+    status: ConsentStatus;
+    language: "en" | "hi" | "gu";
+};
+
+// Whole-message matches only, so "don't stop the order" is not an opt-out.
+// Deliberately no "cancel"/"end": customers use those about orders.
+const KEYWORDS: Record<ConsentStatus, Record<ConsentKeyword["language"], string[]>> = {
+    opted_out: {
+        en: ["stop", "stop all", "stop messages", "unsubscribe", "opt out", "optout", "quit", "no more messages"],
+        hi: ["बंद", "बंद करो", "बंद करें", "बंद कीजिए", "रोको", "मत भेजो", "मैसेज मत भेजो", "band", "band karo", "bandh karo", "mat bhejo", "message mat bhejo"],
+        gu: ["બંધ", "બંધ કરો", "મેસેજ બંધ કરો", "ના મોકલો", "મોકલશો નહીં", "bandh", "bandh kari do", "na moklo"],
+    },
+    opted_in: {
+        en: ["start", "unstop", "subscribe", "opt in", "optin", "resume"],
+        hi: ["शुरू", "शुरू करो", "शुरू करें", "चालू", "चालू करो", "shuru", "shuru karo", "chalu karo"],
+        gu: ["શરૂ", "શરૂ કરો", "ચાલુ", "ચાલુ કરો", "chalu", "chalu karo", "sharu karo"],
+    },
+};
+
+const CONFIRMATIONS: Record<ConsentStatus, Record<ConsentKeyword["language"], string>> = {
+    opted_out: {
+        en: "You've been unsubscribed and won't receive any more messages from us. Reply START to subscribe again.",
+        hi: "आपको अनसब्सक्राइब कर दिया गया है, अब आपको हमारी ओर से कोई मैसेज नहीं मिलेगा। दोबारा जुड़ने के लिए START भेजें।",
+        gu: "તમને અનસબ્સ્ક્રાઇબ કરી દેવામાં આવ્યા છે, હવે તમને અમારા તરફથી કોઈ મેસેજ નહીં મળે. ફરી જોડાવા માટે START મોકલો.",
+    },
+    opted_in: {
+        en: "Welcome back! You'll receive messages from us again. Reply STOP at any time to unsubscribe.",
+        hi: "वापसी पर स्वागत है! अब आपको हमारे मैसेज फिर से मिलेंगे। कभी भी अनसब्सक्राइब करने के लिए STOP भेजें।",
+        gu: "ફરી સ્વાગત છે! હવે તમને અમારા મેસેજ ફરીથી મળશે. ક્યારેય પણ અનસબ્સ્ક્રાઇબ કરવા STOP મોકલો.",
+    },
+};
+
+// Lowercased, without punctuation or emoji, single-spaced
+export function normalizeKeyword(text: string): string {
+    return text
+        .normalize("NFC")
+        .toLowerCase()
+        .replace(/[\p{P}\p{S}]+/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+const KEYWORD_LOOKUP = new Map<string, ConsentKeyword>();
+for (const [status, languages] of Object.entries(KEYWORDS) as [ConsentStatus, Record<ConsentKeyword["language"], string[]>][]) {
+    for (const [language, keywords] of Object.entries(languages) as [ConsentKeyword["language"], string[]][]) {
+        for (const keyword of keywords) {
+            KEYWORD_LOOKUP.set(normalizeKeyword(keyword), { status, language });
+        }
+    }
+}
+
+/**
+ * STOP/START keyword the whole message consists of, if any
+ */
+export function detectConsentKeyword(text: string | null | undefined): ConsentKeyword | null {
+    return text ? KEYWORD_LOOKUP.get(normalizeKeyword(text)) || null : null;
+}
+
+export function getConsentConfirmation(keyword: ConsentKeyword): string {
+    return CONFIRMATIONS[keyword.status][keyword.language];
+}
+
+export async function isOptedOut(businessNumber: string, contactId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from("contact_consent")
+        .select("status")
+        .eq("business_number", businessNumber)
+        .eq("contact_id", contactId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load consent: ${error.message}`);
+    }
+
+    return data?.status === "opted_out";
+}
+
+export async function setConsent(
+    businessNumber: string,
+    contactId: string,
+    status: ConsentStatus,
+    options: { source: ConsentSource; keyword?: string | null }
+): Promise<void> {
+    const { error } = await supabase
+        .from("contact_consent")
+        .upsert({
+            business_number: businessNumber,
+            contact_id: contactId,
+            status,
+            source: options.source,
+            keyword: options.keyword || null,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: "business_number,contact_id" });
+
+    if (error) {
+        throw new Error(`Failed to update consent: ${error.message}`);
+    }
+
+    console.log(`Consent for ${contactId} on ${businessNumber}: ${status} (${options.source})`);
+}
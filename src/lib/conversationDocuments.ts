@@ -0,0 +1,139 @@
+import { supabase } from "./supabaseClient";
+import { extractPdfText } from "./pdf";
+import { chunkText } from "./chunk";
+import { embedBatch } from "./embeddings";
+import { ocrDocument, ocrImage } from "./ocr";
+
+/**
+ * Documents a customer sends in a chat (brochures, quotations, invoices).
+ * They are only used to answer follow-ups in the same conversation and never
+ * mixed into the business's shared knowledge base.
+ */
+
+// PDFs with less extractable text than this are treated as scanned and OCR'd
+const MIN_PDF_TEXT_LENGTH = 50;
+
+export type ConversationDocumentChunk = {
+    id: string;
+    document_id: string;
+    file_name: string | null;
+    content: string;
+    similarity: number;
+};
+
+/**
+ * Extract text from a document: unpdf for PDFs, with Mistral OCR as fallback
+ * for scanned PDFs and for other formats
+ */
+export async function extractDocumentText(
+    buffer: ArrayBuffer,
+    mimeType: string,
+    fileName: string,
+    mistralApiKey?: string | null
+): Promise<{ text: string; method: string }> {
+    const isPdf = mimeType === "application/pdf" || fileName.toLowerCase().endsWith(".pdf");
+
+    if (isPdf) {
+        try {
+            const text = (await extractPdfText(buffer)).trim();
+            if (text.length >= MIN_PDF_TEXT_LENGTH) {
+                return { text, method: "pdf-text" };
+            }
+            console.log("PDF has little embedded text, falling back to OCR");
+        } catch (error) {
+            console.error("PDF text extraction failed, falling back to OCR:", error);
+        }
+    }
+
+    if (!mistralApiKey) {
+        throw new Error("Mistral API key (custom or default) is not configured for document OCR");
+    }
+
+    const dataUrl = `data:${mimeType};base64,${Buffer.from(buffer).toString("base64")}`;
+    const text = mimeType.startsWith("image/")
+        ? await ocrImage(dataUrl, mistralApiKey)
+        : await ocrDocument(dataUrl, mistralApiKey, fileName);
+
+    return { text: text.trim(), method: "mistral-ocr" };
+}
+
+/**
+ * Store a document and its embedded chunks for one conversation
+ */
+export async function storeConversationDocument(params: {
+    businessNumber: string;
+    contactNumber: string;
+    messageId: string;
+    fileName: string;
+    mimeType: string;
+    text: string;
+    extractionMethod: string;
+    mistralApiKey?: string | null;
+}): Promise<string> {
+    const { data: document, error: documentError } = await supabase
+        .from("conversation_documents")
+        .insert({
+            business_number: params.businessNumber,
+            contact_number: params.contactNumber,
+            message_id: params.messageId,
+            file_name: params.fileName,
+            mime_type: params.mimeType,
+            content: params.text,
+            extraction_method: params.extractionMethod,
+        })
+        .select("id")
+        .single();
+
+    if (documentError) {
+        throw documentError;
+    }
+
+    const chunks = chunkText(params.text, 1500).filter((c) => c.trim().length > 0);
+
+    if (chunks.length > 0) {
+        const embeddings = await embedBatch(chunks, 3, params.mistralApiKey);
+
+        const { error: chunkError } = await supabase
+            .from("conversation_document_chunks")
+            .insert(chunks.map((chunk, i) => ({
+                document_id: document.id,
+                business_number: params.businessNumber,
+                contact_number: params.contactNumber,
+                content: chunk,
+                embedding: embeddings[i],
+            })));
+
+        if (chunkError) {
+            // Don't leave a document behind that can never be retrieved
+            await supabase.from("conversation_documents").delete().eq("id", document.id);
+            throw chunkError;
+        }
+    }
+
+    console.log(`Stored conversation document "${params.fileName}" with ${chunks.length} chunks`);
+    return document.id as string;
+}
+
+/**
+ * Retrieve the most relevant chunks of documents shared in this conversation
+ */
+export async function retrieveConversationDocumentChunks(
+    queryEmbedding: number[],
+    businessNumber: string,
+    contactNumber: string,
+    limit = 3
+): Promise<ConversationDocumentChunk[]> {
+    const { data, error } = await supabase.rpc("match_conversation_document_chunks", {
+        query_embedding: queryEmbedding,
+        match_count: limit,
+        target_business: businessNumber,
+        target_contact: contactNumber,
+    });
+
+    if (error) {
+        console.error("VECTOR SEARCH ERROR for conversation documents:", error);
+        return [];
+    }
+
+    return (data || []) as ConversationDocumentChunk[];
+}
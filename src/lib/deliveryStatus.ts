@@ -0,0 +1,51 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * Delivery and read receipts (DLRs) for outbound messages
+ */
+
+export type DeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
+export type DeliveryReceipt = {
+    providerMessageId: string;
+    status: DeliveryStatus;
+    occurredAt: string;
+    error?: string;
+};
+
+// Provider spellings of each delivery state
+const STATUS_ALIASES: Record<string, DeliveryStatus> = {
+    sent: "sent",
+    submitted: "sent",
+    delivered: "delivered",
+    read: "read",
+    seen: "read",
+    failed: "failed",
+    undelivered: "failed",
+    rejected: "failed",
+    error: "failed",
+};
+
+export function normalizeDeliveryStatus(raw: unknown): DeliveryStatus | null {
+    if (typeof raw !== "string") return null;
+    return STATUS_ALIASES[raw.trim().toLowerCase()] || null;
+}
+
+/**
+ * Record a receipt on the matching outbound message.
+ * Returns the number of messages updated (0 if the send isn't stored yet).
+ */
+export async function applyDeliveryReceipt(receipt: DeliveryReceipt): Promise<number> {
+    const { data, error } = await supabase.rpc("apply_message_status", {
+        p_provider_message_id: receipt.providerMessageId,
+        p_status: receipt.status,
+        p_at: receipt.occurredAt,
+        p_error: receipt.error || null,
+    });
+
+    if (error) {
+        throw new Error(`Failed to apply delivery receipt: ${error.message}`);
+    }
+
+    return typeof data === "number" ? data : 0;
+}
@@ -1,7 +1,13 @@
 import { google } from "googleapis";
 import createGoogleJwt from "./googleAuth";
 
-const auth = createGoogleJwt(["https://www.googleapis.com/auth/spreadsheets.readonly"]);
+// Read/write: lead sync appends to the owner's sheets
+const auth = createGoogleJwt(["https://www.googleapis.com/auth/spreadsheets"]);
+
+// A1 range on the given tab, quoted so names with spaces work
+function tabRange(tab: string, range: string): string {
+  return `'${tab.replace(/'/g, "''")}'!${range}`;
+}
 
 export async function readGoogleSheet(sheetId: string, range: string = "Sheet1"): Promise<any[][]> {
   const sheets = google.sheets({ version: "v4", auth });
@@ -22,3 +28,92 @@ export async function readGoogleSheetAsStrings(sheetId: string): Promise<string[
     .map(r => r.join(" ").trim())
     .filter(Boolean);
 }
+
+/**
+ * Make sure the tab exists and its first row holds `headers`
+ */
+export async function ensureGoogleSheetHeader(sheetId: string, tab: string, headers: string[]): Promise<void> {
+  const sheets = google.sheets({ version: "v4", auth });
+
+  const spreadsheet = await sheets.spreadsheets.get({
+    spreadsheetId: sheetId,
+    fields: "sheets.properties.title",
+  });
+  const hasTab = (spreadsheet.data.sheets || []).some(sheet => sheet.properties?.title === tab);
+
+  if (!hasTab) {
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId: sheetId,
+      requestBody: { requests: [{ addSheet: { properties: { title: tab } } }] },
+    });
+  }
+
+  const current = hasTab ? (await readGoogleSheet(sheetId, tabRange(tab, "1:1")))[0] || [] : [];
+  if (current.join("\u0000") === headers.join("\u0000")) {
+    return;
+  }
+
+  await sheets.spreadsheets.values.update({
+    spreadsheetId: sheetId,
+    range: tabRange(tab, "A1"),
+    valueInputOption: "RAW",
+    requestBody: { values: [headers] },
+  });
+}
+
+/**
+ * Add a row after the last one in the tab. Returns its (1-based) row number.
+ * Values are written as plain text so customer input is never run as a formula.
+ */
+export async function appendGoogleSheetRow(sheetId: string, tab: string, values: string[]): Promise<number> {
+  const sheets = google.sheets({ version: "v4", auth });
+
+  const res = await sheets.spreadsheets.values.append({
+    spreadsheetId: sheetId,
+    range: tabRange(tab, "A1"),
+    valueInputOption: "RAW",
+    insertDataOption: "INSERT_ROWS",
+    requestBody: { values: [values] },
+  });
+
+  // e.g. "'Leads'!A12:H12"
+  const row = Number(res.data.updates?.updatedRange?.match(/![A-Z]+(\d+)/)?.[1]);
+  if (!row) {
+    throw new Error("Google Sheets did not report where the row was written");
+  }
+
+  return row;
+}
+
+// Column letter for a 0-based index: 0 -> A, 26 -> AA
+function columnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Row number (1-based, below the header) whose cell in `column` (0-based) is
+ * `value`, or null. Rows move when the sheet is sorted or edited, so rows
+ * are looked up by a key each time rather than remembered.
+ */
+export async function findGoogleSheetRow(sheetId: string, tab: string, column: number, value: string): Promise<number | null> {
+  const letter = columnLetter(column);
+  const cells = await readGoogleSheet(sheetId, tabRange(tab, `${letter}2:${letter}`));
+  const index = cells.findIndex(cell => String(cell[0] ?? "") === value);
+
+  return index === -1 ? null : index + 2;
+}
+
+export async function updateGoogleSheetRow(sheetId: string, tab: string, row: number, values: string[]): Promise<void> {
+  const sheets = google.sheets({ version: "v4", auth });
+
+  await sheets.spreadsheets.values.update({
+    spreadsheetId: sheetId,
+    range: tabRange(tab, `A${row}`),
+    valueInputOption: "RAW",
+    requestBody: { values: [values] },
+  });
+}
@@ -0,0 +1,325 @@
+import { supabase } from "./supabaseClient";
+import { normalizeKeyword } from "./consent";
+import { OutboundMessage, sendOutboundMessage } from "./outboundSender";
+import { buildTemplateMessage, getTemplateByName } from "./templates";
+import { renderTemplateParameters } from "./sessionWindow";
+
+/**
+ * Human handoff per (business number, contact): while a conversation is
+ * paused the bot stays quiet and a person answers. Paused by the customer
+ * asking for a human, by the LLM spotting an escalation, or from the dashboard.
+ */
+
+export type HandoffReason = "keyword" | "llm" | "dashboard";
+
+export type HandoffLanguage = "en" | "hi" | "gu";
+
+export type ConversationHandoff = {
+    id: string;
+    business_number: string;
+    contact_id: string;
+    status: "paused" | "active";
+    reason: HandoffReason;
+    assigned_agent: string | null;
+    note: string | null;
+    paused_at: string;
+    last_agent_activity_at: string | null;
+    owner_notified_at?: string | null;
+    owner_notify_error?: string | null;
+};
+
+// Phrases found anywhere in the message ("can I talk to a human please")
+const PHRASES: Record<HandoffLanguage, string[]> = {
+    en: ["talk to human", "talk to a human", "speak to a human", "talk to a person", "speak to a person", "talk to someone", "speak to someone", "real person", "human agent", "live agent"],
+    hi: ["इंसान से बात", "किसी इंसान से", "एजेंट से बात", "किसी से बात करवाओ", "insaan se baat", "insan se baat", "agent se baat", "kisi se baat karao", "kisi se baat karwao"],
+    gu: ["માણસ સાથે વાત", "એજન્ટ સાથે વાત", "કોઈ સાથે વાત કરાવો", "manas sathe vaat", "agent sathe vaat"],
+};
+
+// Single words only count as the whole message: "agent" alone asks for one,
+// "my travel agent booked it" doesn't
+const WORDS: Record<HandoffLanguage, string[]> = {
+    en: ["human", "agent", "person", "operator"],
+    hi: ["इंसान", "एजेंट", "insaan"],
+    gu: ["માણસ", "એજન્ટ", "manas"],
+};
+
+// Teams that only count when asked for: the whole message ("customer care") or
+// after a request ("connect me to customer care"), not "what's your customer care number?"
+const TEAMS: Record<HandoffLanguage, string[]> = {
+    en: ["customer care", "customer service", "customer support", "representative", "a representative"],
+    hi: [],
+    gu: [],
+};
+
+const TEAM_REQUESTS = ["talk to", "speak to", "talk with", "speak with", "connect me to", "connect me with", "transfer me to", "put me through to"];
+
+const TEAM_ARTICLES = ["", "the ", "your "];
+
+const ACKNOWLEDGEMENTS: Record<HandoffLanguage, string> = {
+    en: "Sure! 🙋 I've asked a member of our team to take over. They'll reply here as soon as they can.",
+    hi: "ज़रूर! 🙋 मैंने हमारी टीम के एक सदस्य से बात करने को कहा है। वे जल्द से जल्द यहीं जवाब देंगे।",
+    gu: "ચોક્કસ! 🙋 મેં અમારી ટીમના એક સભ્યને વાત સંભાળવા કહ્યું છે. તેઓ શક્ય તેટલી જલદી અહીં જવાબ આપશે.",
+};
+
+const REASON_LABELS: Record<HandoffReason, string> = {
+    keyword: "asked for a person",
+    llm: "the assistant flagged the conversation",
+    dashboard: "paused from the dashboard",
+};
+
+const HANDOFF_MARKER = /\[\[HANDOFF\]\]/gi;
+
+function isTeamRequest(normalized: string, padded: string, team: string): boolean {
+    if (normalized === team) return true;
+
+    return TEAM_REQUESTS.some(request =>
+        TEAM_ARTICLES.some(article => padded.includes(` ${request} ${article}${team} `))
+    );
+}
+
+/**
+ * Language of the customer's request for a person, if the message is one
+ */
+export function detectHandoffRequest(text: string | null | undefined): HandoffLanguage | null {
+    if (!text) return null;
+
+    const normalized = normalizeKeyword(text);
+    const padded = ` ${normalized} `;
+
+    for (const language of Object.keys(PHRASES) as HandoffLanguage[]) {
+        if (WORDS[language].some(word => normalizeKeyword(word) === normalized)) {
+            return language;
+        }
+        if (PHRASES[language].some(phrase => padded.includes(` ${normalizeKeyword(phrase)} `))) {
+            return language;
+        }
+        if (TEAMS[language].some(team => isTeamRequest(normalized, padded, normalizeKeyword(team)))) {
+            return language;
+        }
+    }
+
+    return null;
+}
+
+export function getHandoffAcknowledgement(language: HandoffLanguage): string {
+    return ACKNOWLEDGEMENTS[language];
+}
+
+/**
+ * Strip the [[HANDOFF]] marker the model appends when a person should take over
+ */
+export function extractHandoffMarker(text: string): { text: string; handoff: boolean } {
+    const handoff = HANDOFF_MARKER.test(text);
+    HANDOFF_MARKER.lastIndex = 0;
+
+    return {
+        text: handoff ? text.replace(HANDOFF_MARKER, "").trim() : text,
+        handoff,
+    };
+}
+
+async function getHandoffSettings(businessNumber: string) {
+    const { data: mapping } = await supabase
+        .from("phone_document_mapping")
+        .select("handoff_notify_number, handoff_auto_resume_minutes, handoff_template_name, handoff_template_params")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    return {
+        notifyNumber: (mapping?.handoff_notify_number as string | null | undefined)?.trim() || null,
+        autoResumeMinutes: (mapping?.handoff_auto_resume_minutes as number | null | undefined) || null,
+        templateName: (mapping?.handoff_template_name as string | null | undefined) || null,
+        templateParams: (mapping?.handoff_template_params as Record<string, string> | null | undefined) || null,
+    };
+}
+
+/**
+ * The conversation's handoff while the bot is paused, or null when the bot
+ * answers. A handoff idle for longer than the number's auto-resume period is
+ * handed back to the bot here.
+ */
+export async function getActiveHandoff(businessNumber: string, contactId: string): Promise<ConversationHandoff | null> {
+    const { data, error } = await supabase
+        .from("conversation_handoffs")
+        .select("id, business_number, contact_id, status, reason, assigned_agent, note, paused_at, last_agent_activity_at")
+        .eq("business_number", businessNumber)
+        .eq("contact_id", contactId)
+        .eq("status", "paused")
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load handoff: ${error.message}`);
+    }
+    if (!data) {
+        return null;
+    }
+
+    const handoff = data as ConversationHandoff;
+    const { autoResumeMinutes } = await getHandoffSettings(businessNumber);
+    if (autoResumeMinutes) {
+        const lastActivity = new Date(handoff.last_agent_activity_at || handoff.paused_at).getTime();
+        if (Date.now() - lastActivity > autoResumeMinutes * 60 * 1000) {
+            console.log(`No agent activity for ${autoResumeMinutes} min, bot resumes ${contactId} on ${businessNumber}`);
+            await resumeConversation(businessNumber, contactId);
+            return null;
+        }
+    }
+
+    return handoff;
+}
+
+/**
+ * Pause the bot for a conversation. Returns false when it was already paused;
+ * the owner is only notified when a customer or the LLM triggered a new handoff.
+ */
+export async function pauseConversation(
+    businessNumber: string,
+    contactId: string,
+    reason: HandoffReason,
+    options: { note?: string | null; assignedAgent?: string | null } = {}
+): Promise<boolean> {
+    const { data: existing, error: fetchError } = await supabase
+        .from("conversation_handoffs")
+        .select("status")
+        .eq("business_number", businessNumber)
+        .eq("contact_id", contactId)
+        .maybeSingle();
+
+    if (fetchError) {
+        throw new Error(`Failed to load handoff: ${fetchError.message}`);
+    }
+    if (existing?.status === "paused") {
+        return false;
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from("conversation_handoffs")
+        .upsert({
+            business_number: businessNumber,
+            contact_id: contactId,
+            status: "paused",
+            reason,
+            assigned_agent: options.assignedAgent || null,
+            note: options.note || null,
+            paused_at: now,
+            last_agent_activity_at: null,
+            resumed_at: null,
+            owner_notified_at: null,
+            owner_notify_error: null,
+            updated_at: now,
+        }, { onConflict: "business_number,contact_id" });
+
+    if (error) {
+        throw new Error(`Failed to pause conversation: ${error.message}`);
+    }
+
+    console.log(`Bot paused for ${contactId} on ${businessNumber} (${reason})`);
+
+    if (reason !== "dashboard") {
+        await notifyOwner(businessNumber, contactId, reason, options.note);
+    }
+
+    return true;
+}
+
+export async function resumeConversation(businessNumber: string, contactId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from("conversation_handoffs")
+        .update({ status: "active", resumed_at: now, updated_at: now })
+        .eq("business_number", businessNumber)
+        .eq("contact_id", contactId)
+        .eq("status", "paused");
+
+    if (error) {
+        throw new Error(`Failed to resume conversation: ${error.message}`);
+    }
+
+    console.log(`Bot resumed for ${contactId} on ${businessNumber}`);
+}
+
+/**
+ * An agent acted on a paused conversation: restarts the auto-resume clock
+ */
+export async function recordAgentActivity(businessNumber: string, contactId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from("conversation_handoffs")
+        .update({ last_agent_activity_at: now, updated_at: now })
+        .eq("business_number", businessNumber)
+        .eq("contact_id", contactId)
+        .eq("status", "paused");
+
+    if (error) {
+        throw new Error(`Failed to record agent activity: ${error.message}`);
+    }
+}
+
+// Delivery outcome of the owner alert, shown with the handoff on the dashboard
+async function recordOwnerNotification(businessNumber: string, contactId: string, error: string | null) {
+    const { error: updateError } = await supabase
+        .from("conversation_handoffs")
+        .update({
+            owner_notified_at: error ? null : new Date().toISOString(),
+            owner_notify_error: error,
+        })
+        .eq("business_number", businessNumber)
+        .eq("contact_id", contactId);
+
+    if (updateError) {
+        console.error("Error recording handoff notification:", updateError);
+    }
+}
+
+// A failed notification never undoes the pause; the handoff is on the dashboard either way
+async function notifyOwner(businessNumber: string, contactId: string, reason: HandoffReason, note?: string | null) {
+    try {
+        const settings = await getHandoffSettings(businessNumber);
+        if (!settings.notifyNumber) {
+            console.log(`No handoff notify number for ${businessNumber}, handoff is on the dashboard only`);
+            return;
+        }
+
+        let text = `🙋 ${contactId} needs a person: ${REASON_LABELS[reason]}.`;
+        if (note) {
+            text += `\n\nLast message: "${note.slice(0, 500)}"`;
+        }
+        text += `\n\nThe bot is paused for this conversation until you resume it from the dashboard.`;
+
+        // The handoff template reaches the owner outside their 24-hour window;
+        // the customer-facing window fallback never stands in for it
+        const message: OutboundMessage = { text };
+        if (settings.templateName) {
+            const template = await getTemplateByName(businessNumber, settings.templateName);
+            if (template) {
+                message.template = buildTemplateMessage(template, renderTemplateParameters(settings.templateParams, {
+                    message: text,
+                    customer_name: contactId,
+                    business_number: businessNumber,
+                }));
+            } else {
+                console.error(`Handoff template "${settings.templateName}" is not registered for ${businessNumber}`);
+            }
+        }
+
+        const result = await sendOutboundMessage({
+            businessNumber,
+            contactId: settings.notifyNumber,
+            message,
+            source: "handoff_notice",
+            messageId: `handoff_${contactId}_${Date.now()}`,
+            rawPayload: { isHandoffNotice: true, handoffContact: contactId },
+            windowFallback: false,
+        });
+
+        if (!result.success) {
+            console.error(`Failed to notify ${settings.notifyNumber} of handoff:`, result.error);
+        }
+        await recordOwnerNotification(businessNumber, contactId, result.success ? null : result.error || "Unknown error");
+    } catch (err) {
+        console.error("Error notifying owner of handoff:", err);
+        await recordOwnerNotification(businessNumber, contactId, err instanceof Error ? err.message : "Unknown error");
+    }
+}
@@ -0,0 +1,175 @@
+import { supabase } from "./supabaseClient";
+import { conversationFilter } from "./channels";
+import { OutboundResult, sendOutboundMessage } from "./outboundSender";
+import { pauseConversation, recordAgentActivity, resumeConversation } from "./handoff";
+
+/**
+ * Agent inbox: a business number's conversations with unread counts and
+ * bot/agent status, threads, and manual replies sent by agents
+ */
+
+export type InboxMessage = {
+    message_id: string;
+    from_number: string;
+    to_number: string;
+    event_type: "MoMessage" | "MtMessage";
+    channel: string | null;
+    content_type: string | null;
+    content_text: string | null;
+    sender_name: string | null;
+    received_at: string;
+    delivery_status: string | null;
+};
+
+export type InboxConversation = {
+    contact_id: string;
+    channel: string | null;
+    contact_name: string | null;
+    last_message: InboxMessage;
+    unread_count: number;
+    // "agent" while the bot is paused for a handoff
+    status: "bot" | "agent";
+    assigned_agent: string | null;
+};
+
+const MESSAGE_COLUMNS = "message_id, from_number, to_number, event_type, channel, content_type, content_text, sender_name, received_at, delivery_status";
+
+// Conversations are built from this many of the number's latest messages
+const MAX_SCANNED_MESSAGES = 1000;
+
+/**
+ * Conversations of a business number, most recently active first
+ */
+export async function listConversations(businessNumber: string): Promise<InboxConversation[]> {
+    const [messagesResult, readsResult, handoffsResult] = await Promise.all([
+        supabase
+            .from("whatsapp_messages")
+            .select(MESSAGE_COLUMNS)
+            .or(`to_number.eq."${businessNumber}",from_number.eq."${businessNumber}"`)
+            .order("received_at", { ascending: false })
+            .limit(MAX_SCANNED_MESSAGES),
+        supabase
+            .from("conversation_reads")
+            .select("contact_id, last_read_at")
+            .eq("business_number", businessNumber),
+        supabase
+            .from("conversation_handoffs")
+            .select("contact_id, assigned_agent")
+            .eq("business_number", businessNumber)
+            .eq("status", "paused"),
+    ]);
+
+    if (messagesResult.error) {
+        throw new Error(`Failed to load messages: ${messagesResult.error.message}`);
+    }
+
+    const lastReadAt = new Map((readsResult.data || []).map(read => [read.contact_id, read.last_read_at as string]));
+    const handoffs = new Map((handoffsResult.data || []).map(handoff => [handoff.contact_id, handoff.assigned_agent as string | null]));
+    const conversations = new Map<string, InboxConversation>();
+
+    // Newest first: the first message seen for a contact is its last message
+    for (const message of (messagesResult.data || []) as InboxMessage[]) {
+        const inbound = message.event_type === "MoMessage";
+        const contactId = inbound ? message.from_number : message.to_number;
+
+        let conversation = conversations.get(contactId);
+        if (!conversation) {
+            conversation = {
+                contact_id: contactId,
+                channel: message.channel,
+                contact_name: null,
+                last_message: message,
+                unread_count: 0,
+                status: handoffs.has(contactId) ? "agent" : "bot",
+                assigned_agent: handoffs.get(contactId) || null,
+            };
+            conversations.set(contactId, conversation);
+        }
+
+        if (inbound) {
+            conversation.contact_name ||= message.sender_name;
+
+            const readAt = lastReadAt.get(contactId);
+            if (!readAt || message.received_at > readAt) {
+                conversation.unread_count++;
+            }
+        }
+    }
+
+    return [...conversations.values()];
+}
+
+/**
+ * One conversation's messages, oldest first
+ */
+export async function getConversationMessages(
+    businessNumber: string,
+    contactId: string,
+    limit = 200
+): Promise<InboxMessage[]> {
+    const { data, error } = await supabase
+        .from("whatsapp_messages")
+        .select(MESSAGE_COLUMNS)
+        .or(conversationFilter(contactId, businessNumber))
+        .order("received_at", { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to load conversation: ${error.message}`);
+    }
+
+    return ((data || []) as InboxMessage[]).reverse();
+}
+
+export async function markConversationRead(businessNumber: string, contactId: string): Promise<void> {
+    const { error } = await supabase
+        .from("conversation_reads")
+        .upsert({
+            business_number: businessNumber,
+            contact_id: contactId,
+            last_read_at: new Date().toISOString(),
+        }, { onConflict: "business_number,contact_id" });
+
+    if (error) {
+        throw new Error(`Failed to mark conversation read: ${error.message}`);
+    }
+}
+
+/**
+ * Send an agent's manual reply. The bot is paused for the conversation so it
+ * doesn't answer over the agent; resuming it is up to the agent (or the
+ * number's auto-resume period). A reply that doesn't go out (opted out,
+ * window closed with no template...) leaves the conversation as it was.
+ */
+export async function sendAgentReply(
+    businessNumber: string,
+    contactId: string,
+    text: string,
+    agentName: string
+): Promise<OutboundResult> {
+    // Paused before sending so the bot can't reply in between
+    const paused = await pauseConversation(businessNumber, contactId, "dashboard", { assignedAgent: agentName });
+
+    const result = await sendOutboundMessage({
+        businessNumber,
+        contactId,
+        message: { text },
+        source: "agent",
+        messageId: `agent_${crypto.randomUUID()}`,
+        rawPayload: { isAgentReply: true, agent: agentName },
+        senderName: agentName,
+    });
+
+    await markConversationRead(businessNumber, contactId);
+
+    if (!result.success) {
+        if (paused) {
+            await resumeConversation(businessNumber, contactId);
+        }
+        return result;
+    }
+
+    await recordAgentActivity(businessNumber, contactId);
+
+    return result;
+}
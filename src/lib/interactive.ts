@@ -0,0 +1,140 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * Interactive messages: reply buttons (up to 3 choices) and list menus (up to 10)
+ */
+
+export type InteractiveOption = {
+    id: string;
+    title: string;
+    description?: string;
+};
+
+export type InteractiveMessage =
+    | { type: "button"; body: string; footer?: string; buttons: InteractiveOption[] }
+    | {
+        type: "list";
+        body: string;
+        footer?: string;
+        buttonText: string;
+        sections: Array<{ title?: string; rows: InteractiveOption[] }>;
+    };
+
+// A customer's choice, parsed from the webhook or matched against the offered options
+export type InteractiveReply = {
+    id: string;
+    title: string;
+};
+
+export const MAX_BUTTONS = 3;
+export const MAX_LIST_ROWS = 10;
+
+// The LLM offers choices by ending its reply with e.g. [[OPTIONS: Pricing | Book demo | Talk to human]]
+const OPTIONS_MARKER = /\[\[OPTIONS:\s*([^\]]*)\]\]/i;
+
+export function optionId(title: string): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+    return `opt_${slug || "choice"}`.slice(0, 200);
+}
+
+/**
+ * Buttons for up to 3 options, a list menu for more (extra options are dropped)
+ */
+export function buildInteractiveMessage(
+    body: string,
+    options: InteractiveOption[],
+    buttonText = "Choose an option"
+): InteractiveMessage {
+    if (options.length <= MAX_BUTTONS) {
+        return { type: "button", body, buttons: options };
+    }
+
+    return {
+        type: "list",
+        body,
+        buttonText,
+        sections: [{ rows: options.slice(0, MAX_LIST_ROWS) }],
+    };
+}
+
+export function getInteractiveOptions(message: InteractiveMessage): InteractiveOption[] {
+    return message.type === "button"
+        ? message.buttons
+        : message.sections.flatMap((section) => section.rows);
+}
+
+/**
+ * Plain-text version for channels without native interactive messages
+ */
+export function formatInteractiveAsText(message: InteractiveMessage): string {
+    const lines = getInteractiveOptions(message).map((option, i) =>
+        `${i + 1}. ${option.title}${option.description ? ` - ${option.description}` : ""}`
+    );
+
+    return [message.body, "", ...lines, "", message.footer || "Reply with the number of your choice."].join("\n");
+}
+
+/**
+ * Strip an [[OPTIONS: ...]] marker from LLM output
+ */
+export function extractOptionsMarker(text: string): { text: string; options: InteractiveOption[] } {
+    const match = text.match(OPTIONS_MARKER);
+    if (!match) {
+        return { text, options: [] };
+    }
+
+    const titles = match[1]
+        .split("|")
+        .map((title) => title.trim())
+        .filter(Boolean)
+        .slice(0, MAX_LIST_ROWS);
+
+    return {
+        text: text.replace(OPTIONS_MARKER, "").trim(),
+        options: titles.map((title) => ({ id: optionId(title), title })),
+    };
+}
+
+/**
+ * Match a typed reply ("2", "book demo") against the options that were offered
+ */
+export function matchInteractiveReply(text: string, options: InteractiveOption[]): InteractiveReply | null {
+    const reply = text.trim().toLowerCase();
+    if (!reply || options.length === 0) {
+        return null;
+    }
+
+    const index = Number(reply.replace(/[.)]$/, ""));
+    if (Number.isInteger(index) && index >= 1 && index <= options.length) {
+        const option = options[index - 1];
+        return { id: option.id, title: option.title };
+    }
+
+    const option = options.find((o) => o.title.toLowerCase() === reply || o.id === reply);
+    return option ? { id: option.id, title: option.title } : null;
+}
+
+/**
+ * Options offered in the last message we sent to the contact, if it was interactive
+ */
+export async function getLastOfferedOptions(
+    contactId: string,
+    businessNumber: string
+): Promise<InteractiveOption[]> {
+    const { data, error } = await supabase
+        .from("whatsapp_messages")
+        .select("raw_payload")
+        .eq("from_number", businessNumber)
+        .eq("to_number", contactId)
+        .eq("event_type", "MtMessage")
+        .order("received_at", { ascending: false })
+        .limit(1);
+
+    if (error) {
+        console.error("Error loading last outbound message:", error);
+        return [];
+    }
+
+    const interactive = data?.[0]?.raw_payload?.interactive as InteractiveMessage | undefined;
+    return interactive ? getInteractiveOptions(interactive) : [];
+}
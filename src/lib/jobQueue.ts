@@ -0,0 +1,173 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * Supabase-backed job queue with leases, retries and a dead-letter state
+ */
+
+export type JobStatus = "pending" | "processing" | "completed" | "dead";
+
+export type Job<T = Record<string, unknown>> = {
+    id: string;
+    job_type: string;
+    payload: T;
+    business_number: string | null;
+    dedupe_key: string | null;
+    status: JobStatus;
+    attempts: number;
+    max_attempts: number;
+    run_at: string;
+    locked_by: string | null;
+    locked_until: string | null;
+    last_error: string | null;
+    created_at: string;
+    updated_at: string;
+    completed_at: string | null;
+};
+
+export type EnqueueResult = {
+    success: boolean;
+    jobId?: string;
+    duplicate?: boolean;
+    error?: string;
+};
+
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Exponential backoff for the given attempt number (1-based)
+ */
+export function getRetryDelayMs(attempts: number): number {
+    return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Add a job to the queue. Jobs with an existing dedupe key are skipped.
+ */
+export async function enqueueJob(
+    jobType: string,
+    payload: Record<string, unknown>,
+    options: {
+        businessNumber?: string;
+        dedupeKey?: string;
+        runAt?: Date;
+        maxAttempts?: number;
+    } = {}
+): Promise<EnqueueResult> {
+    const { data, error } = await supabase
+        .from("webhook_jobs")
+        .insert([{
+            job_type: jobType,
+            payload,
+            business_number: options.businessNumber || null,
+            dedupe_key: options.dedupeKey || null,
+            run_at: (options.runAt || new Date()).toISOString(),
+            max_attempts: options.maxAttempts || 5,
+        }])
+        .select("id")
+        .single();
+
+    if (error) {
+        if (error.code === "23505") {
+            console.log(`Job already queued for dedupe key: ${options.dedupeKey}`);
+            return { success: true, duplicate: true };
+        }
+        console.error("Error enqueueing job:", error);
+        return { success: false, error: error.message };
+    }
+
+    return { success: true, jobId: data.id };
+}
+
+/**
+ * Claim due jobs for this worker. Claimed jobs are leased for `leaseSeconds`;
+ * if the worker dies, the job becomes claimable again once the lease expires.
+ */
+export async function claimJobs(workerId: string, limit = 5, leaseSeconds = 120): Promise<Job[]> {
+    const { data, error } = await supabase.rpc("claim_webhook_jobs", {
+        p_worker_id: workerId,
+        p_limit: limit,
+        p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) {
+        console.error("Error claiming jobs:", error);
+        throw error;
+    }
+
+    return (data || []) as Job[];
+}
+
+/**
+ * Mark a claimed job as completed
+ */
+export async function completeJob(job: Job): Promise<void> {
+    const { error } = await supabase
+        .from("webhook_jobs")
+        .update({
+            status: "completed",
+            locked_by: null,
+            locked_until: null,
+            completed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", job.id)
+        .eq("locked_by", job.locked_by);
+
+    if (error) {
+        console.error(`Error completing job ${job.id}:`, error);
+    }
+}
+
+/**
+ * Record a failed attempt. The job is rescheduled with backoff,
+ * or moved to the dead-letter state once attempts are exhausted.
+ */
+export async function failJob(job: Job, errorMessage: string): Promise<JobStatus> {
+    const isDead = job.attempts >= job.max_attempts;
+    const status: JobStatus = isDead ? "dead" : "pending";
+
+    const { error } = await supabase
+        .from("webhook_jobs")
+        .update({
+            status,
+            last_error: errorMessage,
+            locked_by: null,
+            locked_until: null,
+            run_at: new Date(Date.now() + getRetryDelayMs(job.attempts)).toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", job.id)
+        .eq("locked_by", job.locked_by);
+
+    if (error) {
+        console.error(`Error recording failure for job ${job.id}:`, error);
+    }
+
+    return status;
+}
+
+/**
+ * Put a failed or dead job back in the queue for immediate processing
+ */
+export async function retryJob(jobId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from("webhook_jobs")
+        .update({
+            status: "pending",
+            attempts: 0,
+            run_at: new Date().toISOString(),
+            locked_by: null,
+            locked_until: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", jobId)
+        .neq("status", "processing")
+        .select("id");
+
+    if (error) {
+        throw error;
+    }
+
+    return (data?.length || 0) > 0;
+}
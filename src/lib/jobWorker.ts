@@ -0,0 +1,90 @@
+import crypto from "crypto";
+import { claimJobs, completeJob, failJob, Job } from "./jobQueue";
+import { processInboundMessage, WhatsAppWebhookPayload } from "./webhookProcessor";
+import { applyDeliveryReceipt, DeliveryReceipt } from "./deliveryStatus";
+import { sendOutboundMessage, SendOutboundParams } from "./outboundSender";
+import { syncLeadToSheet } from "./leadSheetSync";
+
+type JobHandler = (job: Job, context: { isFinalAttempt: boolean }) => Promise<void>;
+
+const jobHandlers: Record<string, JobHandler> = {
+    inbound_message: (job, context) =>
+        processInboundMessage(job.payload as unknown as WhatsAppWebhookPayload, {
+            ...context,
+            claimant: `job:${job.id}`,
+        }),
+    delivery_receipt: async (job) => {
+        const updated = await applyDeliveryReceipt(job.payload as unknown as DeliveryReceipt);
+        if (updated === 0) {
+            throw new Error("No outbound message found for this provider message ID");
+        }
+    },
+    // Rate-limited sends; failures are retried and dead-lettered by the sender itself
+    outbound_send: async (job) => {
+        const params = job.payload as unknown as SendOutboundParams;
+        const result = await sendOutboundMessage(params);
+        if (!result.success) {
+            console.error(`Queued send to ${params.contactId} failed:`, result.error);
+        }
+    },
+    // Captured lead -> the number's Google Sheet; each attempt is in lead_sheet_sync_log
+    lead_sheet_sync: (job) => syncLeadToSheet(String(job.payload.leadId), job.attempts),
+};
+
+export type WorkerRunResult = {
+    claimed: number;
+    completed: number;
+    retried: number;
+    dead: number;
+};
+
+/**
+ * Claim and process due jobs until the queue is empty or the time budget runs out
+ */
+export async function runJobWorker(
+    options: { batchSize?: number; timeBudgetMs?: number } = {}
+): Promise<WorkerRunResult> {
+    const workerId = `worker_${crypto.randomUUID()}`;
+    const batchSize = options.batchSize || 5;
+    const deadline = Date.now() + (options.timeBudgetMs || 45 * 1000);
+    const result: WorkerRunResult = { claimed: 0, completed: 0, retried: 0, dead: 0 };
+
+    while (Date.now() < deadline) {
+        const jobs = await claimJobs(workerId, batchSize);
+        if (jobs.length === 0) break;
+
+        result.claimed += jobs.length;
+
+        for (const job of jobs) {
+            const handler = jobHandlers[job.job_type];
+
+            try {
+                if (!handler) {
+                    throw new Error(`No handler registered for job type: ${job.job_type}`);
+                }
+
+                // Lease expired after the last attempt - don't run it again
+                if (job.attempts > job.max_attempts) {
+                    throw new Error("Maximum attempts exceeded");
+                }
+
+                await handler(job, { isFinalAttempt: job.attempts >= job.max_attempts });
+                await completeJob(job);
+                result.completed++;
+            } catch (err) {
+                const message = err instanceof Error ? err.message : "Unknown error";
+                console.error(`Job ${job.id} (${job.job_type}) failed on attempt ${job.attempts}:`, message);
+
+                const status = await failJob(job, message);
+                if (status === "dead") {
+                    result.dead++;
+                } else {
+                    result.retried++;
+                }
+            }
+        }
+    }
+
+    console.log("Job worker run finished:", result);
+    return result;
+}
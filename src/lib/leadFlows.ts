@@ -0,0 +1,541 @@
+import { supabase } from "./supabaseClient";
+import { normalizeKeyword } from "./consent";
+import { detectLanguage } from "./autoResponder";
+import { buildInteractiveMessage, matchInteractiveReply, optionId, InteractiveOption, MAX_LIST_ROWS } from "./interactive";
+import { OutboundMessage, sendOutboundMessage } from "./outboundSender";
+import { completeText, getLlmKeys, LlmKeys } from "./llm";
+import { queueLeadSheetSync } from "./leadSheetSync";
+
+/**
+ * Lead-capture flows: a per-number script of questions (name, requirement,
+ * budget...) asked one at a time. Answers are checked by the LLM and then
+ * validated by type; anything off-script is left to the normal auto-reply,
+ * after which the pending question is asked again.
+ */
+
+export const LEAD_SLOT_TYPES = ["text", "email", "phone", "date", "number", "choice"] as const;
+
+export type LeadSlotType = (typeof LEAD_SLOT_TYPES)[number];
+
+export const LEAD_FLOW_TRIGGERS = ["first_message", "keywords"] as const;
+
+export type LeadFlowTrigger = (typeof LEAD_FLOW_TRIGGERS)[number];
+
+export type LeadSlot = {
+    // Column name in the captured lead, e.g. "budget"
+    key: string;
+    question: string;
+    type: LeadSlotType;
+    // Optional slots can be skipped by the customer (default required)
+    required?: boolean;
+    // Choices offered as buttons / a list for "choice" slots
+    options?: string[];
+};
+
+export type LeadFlow = {
+    id: string;
+    phone_number: string;
+    enabled: boolean;
+    // first_message: every contact who hasn't been through the flow yet;
+    // keywords: only when the message contains one of trigger_keywords
+    trigger: LeadFlowTrigger;
+    trigger_keywords: string[];
+    intro_message: string | null;
+    completion_message: string | null;
+    slots: LeadSlot[];
+    created_at: string;
+    updated_at: string;
+};
+
+export type LeadFlowInput = Pick<
+    LeadFlow,
+    "enabled" | "trigger" | "trigger_keywords" | "intro_message" | "completion_message" | "slots"
+>;
+
+type LeadFlowSession = {
+    id: string;
+    business_number: string;
+    contact_id: string;
+    flow_id: string;
+    status: "active" | "completed" | "expired";
+    slot_index: number;
+    answers: Record<string, string>;
+    invalid_attempts: number;
+    language: string | null;
+    updated_at: string;
+    completed_at: string | null;
+};
+
+export type Lead = {
+    id: string;
+    business_number: string;
+    contact_id: string;
+    contact_name: string | null;
+    flow_id: string | null;
+    fields: Record<string, string>;
+    created_at: string;
+    updated_at: string;
+};
+
+// What the webhook should do with the message after the flow has seen it
+export type LeadFlowTurn =
+    | { status: "none" }
+    // The flow replied (next question, validation hint or completion)
+    | { status: "handled" }
+    // Not an answer: reply as usual, then send the pending question again
+    | { status: "off_script"; reprompt: OutboundMessage };
+
+export type LeadFlowParams = {
+    businessNumber: string;
+    contactId: string;
+    text: string;
+    messageId: string;
+    senderName?: string;
+};
+
+// A run nobody has answered for this long is dropped
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Invalid answers to one question before we move on without it
+const MAX_INVALID_ATTEMPTS = 3;
+
+const SLOT_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+const DEFAULT_COMPLETION_MESSAGE = "Thank you! 🙏 We've noted your details and our team will get back to you soon.";
+
+const INVALID_HINTS: Record<Exclude<LeadSlotType, "text">, string> = {
+    email: "That doesn't look like an email address.",
+    phone: "That doesn't look like a phone number.",
+    date: "I couldn't read that as a date.",
+    number: "Please reply with a number.",
+    choice: "Please pick one of the options.",
+};
+
+function isSlotType(value: unknown): value is LeadSlotType {
+    return typeof value === "string" && (LEAD_SLOT_TYPES as readonly string[]).includes(value);
+}
+
+function optionalText(value: unknown): string | null {
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function parseSlots(value: unknown): { slots?: LeadSlot[]; error?: string } {
+    if (!Array.isArray(value) || value.length === 0) {
+        return { error: "slots must list at least one question" };
+    }
+
+    const slots: LeadSlot[] = [];
+    for (const raw of value) {
+        if (typeof raw !== "object" || raw === null) {
+            return { error: "Each slot needs a key, question and type" };
+        }
+
+        const key = typeof raw.key === "string" ? raw.key.trim().toLowerCase() : "";
+        if (!SLOT_KEY_PATTERN.test(key)) {
+            return { error: `Invalid slot key "${key}": use lowercase letters, digits and underscores` };
+        }
+        if (slots.some(slot => slot.key === key)) {
+            return { error: `Duplicate slot key "${key}"` };
+        }
+
+        const question = optionalText(raw.question);
+        if (!question) {
+            return { error: `Slot "${key}" needs a question` };
+        }
+
+        const type = raw.type ?? "text";
+        if (!isSlotType(type)) {
+            return { error: `Slot "${key}": type must be one of ${LEAD_SLOT_TYPES.join(", ")}` };
+        }
+
+        const slot: LeadSlot = { key, question, type, required: raw.required !== false };
+
+        if (type === "choice") {
+            const options = Array.isArray(raw.options)
+                ? raw.options.filter((o: unknown): o is string => typeof o === "string").map((o: string) => o.trim()).filter(Boolean)
+                : [];
+            if (options.length < 2 || options.length > MAX_LIST_ROWS) {
+                return { error: `Slot "${key}" needs between 2 and ${MAX_LIST_ROWS} options` };
+            }
+            slot.options = options;
+        }
+
+        slots.push(slot);
+    }
+
+    return { slots };
+}
+
+/**
+ * Validate the flow editor's request body
+ */
+export function parseLeadFlowInput(body: Record<string, unknown>): { input?: LeadFlowInput; error?: string } {
+    const trigger = body.trigger ?? "first_message";
+    if (typeof trigger !== "string" || !(LEAD_FLOW_TRIGGERS as readonly string[]).includes(trigger)) {
+        return { error: `trigger must be one of ${LEAD_FLOW_TRIGGERS.join(", ")}` };
+    }
+
+    const triggerKeywords = Array.isArray(body.trigger_keywords)
+        ? body.trigger_keywords.filter((k): k is string => typeof k === "string").map((k) => k.trim()).filter(Boolean)
+        : [];
+    if (trigger === "keywords" && triggerKeywords.length === 0) {
+        return { error: "trigger_keywords must list at least one keyword" };
+    }
+
+    const { slots, error } = parseSlots(body.slots);
+    if (!slots) {
+        return { error };
+    }
+
+    return {
+        input: {
+            enabled: body.enabled !== false,
+            trigger: trigger as LeadFlowTrigger,
+            trigger_keywords: triggerKeywords,
+            intro_message: optionalText(body.intro_message),
+            completion_message: optionalText(body.completion_message),
+            slots,
+        },
+    };
+}
+
+export async function getLeadFlow(businessNumber: string): Promise<LeadFlow | null> {
+    const { data, error } = await supabase
+        .from("lead_flows")
+        .select("*")
+        .eq("phone_number", businessNumber)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Error loading lead flow:", error);
+        return null;
+    }
+
+    return data;
+}
+
+export async function listLeads(businessNumber: string, limit = 200): Promise<Lead[]> {
+    const { data, error } = await supabase
+        .from("leads")
+        .select("*")
+        .eq("business_number", businessNumber)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw error;
+    }
+
+    return data || [];
+}
+
+async function getSession(businessNumber: string, contactId: string): Promise<LeadFlowSession | null> {
+    const { data } = await supabase
+        .from("lead_flow_sessions")
+        .select("*")
+        .eq("business_number", businessNumber)
+        .eq("contact_id", contactId)
+        .maybeSingle();
+
+    return data;
+}
+
+async function saveSession(
+    businessNumber: string,
+    contactId: string,
+    fields: Partial<LeadFlowSession>
+): Promise<void> {
+    const { error } = await supabase
+        .from("lead_flow_sessions")
+        .upsert(
+            { business_number: businessNumber, contact_id: contactId, ...fields, updated_at: new Date().toISOString() },
+            { onConflict: "business_number,contact_id" }
+        );
+
+    if (error) {
+        console.error("Error saving lead flow session:", error);
+    }
+}
+
+/**
+ * Put a prompt in the customer's language. English (and any failure) keeps the original.
+ */
+async function localize(text: string, language: string, keys: LlmKeys): Promise<string> {
+    if (language === "english") {
+        return text;
+    }
+
+    try {
+        const translated = await completeText(
+            `Translate the user's message into ${language === "hinglish" ? "Hinglish (Hindi written in Latin script, mixed with English)" : language} for a customer on WhatsApp. Keep names, numbers, emojis and line breaks as they are. Reply with the translation only.`,
+            text,
+            keys
+        );
+        return translated.trim() || text;
+    } catch (err) {
+        console.error("Error localizing lead flow prompt:", err);
+        return text;
+    }
+}
+
+/**
+ * Normalize an answer for its slot type. Null when it isn't valid.
+ */
+function validateSlotValue(slot: LeadSlot, value: string): string | null {
+    const trimmed = value.trim();
+    if (!trimmed) {
+        return null;
+    }
+
+    switch (slot.type) {
+        case "email":
+            return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? trimmed.toLowerCase() : null;
+        case "phone": {
+            const phone = trimmed.replace(/[\s().-]/g, "");
+            return /^\+?\d{7,15}$/.test(phone) ? phone : null;
+        }
+        case "date": {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return null;
+            const date = new Date(`${trimmed}T00:00:00Z`);
+            return !isNaN(date.getTime()) && date.toISOString().startsWith(trimmed) ? trimmed : null;
+        }
+        case "number": {
+            const number = Number(trimmed.replace(/,/g, ""));
+            return Number.isFinite(number) ? String(number) : null;
+        }
+        case "choice":
+            return slot.options?.find(option => option.toLowerCase() === trimmed.toLowerCase()) || null;
+        default:
+            return trimmed.slice(0, 500);
+    }
+}
+
+const TYPE_INSTRUCTIONS: Record<LeadSlotType, string> = {
+    text: "the answer in the customer's own words, trimmed of greetings and filler",
+    email: "the email address",
+    phone: "the phone number with country code if given, digits only",
+    date: "the date as YYYY-MM-DD (resolve words like \"tomorrow\" or \"next Monday\" against today's date)",
+    number: "a plain number without currency or units (\"5 lakh\" becomes 500000, \"20k\" becomes 20000)",
+    choice: "exactly one of the listed options, copied as written",
+};
+
+/**
+ * Read the answer to a slot out of the customer's message.
+ * `answered` is false when the message is about something else.
+ */
+async function extractAnswer(
+    slot: LeadSlot,
+    text: string,
+    keys: LlmKeys
+): Promise<{ answered: boolean; value: string | null }> {
+    if (slot.type === "choice" && slot.options) {
+        const options = slot.options.map(title => ({ id: optionId(title), title }));
+        const choice = matchInteractiveReply(text, options);
+        if (choice) {
+            return { answered: true, value: choice.title };
+        }
+    }
+
+    let systemPrompt = `You read a customer's WhatsApp reply to the question: "${slot.question}"\n`;
+    systemPrompt += `Today is ${new Date().toISOString().slice(0, 10)}.\n`;
+    if (slot.options) {
+        systemPrompt += `Options: ${slot.options.join(" | ")}\n`;
+    }
+    systemPrompt += `Reply with JSON only: {"answered": boolean, "value": string | null}\n`;
+    systemPrompt += `- answered is true when the message answers the question (in any language); value is ${TYPE_INSTRUCTIONS[slot.type]}\n`;
+    systemPrompt += `- If they decline to answer, set answered to true and value to null\n`;
+    systemPrompt += `- If the message is a question or about something else, set answered to false\n`;
+
+    try {
+        const response = await completeText(systemPrompt, text, keys, { json: true });
+        const parsed = JSON.parse(response.replace(/^```(?:json)?|```$/g, "").trim());
+        return {
+            answered: parsed.answered === true,
+            value: parsed.value === null || parsed.value === undefined ? null : String(parsed.value),
+        };
+    } catch (err) {
+        console.error("Error extracting lead flow answer, using the raw message:", err);
+        // Without the LLM, a short statement is taken as the answer
+        const answered = text.length <= 120 && !text.trim().endsWith("?");
+        return { answered, value: answered ? text : null };
+    }
+}
+
+async function buildSlotPrompt(slot: LeadSlot, language: string, keys: LlmKeys, prefix?: string): Promise<OutboundMessage> {
+    const body = await localize([prefix, slot.question].filter(Boolean).join("\n\n"), language, keys);
+
+    if (slot.type === "choice" && slot.options) {
+        const options: InteractiveOption[] = slot.options.map(title => ({ id: optionId(title), title }));
+        return { text: body, interactive: buildInteractiveMessage(body, options) };
+    }
+
+    return { text: body };
+}
+
+function matchesTriggerKeyword(flow: LeadFlow, text: string): boolean {
+    const padded = ` ${normalizeKeyword(text)} `;
+    return flow.trigger_keywords.some(keyword => {
+        const normalized = normalizeKeyword(keyword);
+        return normalized.length > 0 && padded.includes(` ${normalized} `);
+    });
+}
+
+// "{{name}}" in the completion message becomes the captured name
+function fillAnswers(text: string, answers: Record<string, string>): string {
+    return text.replace(/\{\{\s*([a-z0-9_]+)\s*\}\}/g, (_, key: string) => answers[key] ?? "");
+}
+
+async function sendFlowMessage(params: LeadFlowParams, flow: LeadFlow, message: OutboundMessage): Promise<void> {
+    await sendOutboundMessage({
+        businessNumber: params.businessNumber,
+        contactId: params.contactId,
+        message,
+        source: "auto_reply",
+        messageId: `auto_${params.messageId}_${Date.now()}`,
+        rawPayload: { isAutoResponse: true, leadFlow: flow.id },
+    });
+}
+
+// A contact who goes through the flow again updates their lead (and its sheet row)
+async function saveLead(
+    params: LeadFlowParams,
+    flow: LeadFlow,
+    answers: Record<string, string>
+): Promise<void> {
+    const { data: existing } = await supabase
+        .from("leads")
+        .select("id, fields")
+        .eq("business_number", params.businessNumber)
+        .eq("contact_id", params.contactId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    const row = {
+        business_number: params.businessNumber,
+        contact_id: params.contactId,
+        contact_name: answers.name || params.senderName || null,
+        flow_id: flow.id,
+        fields: { ...existing?.fields, ...answers },
+    };
+
+    const { data: lead, error } = existing
+        ? await supabase.from("leads").update({ ...row, updated_at: new Date().toISOString() }).eq("id", existing.id).select("id, business_number").single()
+        : await supabase.from("leads").insert(row).select("id, business_number").single();
+
+    if (error) {
+        console.error("Error saving lead:", error);
+        return;
+    }
+
+    await queueLeadSheetSync(lead);
+}
+
+/**
+ * Run the contact's lead flow on an inbound message: start it when the
+ * number's trigger fires, otherwise record the answer to the pending question
+ * and ask the next one.
+ */
+export async function advanceLeadFlow(params: LeadFlowParams): Promise<LeadFlowTurn> {
+    const flow = await getLeadFlow(params.businessNumber);
+    if (!flow?.enabled || flow.slots.length === 0) {
+        return { status: "none" };
+    }
+
+    let session = await getSession(params.businessNumber, params.contactId);
+
+    if (session?.status === "active"
+        && (session.flow_id !== flow.id || Date.now() - new Date(session.updated_at).getTime() > SESSION_TTL_MS)) {
+        await saveSession(params.businessNumber, params.contactId, { status: "expired" });
+        session = { ...session, status: "expired" };
+    }
+
+    // A short reply like "Raj" reads as English; keep the language we already know
+    const detected = detectLanguage(params.text, []);
+    const language = detected !== "english" || !session?.language ? detected : session.language;
+    const keys = await getLlmKeys(params.businessNumber);
+
+    if (session?.status !== "active") {
+        const triggered = flow.trigger === "keywords"
+            ? matchesTriggerKeyword(flow, params.text)
+            : !session;
+        if (!triggered) {
+            return { status: "none" };
+        }
+
+        console.log(`Starting lead flow for ${params.contactId} on ${params.businessNumber}`);
+        await saveSession(params.businessNumber, params.contactId, {
+            flow_id: flow.id,
+            status: "active",
+            slot_index: 0,
+            answers: {},
+            invalid_attempts: 0,
+            language,
+            completed_at: null,
+        });
+
+        const firstPrompt = await buildSlotPrompt(flow.slots[0], language, keys, flow.intro_message || undefined);
+
+        // A first message is usually a question of its own: answer it, then start asking
+        if (flow.trigger === "first_message") {
+            return { status: "off_script", reprompt: firstPrompt };
+        }
+
+        await sendFlowMessage(params, flow, firstPrompt);
+        return { status: "handled" };
+    }
+
+    const slot = flow.slots[Math.min(session.slot_index, flow.slots.length - 1)];
+    const { answered, value } = await extractAnswer(slot, params.text, keys);
+
+    if (!answered) {
+        await saveSession(params.businessNumber, params.contactId, { language });
+        return { status: "off_script", reprompt: await buildSlotPrompt(slot, language, keys) };
+    }
+
+    const normalized = value === null ? null : validateSlotValue(slot, value);
+    const skipped = normalized === null && slot.required === false;
+    const answers = { ...session.answers };
+
+    if (normalized === null && !skipped && session.invalid_attempts + 1 < MAX_INVALID_ATTEMPTS) {
+        await saveSession(params.businessNumber, params.contactId, {
+            invalid_attempts: session.invalid_attempts + 1,
+            language,
+        });
+        const hint = slot.type === "text" ? "Sorry, I didn't catch that." : INVALID_HINTS[slot.type];
+        await sendFlowMessage(params, flow, await buildSlotPrompt(slot, language, keys, hint));
+        return { status: "handled" };
+    }
+
+    if (normalized !== null) {
+        answers[slot.key] = normalized;
+    }
+
+    const nextIndex = session.slot_index + 1;
+
+    if (nextIndex < flow.slots.length) {
+        await saveSession(params.businessNumber, params.contactId, {
+            slot_index: nextIndex,
+            answers,
+            invalid_attempts: 0,
+            language,
+        });
+        await sendFlowMessage(params, flow, await buildSlotPrompt(flow.slots[nextIndex], language, keys));
+        return { status: "handled" };
+    }
+
+    console.log(`Lead flow completed for ${params.contactId} on ${params.businessNumber}`);
+    await saveSession(params.businessNumber, params.contactId, {
+        status: "completed",
+        slot_index: nextIndex,
+        answers,
+        invalid_attempts: 0,
+        language,
+        completed_at: new Date().toISOString(),
+    });
+    await saveLead(params, flow, answers);
+
+    const completion = fillAnswers(flow.completion_message || DEFAULT_COMPLETION_MESSAGE, answers);
+    await sendFlowMessage(params, flow, { text: await localize(completion, language, keys) });
+    return { status: "handled" };
+}
@@ -0,0 +1,366 @@
+import crypto from "crypto";
+import { supabase } from "./supabaseClient";
+import { appendGoogleSheetRow, ensureGoogleSheetHeader, findGoogleSheetRow, updateGoogleSheetRow } from "./googleSheet";
+import { getConversationMessages } from "./inbox";
+import { enqueueJob } from "./jobQueue";
+import { completeText, getLlmKeys } from "./llm";
+import type { Lead } from "./leadFlows";
+
+/**
+ * Google Sheets write-back: each captured lead becomes a row in the number's
+ * sheet (contact, name, answers, an AI summary of the chat, timestamps).
+ * Syncs run as queue jobs so failures are retried, and every attempt is logged.
+ */
+
+export const LEAD_SHEET_SOURCES = ["lead_id", "contact_id", "contact_name", "summary", "created_at", "updated_at", "synced_at"] as const;
+
+// Every sheet gets this key column, so a lead's row is found however the owner sorts or edits the sheet
+const LEAD_ID_COLUMN: LeadSheetColumn = { header: "Lead ID", source: "lead_id" };
+
+// One sheet column: its header and what goes in it (a source above, or "field:<slot key>")
+export type LeadSheetColumn = { header: string; source: string };
+
+export type LeadSheetSyncLogEntry = {
+    id: string;
+    business_number: string;
+    lead_id: string | null;
+    action: "append" | "update";
+    status: "success" | "failed";
+    attempt: number;
+    sheet_id: string | null;
+    sheet_tab: string | null;
+    sheet_row: number | null;
+    error: string | null;
+    created_at: string;
+};
+
+type LeadSheetSettings = {
+    enabled: boolean;
+    sheetId: string | null;
+    tab: string;
+    columns: LeadSheetColumn[] | null;
+};
+
+type SyncedLead = Lead & {
+    summary: string | null;
+    sheet_id: string | null;
+    sheet_tab: string | null;
+    sheet_row: number | null;
+};
+
+export const DEFAULT_LEAD_SHEET_TAB = "Leads";
+
+// Messages of the conversation the summary is written from
+const SUMMARY_MESSAGE_LIMIT = 40;
+
+const FIELD_SOURCE_PATTERN = /^field:[a-z][a-z0-9_]{0,39}$/;
+
+// A sync claim older than this is considered abandoned (crashed worker)
+const SYNC_CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+export function isValidLeadSheetColumns(columns: unknown): columns is LeadSheetColumn[] {
+    return Array.isArray(columns) && columns.length > 0 && columns.every(column =>
+        typeof column === "object" && column !== null
+        && typeof column.header === "string" && column.header.trim() !== ""
+        && typeof column.source === "string"
+        && ((LEAD_SHEET_SOURCES as readonly string[]).includes(column.source) || FIELD_SOURCE_PATTERN.test(column.source))
+    );
+}
+
+/**
+ * Sheet ID from a pasted sheet URL (or the ID itself)
+ */
+export function extractSheetId(value: string): string {
+    return value.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/)?.[1] || value.trim();
+}
+
+async function getLeadSheetSettings(businessNumber: string): Promise<LeadSheetSettings> {
+    const { data: mapping } = await supabase
+        .from("phone_document_mapping")
+        .select("lead_sheet_sync_enabled, lead_sheet_id, lead_sheet_tab, lead_sheet_columns")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    return {
+        enabled: !!mapping?.lead_sheet_sync_enabled,
+        sheetId: mapping?.lead_sheet_id || null,
+        tab: mapping?.lead_sheet_tab?.trim() || DEFAULT_LEAD_SHEET_TAB,
+        columns: isValidLeadSheetColumns(mapping?.lead_sheet_columns) ? mapping.lead_sheet_columns : null,
+    };
+}
+
+// Contact, name, every answer of the number's flow (or of this lead), summary, timestamps
+async function getDefaultColumns(lead: Lead): Promise<LeadSheetColumn[]> {
+    const { data: flow } = await supabase
+        .from("lead_flows")
+        .select("slots")
+        .eq("phone_number", lead.business_number)
+        .maybeSingle();
+
+    const keys: string[] = flow?.slots?.length
+        ? flow.slots.map((slot: { key: string }) => slot.key)
+        : Object.keys(lead.fields);
+
+    return [
+        { header: "Contact", source: "contact_id" },
+        { header: "Name", source: "contact_name" },
+        ...keys.map(key => ({ header: key.replace(/_/g, " ").replace(/^\w/, c => c.toUpperCase()), source: `field:${key}` })),
+        { header: "Summary", source: "summary" },
+        { header: "Created At", source: "created_at" },
+        { header: "Updated At", source: "updated_at" },
+        LEAD_ID_COLUMN,
+    ];
+}
+
+// Owner-chosen columns keep their order; the lead ID goes last unless they placed it
+function withLeadIdColumn(columns: LeadSheetColumn[]): LeadSheetColumn[] {
+    return columns.some(column => column.source === "lead_id") ? columns : [...columns, LEAD_ID_COLUMN];
+}
+
+function columnValue(lead: SyncedLead, source: string, syncedAt: string): string {
+    if (source.startsWith("field:")) {
+        return lead.fields[source.slice("field:".length)] ?? "";
+    }
+
+    switch (source) {
+        case "lead_id":
+            return lead.id;
+        case "contact_id":
+            return lead.contact_id;
+        case "contact_name":
+            return lead.contact_name || "";
+        case "summary":
+            return lead.summary || "";
+        case "created_at":
+            return lead.created_at;
+        case "updated_at":
+            return lead.updated_at;
+        case "synced_at":
+            return syncedAt;
+        default:
+            return "";
+    }
+}
+
+/**
+ * A few sentences on what the customer wants, for whoever follows up.
+ * Null when no LLM is reachable; the row is written without it.
+ */
+async function summarizeConversation(businessNumber: string, contactId: string): Promise<string | null> {
+    try {
+        const messages = await getConversationMessages(businessNumber, contactId, SUMMARY_MESSAGE_LIMIT);
+        const transcript = messages
+            .filter(message => message.content_text)
+            .map(message => `${message.event_type === "MoMessage" ? "Customer" : "Business"}: ${message.content_text}`)
+            .join("\n");
+
+        if (!transcript) {
+            return null;
+        }
+
+        const summary = await completeText(
+            "Summarize this WhatsApp conversation between a customer and a business for the sales team, in English, in 2-3 sentences: what the customer wants, key details they gave, and any open question or next step. No preamble.",
+            transcript,
+            await getLlmKeys(businessNumber),
+            { maxTokens: 200 }
+        );
+        return summary.trim() || null;
+    } catch (err) {
+        console.error("Error summarizing conversation for lead sync:", err);
+        return null;
+    }
+}
+
+/**
+ * Claim a lead for syncing. Like inbound message claims, the conditional UPDATE
+ * only matches an unclaimed (or stale) lead, so of two racing syncs one gets the
+ * row back and the other waits for a retry instead of appending a second row.
+ */
+async function claimLeadSync(leadId: string, claimant: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - SYNC_CLAIM_LEASE_MS).toISOString();
+
+    const { data, error } = await supabase
+        .from("leads")
+        .update({
+            sheet_sync_claimed_at: new Date().toISOString(),
+            sheet_sync_claimed_by: claimant,
+        })
+        .eq("id", leadId)
+        .or(`sheet_sync_claimed_at.is.null,sheet_sync_claimed_at.lt.${staleBefore}`)
+        .select("id");
+
+    if (error) {
+        throw new Error(`Failed to claim lead ${leadId} for sheet sync: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+}
+
+async function releaseLeadSync(leadId: string, claimant: string): Promise<void> {
+    const { error } = await supabase
+        .from("leads")
+        .update({
+            sheet_sync_claimed_at: null,
+            sheet_sync_claimed_by: null,
+        })
+        .eq("id", leadId)
+        .eq("sheet_sync_claimed_by", claimant);
+
+    if (error) {
+        console.error(`Error releasing sheet sync claim on lead ${leadId}:`, error);
+    }
+}
+
+async function logSync(entry: Omit<LeadSheetSyncLogEntry, "id" | "created_at">): Promise<void> {
+    const { error } = await supabase.from("lead_sheet_sync_log").insert(entry);
+
+    if (error) {
+        console.error("Error writing lead sheet sync log:", error);
+    }
+}
+
+/**
+ * Queue a lead for writing to the number's sheet, if sync is set up
+ */
+export async function queueLeadSheetSync(lead: Pick<Lead, "id" | "business_number">): Promise<boolean> {
+    const settings = await getLeadSheetSettings(lead.business_number);
+    if (!settings.enabled || !settings.sheetId) {
+        return false;
+    }
+
+    const result = await enqueueJob("lead_sheet_sync", { leadId: lead.id }, { businessNumber: lead.business_number });
+    if (!result.success) {
+        console.error(`Could not queue sheet sync for lead ${lead.id}:`, result.error);
+    }
+    return result.success;
+}
+
+/**
+ * Write a lead to the sheet: the row holding its lead ID when there is one,
+ * a new row otherwise. Throws on failure so the job is retried,
+ * including when another sync of the lead is still running.
+ */
+export async function syncLeadToSheet(leadId: string, attempt = 1): Promise<void> {
+    const claimant = crypto.randomUUID();
+    if (!await claimLeadSync(leadId, claimant)) {
+        const { data: lead } = await supabase.from("leads").select("id").eq("id", leadId).maybeSingle();
+        if (!lead) {
+            console.log(`Lead ${leadId} no longer exists, skipping sheet sync`);
+            return;
+        }
+        throw new Error(`Lead ${leadId} is already being synced`);
+    }
+
+    try {
+        await writeLeadToSheet(leadId, attempt);
+    } finally {
+        await releaseLeadSync(leadId, claimant);
+    }
+}
+
+// Runs under the lead's sync claim, with the lead as it is now
+async function writeLeadToSheet(leadId: string, attempt: number): Promise<void> {
+    const { data: lead, error } = await supabase
+        .from("leads")
+        .select("*")
+        .eq("id", leadId)
+        .maybeSingle<SyncedLead>();
+
+    if (error) {
+        throw new Error(`Failed to load lead ${leadId}: ${error.message}`);
+    }
+    if (!lead) {
+        console.log(`Lead ${leadId} no longer exists, skipping sheet sync`);
+        return;
+    }
+
+    const settings = await getLeadSheetSettings(lead.business_number);
+    if (!settings.enabled || !settings.sheetId) {
+        console.log(`Sheet sync is off for ${lead.business_number}, skipping lead ${leadId}`);
+        return;
+    }
+
+    const sheetId = settings.sheetId;
+    let action: LeadSheetSyncLogEntry["action"] = "append";
+    let row: number | null = null;
+
+    try {
+        const summary = await summarizeConversation(lead.business_number, lead.contact_id);
+        const syncedAt = new Date().toISOString();
+        const synced: SyncedLead = { ...lead, summary: summary || lead.summary };
+
+        const columns = settings.columns ? withLeadIdColumn(settings.columns) : await getDefaultColumns(lead);
+        await ensureGoogleSheetHeader(sheetId, settings.tab, columns.map(column => column.header));
+
+        // Found by its lead ID, not the row it was written to last time: that row
+        // may hold another lead by now, or the lead may have been written without
+        // its row being saved
+        const keyColumn = columns.findIndex(column => column.source === "lead_id");
+        row = await findGoogleSheetRow(sheetId, settings.tab, keyColumn, lead.id);
+
+        const values = columns.map(column => columnValue(synced, column.source, syncedAt));
+        if (row) {
+            action = "update";
+            await updateGoogleSheetRow(sheetId, settings.tab, row, values);
+        } else {
+            row = await appendGoogleSheetRow(sheetId, settings.tab, values);
+        }
+
+        const { error: saveError } = await supabase
+            .from("leads")
+            .update({
+                summary: synced.summary,
+                sheet_id: sheetId,
+                sheet_tab: settings.tab,
+                sheet_row: row,
+                sheet_synced_at: syncedAt,
+            })
+            .eq("id", leadId);
+
+        if (saveError) {
+            throw new Error(`Lead ${leadId} was written to row ${row} but could not be saved: ${saveError.message}`);
+        }
+
+        await logSync({
+            business_number: lead.business_number,
+            lead_id: leadId,
+            action,
+            status: "success",
+            attempt,
+            sheet_id: sheetId,
+            sheet_tab: settings.tab,
+            sheet_row: row,
+            error: null,
+        });
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        await logSync({
+            business_number: lead.business_number,
+            lead_id: leadId,
+            action,
+            status: "failed",
+            attempt,
+            sheet_id: sheetId,
+            sheet_tab: settings.tab,
+            sheet_row: row,
+            error: message,
+        });
+        throw err;
+    }
+}
+
+export async function getLeadSheetSyncLog(businessNumber: string, limit = 50): Promise<LeadSheetSyncLogEntry[]> {
+    const { data, error } = await supabase
+        .from("lead_sheet_sync_log")
+        .select("*")
+        .eq("business_number", businessNumber)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw error;
+    }
+
+    return data || [];
+}
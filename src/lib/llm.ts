@@ -0,0 +1,65 @@
+import { supabase } from "./supabaseClient";
+import Groq from "groq-sdk";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+/**
+ * One-shot LLM calls for small jobs (reading answers, translating prompts,
+ * summarizing a chat) with the number's own keys
+ */
+
+export type LlmKeys = { geminiKey?: string; groqKey?: string };
+
+// Per-number keys, falling back to the default ones
+export async function getLlmKeys(businessNumber: string): Promise<LlmKeys> {
+    const { data: mapping } = await supabase
+        .from("phone_document_mapping")
+        .select("gemini_api_key, groq_api_key")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    return {
+        geminiKey: mapping?.gemini_api_key || process.env.GEMINI_API_KEY,
+        groqKey: mapping?.groq_api_key || process.env.GROQ_API_KEY,
+    };
+}
+
+/**
+ * Groq first, Gemini as the fallback. With `json`, both are asked for a JSON object.
+ */
+export async function completeText(
+    systemPrompt: string,
+    userText: string,
+    keys: LlmKeys,
+    options: { json?: boolean; maxTokens?: number } = {}
+): Promise<string> {
+    try {
+        if (!keys.groqKey) throw new Error("No Groq key");
+        const localGroq = new Groq({ apiKey: keys.groqKey });
+        const completion = await localGroq.chat.completions.create({
+            model: "llama-3.3-70b-versatile",
+            messages: [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: userText },
+            ],
+            temperature: 0,
+            max_tokens: options.maxTokens || 300,
+            ...(options.json ? { response_format: { type: "json_object" as const } } : {}),
+        });
+        return completion.choices[0].message.content || "";
+    } catch (err) {
+        console.error("Groq call failed:", err instanceof Error ? err.message : err);
+        if (!keys.geminiKey) throw err;
+
+        const localGenAI = new GoogleGenerativeAI(keys.geminiKey);
+        const model = localGenAI.getGenerativeModel({
+            model: "gemini-1.5-flash",
+            ...(options.json ? { generationConfig: { responseMimeType: "application/json" } } : {}),
+        });
+        const result = await model.generateContent({
+            contents: [{ role: "user", parts: [{ text: userText }] }],
+            systemInstruction: systemPrompt,
+        });
+        return result.response.text();
+    }
+}
@@ -0,0 +1,138 @@
+import crypto from "crypto";
+import { supabase } from "./supabaseClient";
+import type { OutboundMedia } from "./providers";
+
+/**
+ * Media the bot can send: files uploaded to the knowledge base (kept in Supabase
+ * Storage) and media links found in knowledge-base rows, e.g. an image URL
+ * column in a synced Google Sheet
+ */
+
+// Public bucket - providers fetch outbound media by URL
+export const MEDIA_BUCKET = process.env.SUPABASE_MEDIA_BUCKET || "whatsapp-media";
+
+export type MediaLibraryItem = {
+    name: string;
+    url: string;
+    type: OutboundMedia["type"];
+};
+
+// The LLM attaches media with e.g. [[MEDIA: https://.../sofa.jpg | Blue sofa - ₹25,000]]
+const MEDIA_MARKER = /\[\[MEDIA:\s*([^\]|]+?)\s*(?:\|\s*([^\]]*?)\s*)?\]\]/gi;
+
+const MEDIA_URL = /https?:\/\/[^\s|"'<>]+\.(?:jpe?g|png|webp|gif|pdf|docx?|xlsx?|pptx?|mp4|3gp|mov|mp3|m4a|ogg|aac|amr)(?:\?[^\s|"'<>]*)?/gi;
+
+const EXTENSION_TYPES: Record<string, OutboundMedia["type"]> = {
+    jpg: "image", jpeg: "image", png: "image", webp: "image", gif: "image",
+    mp4: "video", "3gp": "video", mov: "video",
+    mp3: "audio", m4a: "audio", ogg: "audio", aac: "audio", amr: "audio",
+};
+
+/**
+ * WhatsApp media type for a file, from its MIME type or extension (documents by default)
+ */
+export function mediaTypeFor(nameOrUrl: string, mimeType?: string | null): OutboundMedia["type"] {
+    if (mimeType?.startsWith("image/")) return "image";
+    if (mimeType?.startsWith("video/")) return "video";
+    if (mimeType?.startsWith("audio/")) return "audio";
+
+    const extension = nameOrUrl.split("?")[0].split(".").pop()?.toLowerCase() || "";
+    return EXTENSION_TYPES[extension] || "document";
+}
+
+function fileNameFromUrl(url: string): string {
+    try {
+        return decodeURIComponent(new URL(url).pathname.split("/").pop() || url);
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Media links in knowledge-base text (sheet rows, document chunks)
+ */
+export function findMediaUrls(text: string): MediaLibraryItem[] {
+    const urls = [...new Set(text.match(MEDIA_URL) || [])];
+    return urls.map((url) => ({ name: fileNameFromUrl(url), url, type: mediaTypeFor(url) }));
+}
+
+/**
+ * Store a file (knowledge-base upload, synthesized voice note) so it can be sent to customers
+ */
+export async function uploadMediaFile(
+    buffer: ArrayBuffer,
+    fileName: string,
+    contentType: string,
+    phoneNumber: string
+): Promise<string> {
+    const safeName = fileName.replace(/[^\w.-]+/g, "_");
+    const path = `${phoneNumber}/${crypto.randomUUID()}-${safeName}`;
+
+    const { error } = await supabase.storage
+        .from(MEDIA_BUCKET)
+        .upload(path, buffer, { contentType, upsert: false });
+
+    if (error) {
+        throw new Error(`Failed to store media file: ${error.message}`);
+    }
+
+    return supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Uploaded files of the given knowledge-base files that can be sent as media
+ */
+export async function getMediaLibrary(fileIds: string[]): Promise<MediaLibraryItem[]> {
+    if (fileIds.length === 0) {
+        return [];
+    }
+
+    const { data, error } = await supabase
+        .from("rag_files")
+        .select("name, media_url, media_mime_type")
+        .in("id", fileIds)
+        .not("media_url", "is", null);
+
+    if (error) {
+        console.error("Error loading media library:", error);
+        return [];
+    }
+
+    return (data || []).map((file) => ({
+        name: file.name,
+        url: file.media_url,
+        type: mediaTypeFor(file.name, file.media_mime_type),
+    }));
+}
+
+/**
+ * Strip [[MEDIA: ...]] markers from LLM output. Only media from `available`
+ * (matched by URL or file name) is returned, so made-up links are never sent.
+ */
+export function extractMediaMarkers(
+    text: string,
+    available: MediaLibraryItem[]
+): { text: string; media: OutboundMedia[] } {
+    const media: OutboundMedia[] = [];
+
+    for (const [, reference, caption] of text.matchAll(MEDIA_MARKER)) {
+        const ref = reference.trim().toLowerCase();
+        const item = available.find((m) => m.url.toLowerCase() === ref || m.name.toLowerCase() === ref);
+
+        if (!item) {
+            console.warn("LLM referenced media that is not in the knowledge base:", reference);
+            continue;
+        }
+
+        if (media.some((m) => m.url === item.url)) continue;
+
+        media.push({
+            type: item.type,
+            url: item.url,
+            caption: caption || undefined,
+            fileName: item.type === "document" ? item.name : undefined,
+        });
+    }
+
+    return { text: text.replace(MEDIA_MARKER, "").trim(), media };
+}
@@ -0,0 +1,102 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * Helpers for merging rapid multi-message bursts ("hi", "price?", "for website")
+ * into a single user turn
+ */
+
+const DEFAULT_DEBOUNCE_SECONDS = 5;
+const MAX_DEBOUNCE_SECONDS = 60;
+
+// Unanswered messages older than this are not merged into a new reply
+const MAX_BURST_AGE_MS = 15 * 60 * 1000;
+
+export type BurstMessage = {
+    message_id: string;
+    content_text: string | null;
+    raw_transcript: string | null;
+    media_text: string | null;
+    received_at: string;
+    raw_payload: Record<string, unknown> | null;
+};
+
+/**
+ * Get the debounce window configured for a business number
+ */
+export async function getReplyDebounceMs(businessNumber: string): Promise<number> {
+    const { data } = await supabase
+        .from("phone_document_mapping")
+        .select("reply_debounce_seconds")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    const seconds = data?.reply_debounce_seconds ?? DEFAULT_DEBOUNCE_SECONDS;
+    return Math.min(Math.max(0, seconds), MAX_DEBOUNCE_SECONDS) * 1000;
+}
+
+/**
+ * Check whether the contact sent another message after the given time
+ */
+export async function hasNewerInboundMessage(
+    contactNumber: string,
+    businessNumber: string,
+    afterReceivedAt: string
+): Promise<boolean> {
+    const { count, error } = await supabase
+        .from("whatsapp_messages")
+        .select("message_id", { count: "exact", head: true })
+        .eq("from_number", contactNumber)
+        .eq("to_number", businessNumber)
+        .eq("event_type", "MoMessage")
+        .gt("received_at", afterReceivedAt);
+
+    if (error) {
+        console.error("Error checking for newer messages:", error);
+        return false;
+    }
+
+    return (count || 0) > 0;
+}
+
+/**
+ * Get all unanswered inbound messages of the current burst, oldest first:
+ * everything after the last outbound message, up to `upToReceivedAt`
+ */
+export async function getUnansweredBurst(
+    contactNumber: string,
+    businessNumber: string,
+    upToReceivedAt: string
+): Promise<BurstMessage[]> {
+    const { data: lastReply } = await supabase
+        .from("whatsapp_messages")
+        .select("received_at")
+        .eq("from_number", businessNumber)
+        .eq("to_number", contactNumber)
+        .eq("event_type", "MtMessage")
+        .order("received_at", { ascending: false })
+        .limit(1);
+
+    const oldestAllowedMs = Date.now() - MAX_BURST_AGE_MS;
+    const lastReplyAt = lastReply?.[0]?.received_at;
+    const since = lastReplyAt && new Date(lastReplyAt).getTime() > oldestAllowedMs
+        ? lastReplyAt
+        : new Date(oldestAllowedMs).toISOString();
+
+    const { data, error } = await supabase
+        .from("whatsapp_messages")
+        .select("message_id, content_text, raw_transcript, media_text, interactive_reply, received_at, raw_payload")
+        .eq("from_number", contactNumber)
+        .eq("to_number", businessNumber)
+        .eq("event_type", "MoMessage")
+        .not("auto_respond_sent", "is", true)
+        .gt("received_at", since)
+        .lte("received_at", upToReceivedAt)
+        .order("received_at", { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to load message burst: ${error.message}`);
+    }
+
+    return (data || []) as BurstMessage[];
+}
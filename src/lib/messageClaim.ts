@@ -0,0 +1,51 @@
+import { supabase } from "./supabaseClient";
+
+// A claim that is older than this is considered abandoned (crashed worker)
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Atomically claim an inbound message for replying.
+ *
+ * The conditional UPDATE only matches when the message has not been answered
+ * and is unclaimed (or the claim is stale, or already held by this claimant).
+ * Postgres re-checks the WHERE clause under the row lock, so when two deliveries
+ * race exactly one of them gets a row back.
+ */
+export async function claimInboundMessage(messageId: string, claimant: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - CLAIM_LEASE_MS).toISOString();
+
+    const { data, error } = await supabase
+        .from("whatsapp_messages")
+        .update({
+            reply_claimed_at: new Date().toISOString(),
+            reply_claimed_by: claimant,
+        })
+        .eq("message_id", messageId)
+        .not("auto_respond_sent", "is", true)
+        .or(`reply_claimed_at.is.null,reply_claimed_at.lt.${staleBefore},reply_claimed_by.eq.${claimant}`)
+        .select("message_id");
+
+    if (error) {
+        throw new Error(`Failed to claim message ${messageId}: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+}
+
+/**
+ * Release a claim so a retry can pick the message up again
+ */
+export async function releaseInboundMessage(messageId: string, claimant: string): Promise<void> {
+    const { error } = await supabase
+        .from("whatsapp_messages")
+        .update({
+            reply_claimed_at: null,
+            reply_claimed_by: null,
+        })
+        .eq("message_id", messageId)
+        .eq("reply_claimed_by", claimant);
+
+    if (error) {
+        console.error(`Error releasing claim on message ${messageId}:`, error);
+    }
+}
@@ -0,0 +1,144 @@
+import { Mistral } from "@mistralai/mistralai";
+
+/**
+ * Image text extraction using Mistral OCR or the Pixtral vision model
+ */
+
+export type ImageExtractionMode = "ocr" | "transcribe";
+
+const DEFAULT_VISION_PROMPT =
+    "Extract all text from this image. Provide the text as it appears, maintaining the structure and formatting where possible.";
+
+type OcrTextNode = { text?: string };
+
+type OcrResponseShape = {
+    text?: unknown;
+    pages?: Array<{ markdown?: string; lines?: OcrTextNode[]; paragraphs?: OcrTextNode[] }>;
+    blocks?: OcrTextNode[];
+};
+
+/**
+ * Pull plain text out of a Mistral OCR response (text, pages, or blocks)
+ */
+export function extractTextFromOcrResponse(ocrResponse: unknown): string {
+    const resp = (ocrResponse || {}) as OcrResponseShape;
+
+    if (typeof resp.text === "string" && resp.text.length > 0) {
+        return resp.text;
+    }
+
+    if (Array.isArray(resp.pages)) {
+        return resp.pages
+            .map((p) => {
+                if (p.markdown) return p.markdown;
+                if (Array.isArray(p.lines)) return p.lines.map((l) => l.text || '').join('\n');
+                if (Array.isArray(p.paragraphs)) return p.paragraphs.map((par) => par.text || '').join('\n');
+                return '';
+            })
+            .filter(Boolean)
+            .join('\n\n');
+    }
+
+    if (Array.isArray(resp.blocks)) {
+        return resp.blocks.map((b) => b.text || '').filter(Boolean).join('\n');
+    }
+
+    return "";
+}
+
+/**
+ * Run Mistral OCR on an image data URL
+ */
+export async function ocrImage(dataUrl: string, apiKey: string): Promise<string> {
+    const client = new Mistral({ apiKey });
+
+    const ocrResponse = await client.ocr.process({
+        model: "mistral-ocr-latest",
+        document: {
+            type: "image_url",
+            imageUrl: dataUrl,
+        },
+        includeImageBase64: true
+    });
+
+    return extractTextFromOcrResponse(ocrResponse);
+}
+
+/**
+ * Run Mistral OCR on a document (PDF, DOCX, PPTX) data URL
+ */
+export async function ocrDocument(dataUrl: string, apiKey: string, documentName?: string): Promise<string> {
+    const client = new Mistral({ apiKey });
+
+    const ocrResponse = await client.ocr.process({
+        model: "mistral-ocr-latest",
+        document: {
+            type: "document_url",
+            documentUrl: dataUrl,
+            documentName: documentName || null,
+        },
+    });
+
+    return extractTextFromOcrResponse(ocrResponse);
+}
+
+/**
+ * Ask the Pixtral vision model about an image data URL
+ */
+export async function transcribeImageWithVision(
+    dataUrl: string,
+    apiKey: string,
+    prompt: string = DEFAULT_VISION_PROMPT
+): Promise<string> {
+    const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+            model: "pixtral-12b-2409",
+            messages: [
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "text",
+                            text: prompt
+                        },
+                        {
+                            type: "image_url",
+                            image_url: {
+                                url: dataUrl
+                            }
+                        }
+                    ]
+                }
+            ]
+        })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Mistral API error: ${response.statusText}`);
+    }
+
+    const chatResponse = await response.json();
+    return chatResponse.choices[0].message.content || "";
+}
+
+/**
+ * Extract text from raw image bytes with the chosen mode
+ */
+export async function extractImageText(
+    buffer: ArrayBuffer,
+    mimeType: string,
+    mode: ImageExtractionMode,
+    apiKey: string
+): Promise<string> {
+    const base64Image = Buffer.from(buffer).toString('base64');
+    const dataUrl = `data:${mimeType};base64,${base64Image}`;
+
+    return mode === "ocr"
+        ? ocrImage(dataUrl, apiKey)
+        : transcribeImageWithVision(dataUrl, apiKey);
+}
@@ -0,0 +1,48 @@
+import { supabase } from "./supabaseClient";
+import type { SendMessageResult } from "./whatsappSender";
+
+/**
+ * Store an outbound (MtMessage) row for a message that was just sent,
+ * keeping the provider message ID so delivery receipts can find it later
+ */
+export async function recordOutboundMessage(params: {
+    messageId: string;
+    businessNumber: string;
+    contactNumber: string;
+    text: string;
+    senderName?: string;
+    sendResult: SendMessageResult;
+    channel?: string;
+    contentType?: string;
+    isIn24Window?: boolean;
+    rawPayload?: Record<string, unknown>;
+}): Promise<void> {
+    const now = new Date().toISOString();
+
+    const { error } = await supabase
+        .from("whatsapp_messages")
+        .insert([
+            {
+                message_id: params.messageId,
+                channel: params.channel || "whatsapp",
+                from_number: params.businessNumber,
+                to_number: params.contactNumber,
+                received_at: now,
+                content_type: params.contentType || "text",
+                content_text: params.text,
+                sender_name: params.senderName || "AI Assistant",
+                event_type: "MtMessage",
+                is_in_24_window: params.isIn24Window ?? true,
+                is_responded: false,
+                auto_respond_sent: false,
+                provider_message_id: params.sendResult.providerMessageId || null,
+                delivery_status: "sent",
+                sent_at: now,
+                raw_payload: params.rawPayload || { messageId: params.messageId },
+            },
+        ]);
+
+    if (error) {
+        console.error("Error storing outbound message:", error);
+    }
+}
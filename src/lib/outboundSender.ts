@@ -0,0 +1,310 @@
+import { supabase } from "./supabaseClient";
+import { ChannelSender, getChannelSender } from "./channels";
+import type { InteractiveMessage } from "./interactive";
+import type { OutboundMedia, SendMessageResult, TemplateMessage } from "./providers";
+import { recordOutboundMessage } from "./outboundMessages";
+import { getSessionWindow, getWindowFallbackTemplate } from "./sessionWindow";
+import { reserveSendSlot } from "./rateLimiter";
+import { enqueueJob } from "./jobQueue";
+import { isOptedOut } from "./consent";
+import { getBusinessHoursStatus, getBusinessSchedule } from "./businessHours";
+
+/**
+ * Single path for every outbound message (auto-replies, reminders, fallbacks):
+ * applies the sending rules, sends on the contact's channel and stores the row
+ */
+
+// One message of a (possibly split) reply
+export type OutboundMessage = {
+    text: string;
+    interactive?: InteractiveMessage;
+    media?: OutboundMedia;
+    // Approved template sent as is; `text` is what gets stored (and sent on
+    // channels without templates)
+    template?: TemplateMessage;
+};
+
+// What triggered the send, kept in the send log. "consent" is the reply to
+// STOP/START itself, the only message an opted-out contact still receives.
+// "handoff_notice" tells the business owner a customer needs a person;
+// "agent" is a manual reply from the inbox.
+export type OutboundSource = "auto_reply" | "reminder" | "fallback" | "consent" | "handoff_notice" | "agent";
+
+export type SendOutboundParams = {
+    businessNumber: string;
+    contactId: string;
+    message: OutboundMessage;
+    source: OutboundSource;
+    // ID of the stored outbound row
+    messageId: string;
+    rawPayload?: Record<string, unknown>;
+    // Shown as the sender of the stored row (default "AI Assistant")
+    senderName?: string;
+    // Reuse a sender built from an already loaded mapping
+    sender?: ChannelSender;
+    // Store a dead letter when the send still fails after retries (default true)
+    deadLetter?: boolean;
+    // A rate-limit slot was already reserved for this send (queued sends)
+    throttled?: boolean;
+    // Swap in the number's window-fallback template outside the 24-hour window
+    // (default true). When false the send is blocked instead: the fallback is
+    // worded for customers.
+    windowFallback?: boolean;
+};
+
+export type OutboundResult = SendMessageResult & {
+    // Sent as the window-fallback template instead of the original message
+    template?: TemplateMessage;
+    // Not sent because a sending rule forbids it
+    blocked?: boolean;
+    // Over the rate limit; queued as an outbound_send job for later
+    queued?: boolean;
+    attempts?: number;
+};
+
+// Transient failures (5xx, 429, network) are retried with backoff and jitter
+const SEND_MAX_ATTEMPTS = 3;
+const SEND_BASE_DELAY_MS = 500;
+const SEND_MAX_DELAY_MS = 8000;
+
+// Rate-limited sends wait inline up to this long; later slots go to the job queue
+const MAX_INLINE_THROTTLE_MS = 10 * 1000;
+
+type SendLogAction = "template_fallback" | "blocked" | "failed";
+
+async function logSend(
+    params: SendOutboundParams,
+    channel: string,
+    action: SendLogAction,
+    reason: string,
+    templateId?: string
+) {
+    const { error } = await supabase.from("outbound_send_log").insert({
+        business_number: params.businessNumber,
+        contact_id: params.contactId,
+        channel,
+        message_id: params.messageId,
+        source: params.source,
+        action,
+        reason,
+        template_id: templateId || null,
+    });
+
+    if (error) {
+        console.error("Error writing outbound send log:", error);
+    }
+}
+
+/**
+ * Exponential backoff with "equal jitter" for the given attempt number (1-based)
+ */
+function getSendRetryDelayMs(attempt: number): number {
+    const delay = Math.min(SEND_MAX_DELAY_MS, SEND_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+    return delay / 2 + Math.random() * (delay / 2);
+}
+
+async function sendWithRetries(
+    send: () => Promise<SendMessageResult>,
+    contactId: string
+): Promise<SendMessageResult & { attempts: number }> {
+    for (let attempt = 1; ; attempt++) {
+        const result = await send();
+        if (result.success || !result.retryable || attempt >= SEND_MAX_ATTEMPTS) {
+            return { ...result, attempts: attempt };
+        }
+
+        const delay = getSendRetryDelayMs(attempt);
+        console.warn(`Send to ${contactId} failed (${result.error}), retrying in ${Math.round(delay)}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+    }
+}
+
+async function recordDeadLetter(
+    params: SendOutboundParams,
+    channel: string,
+    result: SendMessageResult & { attempts: number }
+) {
+    const { error } = await supabase.from("outbound_dead_letters").insert({
+        business_number: params.businessNumber,
+        contact_id: params.contactId,
+        channel,
+        source: params.source,
+        message_id: params.messageId,
+        message: params.message,
+        raw_payload: params.rawPayload || null,
+        error: result.error || "Unknown error",
+        status_code: result.statusCode || null,
+        attempts: result.attempts,
+    });
+
+    if (error) {
+        console.error("Error storing outbound dead letter:", error);
+    }
+}
+
+function contentType(message: OutboundMessage): string | undefined {
+    if (message.media) return message.media.type;
+    if (message.interactive) return "interactive";
+    return undefined;
+}
+
+export async function sendOutboundMessage(params: SendOutboundParams): Promise<OutboundResult> {
+    const { businessNumber, contactId, message } = params;
+
+    const sender = params.sender || await getChannelSender(businessNumber, contactId);
+    if (!sender?.hasCredentials) {
+        return { success: false, error: "No sending credentials configured for this number" };
+    }
+
+    if (params.source !== "consent" && await isOptedOut(businessNumber, contactId)) {
+        console.warn(`Not sending ${params.source} to ${contactId}: contact opted out`);
+        await logSend(params, sender.channel, "blocked", "Contact opted out of messages");
+        return { success: false, blocked: true, error: "Contact opted out of messages" };
+    }
+
+    // Unprompted messages wait for business hours when the number asks for it
+    if (params.source === "reminder") {
+        const schedule = await getBusinessSchedule(businessNumber);
+        if (schedule.suppressReminders && !getBusinessHoursStatus(schedule).open) {
+            console.warn(`Not sending reminder to ${contactId}: outside business hours`);
+            await logSend(params, sender.channel, "blocked", "Outside business hours");
+            return { success: false, blocked: true, error: "Outside business hours" };
+        }
+    }
+
+    if (!params.throttled) {
+        const waitMs = await reserveSendSlot(businessNumber, contactId);
+
+        if (waitMs > MAX_INLINE_THROTTLE_MS) {
+            // The slot is reserved, so the queued send doesn't take another one
+            const queued = await enqueueJob("outbound_send", { ...params, sender: undefined, throttled: true }, {
+                businessNumber,
+                runAt: new Date(Date.now() + waitMs),
+            });
+
+            if (queued.success) {
+                console.log(`Rate limit reached for ${businessNumber}, send to ${contactId} queued for ${Math.round(waitMs / 1000)}s`);
+                return { success: true, queued: true };
+            }
+
+            console.error(`Could not queue rate-limited send to ${contactId}:`, queued.error);
+        }
+
+        if (waitMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, Math.min(waitMs, MAX_INLINE_THROTTLE_MS)));
+        }
+    }
+
+    // Outside WhatsApp's 24-hour window only approved templates get through
+    let template: TemplateMessage | undefined = sender.sendTemplate ? message.template : undefined;
+    let isIn24Window = true;
+
+    if (sender.sendTemplate && !template) {
+        const window = await getSessionWindow(businessNumber, contactId);
+        isIn24Window = window.isOpen;
+
+        if (!window.isOpen) {
+            const reason = window.lastInboundAt
+                ? `24-hour window closed at ${window.expiresAt}`
+                : "Customer has never messaged this number";
+
+            const fallback = params.windowFallback === false ? null : await getWindowFallbackTemplate(businessNumber, {
+                message: message.media?.caption || message.text,
+                customer_name: window.customerName,
+                business_number: businessNumber,
+            });
+
+            if (!fallback) {
+                const missing = params.windowFallback === false ? "no template for this message" : "no fallback template configured";
+                console.warn(`Not sending to ${contactId}: ${reason} and ${missing}`);
+                await logSend(params, sender.channel, "blocked", `${reason}; ${missing}`);
+                return { success: false, blocked: true, error: `${reason}; ${missing}` };
+            }
+
+            console.log(`Sending template ${fallback.templateId} to ${contactId}: ${reason}`);
+            await logSend(params, sender.channel, "template_fallback", reason, fallback.templateId);
+            template = fallback;
+        }
+    }
+
+    const sendResult = await sendWithRetries(() => {
+        if (template && sender.sendTemplate) return sender.sendTemplate(contactId, template);
+        if (message.media) return sender.sendMedia(contactId, message.media);
+        if (message.interactive) return sender.sendInteractive(contactId, message.interactive);
+        return sender.sendText(contactId, message.text);
+    }, contactId);
+
+    if (!sendResult.success) {
+        await logSend(params, sender.channel, "failed", sendResult.error || "Unknown error", template?.templateId);
+        if (params.deadLetter !== false) {
+            await recordDeadLetter(params, sender.channel, sendResult);
+        }
+        return { ...sendResult, template };
+    }
+
+    await recordOutboundMessage({
+        messageId: params.messageId,
+        businessNumber,
+        contactNumber: contactId,
+        text: message.text,
+        senderName: params.senderName,
+        sendResult,
+        channel: sender.channel,
+        contentType: template ? "template" : contentType(message),
+        isIn24Window,
+        rawPayload: {
+            messageId: params.messageId,
+            ...params.rawPayload,
+            ...(message.interactive && !template ? { interactive: message.interactive } : {}),
+            ...(message.media && !template ? { media: message.media } : {}),
+            ...(template ? { template } : {}),
+        },
+    });
+
+    return { ...sendResult, template };
+}
+
+/**
+ * Send a dead-lettered message again. It goes through the same rules as a
+ * fresh send (e.g. the 24-hour window) and stays dead if it fails again.
+ */
+export async function replayDeadLetter(id: string): Promise<OutboundResult | null> {
+    const { data: letter, error } = await supabase
+        .from("outbound_dead_letters")
+        .select("*")
+        .eq("id", id)
+        .eq("status", "dead")
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load dead letter: ${error.message}`);
+    }
+    if (!letter) {
+        return null;
+    }
+
+    const result = await sendOutboundMessage({
+        businessNumber: letter.business_number,
+        contactId: letter.contact_id,
+        message: letter.message as OutboundMessage,
+        source: letter.source as OutboundSource,
+        messageId: letter.message_id,
+        rawPayload: { ...letter.raw_payload, replayedFrom: letter.id },
+        deadLetter: false,
+    });
+
+    const now = new Date().toISOString();
+    await supabase
+        .from("outbound_dead_letters")
+        .update(result.success
+            ? { status: "replayed", replayed_at: now, updated_at: now }
+            : {
+                error: result.error || "Unknown error",
+                status_code: result.statusCode || null,
+                attempts: letter.attempts + (result.attempts || 0),
+                updated_at: now,
+            })
+        .eq("id", letter.id);
+
+    return result;
+}
@@ -0,0 +1,189 @@
+import { DeliveryReceipt, normalizeDeliveryStatus } from "../deliveryStatus";
+import { formatInteractiveAsText, InteractiveMessage } from "../interactive";
+import {
+    InboundMessage,
+    isRetryableStatus,
+    OutboundMedia,
+    ProviderCredentials,
+    SendMessageResult,
+    TemplateMessage,
+    WhatsAppProvider,
+} from "./types";
+
+/**
+ * 11za.in provider. Its webhook payload is our internal message shape.
+ */
+
+// Overridable so the sender can be pointed at a local mock server
+const API_BASE_URL = process.env.ELEVENZA_API_BASE_URL || "https://api.11za.in";
+
+// 11za webhook body, including the fields of delivery receipt (status) events
+type ElevenZaWebhookBody = InboundMessage & {
+    status?: string;
+    deliveryStatus?: string;
+    providerMessageId?: string;
+    errorMessage?: string;
+    reason?: string;
+};
+
+type SendResponseShape = {
+    messageId?: unknown;
+    message_id?: unknown;
+    id?: unknown;
+    data?: { messageId?: unknown; message_id?: unknown; id?: unknown };
+};
+
+/**
+ * Find the provider message ID in a send response
+ */
+function extractProviderMessageId(response: unknown): string | undefined {
+    const resp = (response || {}) as SendResponseShape;
+    const candidates = [
+        resp.messageId,
+        resp.message_id,
+        resp.id,
+        resp.data?.messageId,
+        resp.data?.message_id,
+        resp.data?.id,
+    ];
+
+    const id = candidates.find((c) => typeof c === "string" || typeof c === "number");
+    return id === undefined ? undefined : String(id);
+}
+
+async function post(path: string, payload: Record<string, unknown>): Promise<SendMessageResult> {
+    try {
+        const response = await fetch(`${API_BASE_URL}${path}`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify(payload),
+        });
+
+        // Don't let an unparseable body turn a delivered message into a retry
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok) {
+            console.error("11za API error:", data);
+            return {
+                success: false,
+                error: `WhatsApp API returned ${response.status}`,
+                response: data,
+                statusCode: response.status,
+                retryable: isRetryableStatus(response.status),
+            };
+        }
+
+        return {
+            success: true,
+            response: data,
+            providerMessageId: extractProviderMessageId(data),
+        };
+    } catch (error) {
+        console.error("Error calling 11za API:", error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+            // Network error - the request never got a response
+            retryable: true,
+        };
+    }
+}
+
+function isReceiptEvent(body: ElevenZaWebhookBody): boolean {
+    return body.event !== "MoMessage" && body.event !== "MtMessage"
+        && normalizeDeliveryStatus(body.status ?? body.deliveryStatus) !== null;
+}
+
+export const elevenZaProvider: WhatsAppProvider = {
+    name: "11za",
+
+    hasCredentials(credentials: ProviderCredentials) {
+        return !!credentials.authToken && !!credentials.origin;
+    },
+
+    async sendText(credentials: ProviderCredentials, to: string, text: string) {
+        console.log(`Sending WhatsApp message to ${to} via 11za...`);
+        return post("/apis/sendMessage/sendMessages", {
+            sendto: to,
+            authToken: credentials.authToken,
+            originWebsite: credentials.origin,
+            contentType: "text",
+            text,
+        });
+    },
+
+    // 11za has no language field: each approved template ID is already tied to
+    // one language, so template.language is not sent
+    async sendTemplate(credentials: ProviderCredentials, to: string, template: TemplateMessage) {
+        return post("/apis/template/sendTemplate", {
+            sendto: to,
+            authToken: credentials.authToken,
+            originWebsite: credentials.origin,
+            templateId: template.templateId,
+            parameters: template.parameters || {},
+        });
+    },
+
+    async sendMedia(credentials: ProviderCredentials, to: string, media: OutboundMedia) {
+        console.log(`Sending WhatsApp ${media.type} to ${to} via 11za...`);
+        return post("/apis/sendMessage/sendMessages", {
+            sendto: to,
+            authToken: credentials.authToken,
+            originWebsite: credentials.origin,
+            contentType: media.type,
+            mediaUrl: media.url,
+            text: media.caption || "",
+            fileName: media.fileName,
+        });
+    },
+
+    // The session-message API only takes text and media, so choices go out as a numbered
+    // list; replies are matched back to the options in the webhook processor
+    async sendInteractive(credentials: ProviderCredentials, to: string, message: InteractiveMessage) {
+        return elevenZaProvider.sendText(credentials, to, formatInteractiveAsText(message));
+    },
+
+    // 11za media links are public URLs
+    async downloadMedia(_credentials: ProviderCredentials, url: string) {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to download media: ${response.status}`);
+        }
+
+        return { buffer: await response.arrayBuffer(), contentType: response.headers.get("content-type") };
+    },
+
+    parseInbound(body: unknown) {
+        const payload = body as ElevenZaWebhookBody;
+        if (!payload || isReceiptEvent(payload)) {
+            return [];
+        }
+
+        return [payload];
+    },
+
+    parseStatus(body: unknown) {
+        const payload = body as ElevenZaWebhookBody;
+        if (!payload || !isReceiptEvent(payload)) {
+            return [];
+        }
+
+        const providerMessageId = payload.providerMessageId || payload.messageId;
+        const status = normalizeDeliveryStatus(payload.status ?? payload.deliveryStatus);
+        if (!providerMessageId || !status) {
+            return [];
+        }
+
+        const reported = new Date(payload.timestamp || payload.receivedAt);
+        const receipt: DeliveryReceipt = {
+            providerMessageId: String(providerMessageId),
+            status,
+            occurredAt: isNaN(reported.getTime()) ? new Date().toISOString() : reported.toISOString(),
+            error: status === "failed" ? payload.errorMessage || payload.reason : undefined,
+        };
+
+        return [receipt];
+    },
+};
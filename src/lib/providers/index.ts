@@ -0,0 +1,24 @@
+import { elevenZaProvider } from "./elevenZa";
+import { metaCloudProvider } from "./metaCloud";
+import { ProviderName, WhatsAppProvider } from "./types";
+
+export * from "./types";
+export { getMetaBusinessNumbers } from "./metaCloud";
+
+const providers: Record<ProviderName, WhatsAppProvider> = {
+    "11za": elevenZaProvider,
+    meta: metaCloudProvider,
+};
+
+export const DEFAULT_PROVIDER: ProviderName = "11za";
+
+export function isProviderName(name: unknown): name is ProviderName {
+    return typeof name === "string" && name in providers;
+}
+
+/**
+ * Get a provider by name, falling back to 11za for unknown/empty values
+ */
+export function getProvider(name?: string | null): WhatsAppProvider {
+    return isProviderName(name) ? providers[name] : providers[DEFAULT_PROVIDER];
+}
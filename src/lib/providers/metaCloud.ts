@@ -0,0 +1,345 @@
+import { DeliveryReceipt, normalizeDeliveryStatus } from "../deliveryStatus";
+import { InteractiveMessage, InteractiveOption } from "../interactive";
+import {
+    InboundMessage,
+    isRetryableStatus,
+    OutboundMedia,
+    ProviderCredentials,
+    SendMessageResult,
+    TemplateMessage,
+    WhatsAppProvider,
+} from "./types";
+
+/**
+ * Meta WhatsApp Cloud API provider
+ */
+
+// Overridable so the sender can be pointed at a local mock server
+const API_BASE_URL = process.env.META_GRAPH_API_BASE_URL || "https://graph.facebook.com";
+const API_VERSION = process.env.META_GRAPH_API_VERSION || "v21.0";
+
+type MetaMediaObject = {
+    id: string;
+    mime_type?: string;
+    caption?: string;
+    filename?: string;
+    voice?: boolean;
+};
+
+type MetaMessage = {
+    from: string;
+    id: string;
+    timestamp: string;
+    type: string;
+    text?: { body: string };
+    image?: MetaMediaObject;
+    document?: MetaMediaObject;
+    audio?: MetaMediaObject;
+    voice?: MetaMediaObject;
+    video?: MetaMediaObject;
+    button?: { text?: string; payload?: string };
+    interactive?: {
+        type: string;
+        button_reply?: { id: string; title: string };
+        list_reply?: { id: string; title: string; description?: string };
+    };
+};
+
+type MetaStatus = {
+    id: string;
+    status: string;
+    timestamp: string;
+    recipient_id: string;
+    errors?: Array<{ code?: number; title?: string; message?: string }>;
+};
+
+type MetaChangeValue = {
+    metadata?: { display_phone_number?: string; phone_number_id?: string };
+    contacts?: Array<{ wa_id: string; profile?: { name?: string } }>;
+    messages?: MetaMessage[];
+    statuses?: MetaStatus[];
+};
+
+type MetaWebhookBody = {
+    object?: string;
+    entry?: Array<{ changes?: Array<{ field?: string; value?: MetaChangeValue }> }>;
+};
+
+const MEDIA_TYPES = ["image", "document", "audio", "voice", "video"] as const;
+
+function messagesUrl(credentials: ProviderCredentials): string {
+    return `${API_BASE_URL}/${API_VERSION}/${credentials.phoneNumberId}/messages`;
+}
+
+// Cloud API length limits for interactive messages
+const BUTTON_TITLE_MAX = 20;
+const ROW_TITLE_MAX = 24;
+const ROW_DESCRIPTION_MAX = 72;
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function toInteractivePayload(message: InteractiveMessage): Record<string, unknown> {
+    const footer = message.footer ? { footer: { text: message.footer } } : {};
+
+    if (message.type === "button") {
+        return {
+            type: "button",
+            body: { text: message.body },
+            ...footer,
+            action: {
+                buttons: message.buttons.map((option) => ({
+                    type: "reply",
+                    reply: { id: option.id, title: truncate(option.title, BUTTON_TITLE_MAX) },
+                })),
+            },
+        };
+    }
+
+    const toRow = (option: InteractiveOption) => ({
+        id: option.id,
+        title: truncate(option.title, ROW_TITLE_MAX),
+        ...(option.description ? { description: truncate(option.description, ROW_DESCRIPTION_MAX) } : {}),
+    });
+
+    return {
+        type: "list",
+        body: { text: message.body },
+        ...footer,
+        action: {
+            button: truncate(message.buttonText, BUTTON_TITLE_MAX),
+            sections: message.sections.map((section) => ({
+                ...(section.title ? { title: truncate(section.title, ROW_TITLE_MAX) } : {}),
+                rows: section.rows.map(toRow),
+            })),
+        },
+    };
+}
+
+function toIso(unixSeconds: string): string {
+    const date = new Date(Number(unixSeconds) * 1000);
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function digitsOnly(phoneNumber: string): string {
+    return phoneNumber.replace(/\D/g, "");
+}
+
+function changeValues(body: unknown): MetaChangeValue[] {
+    const payload = (body || {}) as MetaWebhookBody;
+    return (payload.entry || [])
+        .flatMap((entry) => entry.changes || [])
+        .filter((change) => change.field === "messages" && change.value)
+        .map((change) => change.value as MetaChangeValue);
+}
+
+async function send(credentials: ProviderCredentials, message: Record<string, unknown>): Promise<SendMessageResult> {
+    try {
+        const response = await fetch(messagesUrl(credentials), {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "Authorization": `Bearer ${credentials.authToken}`,
+            },
+            body: JSON.stringify({
+                messaging_product: "whatsapp",
+                recipient_type: "individual",
+                ...message,
+            }),
+        });
+
+        // Don't let an unparseable body turn a delivered message into a retry
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok) {
+            console.error("Meta Cloud API error:", data);
+            return {
+                success: false,
+                error: data?.error?.message || `WhatsApp API returned ${response.status}`,
+                response: data,
+                statusCode: response.status,
+                retryable: isRetryableStatus(response.status),
+            };
+        }
+
+        return {
+            success: true,
+            response: data,
+            providerMessageId: data?.messages?.[0]?.id,
+        };
+    } catch (error) {
+        console.error("Error calling Meta Cloud API:", error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+            // Network error - the request never got a response
+            retryable: true,
+        };
+    }
+}
+
+/**
+ * Convert one Cloud API message to our internal shape
+ */
+function toInboundMessage(message: MetaMessage, value: MetaChangeValue): InboundMessage {
+    const contact = value.contacts?.find((c) => c.wa_id === message.from);
+    const receivedAt = toIso(message.timestamp);
+
+    const inbound: InboundMessage = {
+        messageId: message.id,
+        channel: "whatsapp",
+        from: message.from,
+        to: digitsOnly(value.metadata?.display_phone_number || ""),
+        receivedAt,
+        content: { contentType: "text" },
+        whatsapp: { senderName: contact?.profile?.name },
+        timestamp: receivedAt,
+        event: "MoMessage",
+        isin24window: true,
+        isResponded: false,
+    };
+
+    const mediaType = MEDIA_TYPES.find((t) => t === message.type);
+    const media = mediaType ? message[mediaType] : undefined;
+
+    if (mediaType && media) {
+        inbound.content = {
+            contentType: "media",
+            text: media.caption,
+            media: {
+                // Cloud API voice notes arrive as audio with voice=true
+                type: mediaType === "audio" && media.voice ? "voice" : mediaType,
+                // Graph API media endpoint - resolved to a download link in downloadMedia
+                url: `${API_BASE_URL}/${API_VERSION}/${media.id}`,
+                mimeType: media.mime_type,
+                caption: media.caption,
+                fileName: media.filename,
+            },
+        };
+    } else if (message.type === "text") {
+        inbound.content.text = message.text?.body;
+    } else if (message.type === "button") {
+        inbound.content.text = message.button?.text;
+        inbound.UserResponse = message.button?.payload;
+    } else if (message.type === "interactive") {
+        const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+        inbound.content.text = reply?.title;
+        inbound.UserResponse = reply?.id;
+        if (reply) {
+            inbound.interactiveReply = { id: reply.id, title: reply.title };
+        }
+    }
+
+    return inbound;
+}
+
+export const metaCloudProvider: WhatsAppProvider = {
+    name: "meta",
+
+    hasCredentials(credentials: ProviderCredentials) {
+        return !!credentials.authToken && !!credentials.phoneNumberId;
+    },
+
+    async sendText(credentials: ProviderCredentials, to: string, text: string) {
+        console.log(`Sending WhatsApp message to ${to} via Meta Cloud API...`);
+        return send(credentials, {
+            to,
+            type: "text",
+            text: { body: text, preview_url: false },
+        });
+    },
+
+    async sendTemplate(credentials: ProviderCredentials, to: string, template: TemplateMessage) {
+        const parameters = Object.values(template.parameters || {});
+        return send(credentials, {
+            to,
+            type: "template",
+            template: {
+                name: template.templateId,
+                language: { code: template.language || "en" },
+                components: parameters.length > 0
+                    ? [{ type: "body", parameters: parameters.map((text) => ({ type: "text", text })) }]
+                    : [],
+            },
+        });
+    },
+
+    async sendMedia(credentials: ProviderCredentials, to: string, media: OutboundMedia) {
+        console.log(`Sending WhatsApp ${media.type} to ${to} via Meta Cloud API...`);
+        return send(credentials, {
+            to,
+            type: media.type,
+            [media.type]: {
+                link: media.url,
+                // Audio messages can't have a caption
+                ...(media.caption && media.type !== "audio" ? { caption: media.caption } : {}),
+                ...(media.fileName && media.type === "document" ? { filename: media.fileName } : {}),
+            },
+        });
+    },
+
+    async sendInteractive(credentials: ProviderCredentials, to: string, message: InteractiveMessage) {
+        console.log(`Sending WhatsApp ${message.type} message to ${to} via Meta Cloud API...`);
+        return send(credentials, {
+            to,
+            type: "interactive",
+            interactive: toInteractivePayload(message),
+        });
+    },
+
+    // Media URLs point at the Graph API media object, which returns a short-lived download link
+    async downloadMedia(credentials: ProviderCredentials, url: string) {
+        const headers = { "Authorization": `Bearer ${credentials.authToken}` };
+
+        const infoResponse = await fetch(url, { headers });
+        if (!infoResponse.ok) {
+            throw new Error(`Failed to look up media: ${infoResponse.status}`);
+        }
+        const info = await infoResponse.json();
+
+        const response = await fetch(info.url, { headers });
+        if (!response.ok) {
+            throw new Error(`Failed to download media: ${response.status}`);
+        }
+
+        return {
+            buffer: await response.arrayBuffer(),
+            contentType: info.mime_type || response.headers.get("content-type"),
+        };
+    },
+
+    parseInbound(body: unknown) {
+        return changeValues(body).flatMap((value) =>
+            (value.messages || []).map((message) => toInboundMessage(message, value))
+        );
+    },
+
+    parseStatus(body: unknown) {
+        return changeValues(body).flatMap((value) =>
+            (value.statuses || []).flatMap((status): DeliveryReceipt[] => {
+                const normalized = normalizeDeliveryStatus(status.status);
+                if (!normalized) return [];
+
+                const error = status.errors?.[0];
+                return [{
+                    providerMessageId: status.id,
+                    status: normalized,
+                    occurredAt: toIso(status.timestamp),
+                    error: normalized === "failed" ? error?.message || error?.title : undefined,
+                }];
+            })
+        );
+    },
+};
+
+/**
+ * Business phone numbers (digits only) a Cloud API webhook body is addressed to
+ */
+export function getMetaBusinessNumbers(body: unknown): string[] {
+    const numbers = changeValues(body)
+        .map((value) => digitsOnly(value.metadata?.display_phone_number || ""))
+        .filter(Boolean);
+
+    return [...new Set(numbers)];
+}
@@ -0,0 +1,96 @@
+import type { DeliveryReceipt } from "../deliveryStatus";
+import type { InteractiveMessage, InteractiveReply } from "../interactive";
+
+/**
+ * Shared types for WhatsApp Business Solution Providers (BSPs)
+ */
+
+export type ProviderName = "11za" | "meta";
+
+// Per-number credentials from phone_document_mapping
+export type ProviderCredentials = {
+    // 11za auth token, or the Meta Cloud API access token
+    authToken?: string | null;
+    // 11za origin website
+    origin?: string | null;
+    // Meta Cloud API phone number ID
+    phoneNumberId?: string | null;
+};
+
+export type SendMessageResult = {
+    success: boolean;
+    error?: string;
+    response?: unknown;
+    // Provider's ID for the sent message, used to match delivery receipts
+    providerMessageId?: string;
+    // HTTP status of a failed call
+    statusCode?: number;
+    // Failure is transient (5xx, 429, network) and the send can be retried
+    retryable?: boolean;
+};
+
+export function isRetryableStatus(status: number): boolean {
+    return status >= 500 || status === 429;
+}
+
+export type TemplateMessage = {
+    templateId: string;
+    language?: string;
+    parameters?: Record<string, string>;
+};
+
+export type OutboundMedia = {
+    type: "image" | "document" | "audio" | "video";
+    url: string;
+    caption?: string;
+    fileName?: string;
+    // OGG/Opus audio to show as a voice note rather than an audio file
+    voice?: boolean;
+};
+
+/**
+ * Inbound message in our internal (11za-style) shape - every provider's
+ * webhook is normalised to this before it is stored and processed
+ */
+export type InboundMessage = {
+    messageId: string;
+    channel: string;
+    from: string;
+    to: string;
+    receivedAt: string;
+    content: {
+        contentType: string;
+        text?: string;
+        media?: {
+            type: string;
+            url: string;
+            mimeType?: string;
+            caption?: string;
+            fileName?: string;
+        };
+    };
+    whatsapp?: {
+        senderName?: string;
+    };
+    timestamp: string;
+    event: string;
+    isin24window?: boolean;
+    isResponded?: boolean;
+    UserResponse?: string;
+    // Button / list choice, when the provider reports one
+    interactiveReply?: InteractiveReply;
+};
+
+export interface WhatsAppProvider {
+    name: ProviderName;
+    hasCredentials(credentials: ProviderCredentials): boolean;
+    sendText(credentials: ProviderCredentials, to: string, text: string): Promise<SendMessageResult>;
+    sendTemplate(credentials: ProviderCredentials, to: string, template: TemplateMessage): Promise<SendMessageResult>;
+    sendMedia(credentials: ProviderCredentials, to: string, media: OutboundMedia): Promise<SendMessageResult>;
+    sendInteractive(credentials: ProviderCredentials, to: string, message: InteractiveMessage): Promise<SendMessageResult>;
+    downloadMedia(credentials: ProviderCredentials, url: string): Promise<{ buffer: ArrayBuffer; contentType: string | null }>;
+    // Webhook body -> inbound messages (empty for receipts and other events)
+    parseInbound(body: unknown): InboundMessage[];
+    // Webhook body -> delivery receipts (empty for inbound messages)
+    parseStatus(body: unknown): DeliveryReceipt[];
+}
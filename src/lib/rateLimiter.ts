@@ -0,0 +1,76 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * Token-bucket limits on outbound sends, per business number and optionally
+ * per recipient. Bucket state lives in Supabase so every instance shares it.
+ */
+
+export type RateLimits = {
+    perMinute: number;
+    burst: number;
+    // Null when there is no per-recipient limit
+    recipientPerMinute: number | null;
+};
+
+const DEFAULT_RATE_LIMITS: RateLimits = {
+    perMinute: 600,
+    burst: 20,
+    recipientPerMinute: null,
+};
+
+export async function getRateLimits(businessNumber: string): Promise<RateLimits> {
+    const { data, error } = await supabase
+        .from("phone_document_mapping")
+        .select("rate_limit_per_minute, rate_limit_burst, recipient_rate_limit_per_minute")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    if (error || !data) {
+        return DEFAULT_RATE_LIMITS;
+    }
+
+    return {
+        perMinute: data.rate_limit_per_minute || DEFAULT_RATE_LIMITS.perMinute,
+        burst: data.rate_limit_burst || DEFAULT_RATE_LIMITS.burst,
+        recipientPerMinute: data.recipient_rate_limit_per_minute || null,
+    };
+}
+
+async function reserveToken(bucketKey: string, capacity: number, perMinute: number): Promise<number> {
+    const { data, error } = await supabase.rpc("reserve_rate_limit_token", {
+        p_bucket_key: bucketKey,
+        p_capacity: capacity,
+        p_refill_per_second: perMinute / 60,
+    });
+
+    // Don't hold messages back because the limiter itself is unavailable
+    if (error) {
+        console.error(`Error reserving rate limit token for ${bucketKey}:`, error);
+        return 0;
+    }
+
+    return data || 0;
+}
+
+/**
+ * Reserve a send slot for a message to the contact. Returns how many
+ * milliseconds to wait before sending (0 = send now); the slot is held
+ * either way, so the caller must send at that time rather than ask again.
+ */
+export async function reserveSendSlot(businessNumber: string, contactId: string): Promise<number> {
+    const limits = await getRateLimits(businessNumber);
+
+    const waits = [await reserveToken(`business:${businessNumber}`, limits.burst, limits.perMinute)];
+
+    if (limits.recipientPerMinute) {
+        waits.push(await reserveToken(
+            `recipient:${businessNumber}:${contactId}`,
+            // A customer can get a short multi-part reply at once
+            Math.min(limits.burst, limits.recipientPerMinute),
+            limits.recipientPerMinute
+        ));
+    }
+
+    return Math.max(...waits);
+}
@@ -0,0 +1,230 @@
+import { supabase } from "./supabaseClient";
+import { normalizeKeyword } from "./consent";
+import { buildTemplateMessage, getTemplateByName } from "./templates";
+import { renderTemplateParameters, TemplateVariables } from "./sessionWindow";
+import type { OutboundMedia } from "./providers";
+import type { OutboundMessage } from "./outboundSender";
+
+/**
+ * Keyword / FAQ rules per business number: owner-approved answers for things
+ * like the address, timings or the menu, sent word for word before the LLM
+ * gets a chance to paraphrase them
+ */
+
+export const RULE_MATCH_TYPES = ["keyword", "regex"] as const;
+
+export type RuleMatchType = (typeof RULE_MATCH_TYPES)[number];
+
+const MEDIA_TYPES: OutboundMedia["type"][] = ["image", "document", "audio", "video"];
+
+export type ReplyRule = {
+    id: string;
+    phone_number: string;
+    name: string;
+    // Higher runs first
+    priority: number;
+    enabled: boolean;
+    match_type: RuleMatchType;
+    // Keywords and their synonyms in any language, or regexes
+    patterns: string[];
+    reply_text: string | null;
+    media_url: string | null;
+    media_type: OutboundMedia["type"] | null;
+    // Registered template sent instead of the text/media
+    template_name: string | null;
+    template_params: Record<string, string> | null;
+    hit_count: number;
+    last_hit_at: string | null;
+    created_at: string;
+    updated_at: string;
+};
+
+export type ReplyRuleInput = Pick<
+    ReplyRule,
+    "name" | "priority" | "enabled" | "match_type" | "patterns" | "reply_text" | "media_url" | "media_type" | "template_name" | "template_params"
+>;
+
+function isRuleMatchType(value: unknown): value is RuleMatchType {
+    return typeof value === "string" && (RULE_MATCH_TYPES as readonly string[]).includes(value);
+}
+
+function isValidRegex(pattern: string): boolean {
+    try {
+        new RegExp(pattern, "iu");
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function optionalText(value: unknown): string | null {
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validate a create/update request body. With the `stored` rule being updated,
+ * missing fields are allowed and keep their stored values.
+ */
+export function parseReplyRuleInput(
+    body: Record<string, unknown>,
+    stored?: ReplyRule
+): { input?: Partial<ReplyRuleInput>; error?: string } {
+    const input: Partial<ReplyRuleInput> = {};
+    const partial = !!stored;
+
+    if (body.name !== undefined || !partial) {
+        if (typeof body.name !== "string" || !body.name.trim()) {
+            return { error: "name is required" };
+        }
+        input.name = body.name.trim();
+    }
+
+    if (body.priority !== undefined) {
+        if (!Number.isInteger(body.priority)) {
+            return { error: "priority must be a whole number" };
+        }
+        input.priority = body.priority as number;
+    }
+
+    if (body.enabled !== undefined) {
+        input.enabled = !!body.enabled;
+    }
+
+    if (body.match_type !== undefined || !partial) {
+        const matchType = body.match_type ?? "keyword";
+        if (!isRuleMatchType(matchType)) {
+            return { error: `match_type must be one of ${RULE_MATCH_TYPES.join(", ")}` };
+        }
+        input.match_type = matchType;
+    }
+
+    if (body.patterns !== undefined || !partial) {
+        const patterns = Array.isArray(body.patterns)
+            ? body.patterns.filter((p): p is string => typeof p === "string").map((p) => p.trim()).filter(Boolean)
+            : [];
+        if (patterns.length === 0) {
+            return { error: "patterns must list at least one keyword or regex" };
+        }
+        input.patterns = patterns;
+    }
+
+    for (const field of ["reply_text", "media_url", "template_name"] as const) {
+        if (body[field] !== undefined) {
+            input[field] = optionalText(body[field]);
+        }
+    }
+
+    if (body.media_type !== undefined) {
+        if (body.media_type !== null && body.media_type !== "" && !MEDIA_TYPES.includes(body.media_type as OutboundMedia["type"])) {
+            return { error: `media_type must be one of ${MEDIA_TYPES.join(", ")}` };
+        }
+        input.media_type = (body.media_type || null) as OutboundMedia["type"] | null;
+    }
+
+    if (body.template_params !== undefined) {
+        const params = body.template_params;
+        if (params !== null && (typeof params !== "object" || Array.isArray(params)
+            || !Object.values(params).every((v) => typeof v === "string"))) {
+            return { error: "template_params must map parameter names to text" };
+        }
+        input.template_params = params as Record<string, string> | null;
+    }
+
+    // Updates change a few fields at a time, so the checks below that span
+    // several fields look at the rule as it will be stored
+    const merged: Partial<ReplyRuleInput> = { ...stored, ...input };
+
+    const invalid = merged.match_type === "regex"
+        ? (merged.patterns || []).find((p) => !isValidRegex(p))
+        : undefined;
+    if (invalid) {
+        return { error: `Invalid regex: ${invalid}` };
+    }
+
+    if (merged.media_url && !merged.media_type) {
+        return { error: "media_type is required with media_url" };
+    }
+
+    if (!merged.reply_text && !merged.media_url && !merged.template_name) {
+        return { error: "A rule needs a reply_text, media_url or template_name" };
+    }
+
+    return { input };
+}
+
+/**
+ * The number's enabled rules, highest priority first
+ */
+export async function getReplyRules(businessNumber: string): Promise<ReplyRule[]> {
+    const { data, error } = await supabase
+        .from("reply_rules")
+        .select("*")
+        .eq("phone_number", businessNumber)
+        .eq("enabled", true)
+        .order("priority", { ascending: false })
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        console.error("Error loading reply rules:", error);
+        return [];
+    }
+
+    return data || [];
+}
+
+function matchesRule(rule: ReplyRule, text: string, padded: string): boolean {
+    if (rule.match_type === "regex") {
+        return rule.patterns.some((pattern) => isValidRegex(pattern) && new RegExp(pattern, "iu").test(text));
+    }
+
+    // Whole words or phrases: "menu" matches "send me the menu" but not "menus"
+    return rule.patterns.some((keyword) => {
+        const normalized = normalizeKeyword(keyword);
+        return normalized.length > 0 && padded.includes(` ${normalized} `);
+    });
+}
+
+/**
+ * First rule (by priority) the message matches, if any
+ */
+export function findMatchingRule(rules: ReplyRule[], text: string): ReplyRule | null {
+    const padded = ` ${normalizeKeyword(text)} `;
+    return rules.find((rule) => matchesRule(rule, text, padded)) || null;
+}
+
+/**
+ * The rule's reply: its template, otherwise the text (as the media caption
+ * when there is media). Null when nothing sendable is configured.
+ */
+export async function buildRuleReply(
+    rule: ReplyRule,
+    variables: TemplateVariables
+): Promise<OutboundMessage | null> {
+    if (rule.template_name) {
+        const template = await getTemplateByName(rule.phone_number, rule.template_name);
+        if (template) {
+            return {
+                text: rule.reply_text || template.preview_text || `[template] ${template.name}`,
+                template: buildTemplateMessage(template, renderTemplateParameters(rule.template_params, variables)),
+            };
+        }
+        console.error(`Reply rule "${rule.name}" uses unregistered template "${rule.template_name}"`);
+    }
+
+    if (rule.media_url && rule.media_type) {
+        return {
+            text: rule.reply_text || `[${rule.media_type}] ${rule.media_url}`,
+            media: { type: rule.media_type, url: rule.media_url, caption: rule.reply_text || undefined },
+        };
+    }
+
+    return rule.reply_text ? { text: rule.reply_text } : null;
+}
+
+export async function recordRuleHit(ruleId: string): Promise<void> {
+    const { error } = await supabase.rpc("record_reply_rule_hit", { p_rule_id: ruleId });
+
+    if (error) {
+        console.error("Error recording reply rule hit:", error);
+    }
+}
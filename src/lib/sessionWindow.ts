@@ -0,0 +1,124 @@
+import { supabase } from "./supabaseClient";
+import type { TemplateMessage } from "./providers";
+import { buildTemplateMessage, getTemplateByName } from "./templates";
+
+/**
+ * WhatsApp 24-hour customer service window. Free-form messages can only be
+ * sent within 24 hours of the customer's last message; after that only
+ * approved templates are delivered.
+ */
+
+export const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// WhatsApp rejects template parameters with newlines/tabs and over 1024 characters
+const MAX_TEMPLATE_PARAMETER_LENGTH = 1024;
+
+export type SessionWindow = {
+    isOpen: boolean;
+    lastInboundAt: string | null;
+    expiresAt: string | null;
+    customerName: string | null;
+};
+
+// Values available to window_template_params, e.g. {"1": "{{customer_name}}", "2": "{{message}}"}
+export type TemplateVariables = {
+    message: string;
+    customer_name?: string | null;
+    business_number: string;
+};
+
+/**
+ * Window state of a conversation, from the customer's last inbound message
+ */
+export async function getSessionWindow(businessNumber: string, contactId: string): Promise<SessionWindow> {
+    const { data, error } = await supabase
+        .from("whatsapp_messages")
+        .select("received_at, sender_name")
+        .eq("from_number", contactId)
+        .eq("to_number", businessNumber)
+        .eq("event_type", "MoMessage")
+        .order("received_at", { ascending: false })
+        .limit(1);
+
+    if (error) {
+        throw new Error(`Failed to load session window: ${error.message}`);
+    }
+
+    const lastInbound = data?.[0];
+    if (!lastInbound) {
+        return { isOpen: false, lastInboundAt: null, expiresAt: null, customerName: null };
+    }
+
+    const expiresAt = new Date(new Date(lastInbound.received_at).getTime() + SESSION_WINDOW_MS);
+
+    return {
+        isOpen: expiresAt.getTime() > Date.now(),
+        lastInboundAt: lastInbound.received_at,
+        expiresAt: expiresAt.toISOString(),
+        customerName: lastInbound.sender_name,
+    };
+}
+
+/**
+ * Fill a parameter mapping like {"1": "{{customer_name}}"} from the variables
+ */
+export function renderTemplateParameters(
+    mapping: Record<string, string> | null | undefined,
+    variables: TemplateVariables
+): Record<string, string> {
+    const values: Record<string, string | null | undefined> = { ...variables };
+    const parameters: Record<string, string> = {};
+
+    for (const [name, pattern] of Object.entries(mapping || {})) {
+        const value = String(pattern)
+            .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] || "")
+            .replace(/\s+/g, " ")
+            .trim();
+
+        // Providers reject empty parameters
+        parameters[name] = (value || "-").slice(0, MAX_TEMPLATE_PARAMETER_LENGTH);
+    }
+
+    return parameters;
+}
+
+/**
+ * The number's configured out-of-window template, or null if none is set.
+ * Registry templates (window_template_name) win over a raw template ID.
+ */
+export async function getWindowFallbackTemplate(
+    businessNumber: string,
+    variables: TemplateVariables
+): Promise<TemplateMessage | null> {
+    const { data: mapping, error } = await supabase
+        .from("phone_document_mapping")
+        .select("window_template_name, window_template_id, window_template_language, window_template_params")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    if (error || !mapping) {
+        return null;
+    }
+
+    const parameters = renderTemplateParameters(mapping.window_template_params, variables);
+
+    if (mapping.window_template_name) {
+        const template = await getTemplateByName(businessNumber, mapping.window_template_name);
+        if (!template) {
+            console.error(`Window fallback template "${mapping.window_template_name}" is not registered for ${businessNumber}`);
+            return null;
+        }
+        return buildTemplateMessage(template, parameters);
+    }
+
+    if (!mapping.window_template_id) {
+        return null;
+    }
+
+    return {
+        templateId: mapping.window_template_id,
+        language: mapping.window_template_language || undefined,
+        parameters,
+    };
+}
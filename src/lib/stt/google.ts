@@ -0,0 +1,106 @@
+import { SpeechClient } from "@google-cloud/speech";
+import { splitAudio } from "../audioSegments";
+import type { SpeechToTextRequest, SttProvider } from "./types";
+
+const ENCODINGS: Record<string, "OGG_OPUS" | "LINEAR16" | "MP3" | "WEBM_OPUS"> = {
+    "audio/ogg": "OGG_OPUS",
+    "audio/opus": "OGG_OPUS",
+    "audio/wav": "LINEAR16",
+    "audio/mpeg": "MP3",
+    "audio/webm": "WEBM_OPUS",
+};
+
+// Synchronous recognition takes at most a minute (and 10MB) of audio per request
+const MAX_SEGMENT_SECONDS = 55;
+const MAX_SEGMENT_BYTES = 9 * 1024 * 1024;
+
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+// First code is the main language, the rest are alternatives Google may detect
+function getLanguages(): string[] {
+    return (process.env.GOOGLE_STT_LANGUAGES || "en-IN,hi-IN")
+        .split(",")
+        .map(code => code.trim())
+        .filter(Boolean);
+}
+
+// OGG/Opus requests must state the rate the audio was recorded at (from the OpusHead header)
+function opusSampleRate(buffer: ArrayBuffer): number {
+    const data = Buffer.from(buffer);
+    const head = data.indexOf("OpusHead");
+    const rate = head >= 0 && head + 16 <= data.length ? data.readUInt32LE(head + 12) : 0;
+    return OPUS_SAMPLE_RATES.includes(rate) ? rate : 48000;
+}
+
+function toSeconds(duration?: { seconds?: unknown; nanos?: number | null } | null): number {
+    return Number(String(duration?.seconds || 0)) + (duration?.nanos || 0) / 1e9;
+}
+
+export const googleSttProvider: SttProvider = {
+    name: "google",
+
+    isConfigured(request: SpeechToTextRequest) {
+        return !!(process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL && process.env.GOOGLE_PRIVATE_KEY)
+            && request.mimeType in ENCODINGS;
+    },
+
+    async transcribe(request: SpeechToTextRequest) {
+        const client = new SpeechClient({
+            credentials: {
+                client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
+                private_key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+            },
+        });
+
+        const encoding = ENCODINGS[request.mimeType];
+        const [languageCode, ...alternativeLanguageCodes] = getLanguages();
+        const segments = splitAudio(request.buffer, request.mimeType, {
+            maxBytes: MAX_SEGMENT_BYTES,
+            maxSeconds: MAX_SEGMENT_SECONDS,
+        });
+
+        const texts: string[] = [];
+        const timestamps: { start: number; end: number; text: string }[] = [];
+        let confidenceSum = 0;
+        let language: string | undefined;
+
+        for (const segment of segments) {
+            const [response] = await client.recognize({
+                config: {
+                    encoding,
+                    ...(encoding === "OGG_OPUS" ? { sampleRateHertz: opusSampleRate(segment.buffer) } : {}),
+                    languageCode,
+                    alternativeLanguageCodes,
+                    enableAutomaticPunctuation: true,
+                },
+                audio: { content: Buffer.from(segment.buffer).toString("base64") },
+            });
+
+            // Results are consecutive; each one ends where the next starts
+            let previousEnd = 0;
+            for (const result of response.results || []) {
+                const alternative = result.alternatives?.[0];
+                const end = toSeconds(result.resultEndTime);
+                if (alternative?.transcript) {
+                    const text = alternative.transcript.trim();
+                    texts.push(text);
+                    confidenceSum += alternative.confidence || 0;
+                    timestamps.push({ start: segment.startSeconds + previousEnd, end: segment.startSeconds + end, text });
+                    language = language || result.languageCode || undefined;
+                }
+                previousEnd = end;
+            }
+        }
+
+        const rawTranscript = texts.join(" ");
+
+        return {
+            rawTranscript,
+            cleanedTranscript: rawTranscript,
+            language,
+            timestamps,
+            provider: "google",
+            confidence: texts.length > 0 ? confidenceSum / texts.length : 0,
+        };
+    },
+};
@@ -0,0 +1,61 @@
+import { googleSttProvider } from "./google";
+import { mistralSttProvider } from "./mistral";
+import { openAiSttProvider } from "./openai";
+import { SpeechToTextRequest, SttProvider, SttProviderName, SttResult } from "./types";
+
+export * from "./types";
+
+const providers: Record<SttProviderName, SttProvider> = {
+    mistral: mistralSttProvider,
+    google: googleSttProvider,
+    openai: openAiSttProvider,
+};
+
+export const DEFAULT_STT_CHAIN: SttProviderName[] = ["mistral", "google", "openai"];
+
+// Transcripts below this confidence are confirmed with the customer before we answer
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+export function isSttProviderName(name: unknown): name is SttProviderName {
+    return typeof name === "string" && name in providers;
+}
+
+export type ChainTranscription = SttResult & {
+    // No provider reached the minimum confidence
+    lowConfidence: boolean;
+};
+
+/**
+ * Transcribe with each configured provider in order until one is confident
+ * enough. Falls back to the most confident transcript when none is, and
+ * returns null when no provider produced any text.
+ */
+export async function transcribeWithFallback(
+    request: SpeechToTextRequest,
+    options: { chain?: string[] | null; minConfidence?: number | null } = {}
+): Promise<ChainTranscription | null> {
+    const chain = (options.chain || []).filter(isSttProviderName);
+    const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+    let best: SttResult | null = null;
+
+    for (const name of chain.length > 0 ? chain : DEFAULT_STT_CHAIN) {
+        const provider = providers[name];
+        if (!provider.isConfigured(request)) continue;
+
+        try {
+            const result = await provider.transcribe(request);
+            console.log(`STT ${name}: confidence ${result.confidence.toFixed(2)}, ${result.rawTranscript.length} chars`);
+
+            if (!result.rawTranscript.trim()) continue;
+            if (!best || result.confidence > best.confidence) {
+                best = result;
+            }
+            if (result.confidence >= minConfidence) break;
+        } catch (error) {
+            console.error(`STT ${name} failed, trying the next provider:`, error);
+        }
+    }
+
+    return best ? { ...best, lowConfidence: best.confidence < minConfidence } : null;
+}
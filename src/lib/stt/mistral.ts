@@ -0,0 +1,52 @@
+import { transcribeAudio } from "@/app/api/stt/mistral/route";
+import type { SpeechToTextRequest, SttProvider } from "./types";
+
+// Plausible speaking rate range, in words per second
+const MIN_WORDS_PER_SECOND = 0.3;
+const MAX_WORDS_PER_SECOND = 6;
+
+/**
+ * Voxtral returns no confidence, so estimate one from the usual signs of a bad
+ * transcript: nothing heard, a phrase repeated over and over, or far too many
+ * or too few words for the length of the recording
+ */
+function estimateConfidence(text: string, durationSeconds?: number): number {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+    if (words.length === 0) return 0;
+
+    if (words.length >= 8 && new Set(words).size / words.length < 0.3) {
+        return 0.3;
+    }
+
+    if (durationSeconds && durationSeconds > 2) {
+        const rate = words.length / durationSeconds;
+        if (rate < MIN_WORDS_PER_SECOND || rate > MAX_WORDS_PER_SECOND) {
+            return 0.5;
+        }
+    }
+
+    return 0.85;
+}
+
+export const mistralSttProvider: SttProvider = {
+    name: "mistral",
+
+    isConfigured(request: SpeechToTextRequest) {
+        return !!(request.mistralApiKey || process.env.MISTRAL_API_KEY);
+    },
+
+    async transcribe(request: SpeechToTextRequest) {
+        const result = await transcribeAudio(request.buffer, request.fileName, {
+            mimeType: request.mimeType,
+            apiKey: request.mistralApiKey,
+        });
+
+        const duration = result.timestamps?.[result.timestamps.length - 1]?.end;
+
+        return {
+            ...result,
+            provider: "mistral",
+            confidence: estimateConfidence(result.rawTranscript, duration),
+        };
+    },
+};
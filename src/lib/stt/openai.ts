@@ -0,0 +1,102 @@
+import OpenAI, { toFile } from "openai";
+import { AUDIO_EXTENSIONS, splitAudio } from "../audioSegments";
+import type { SpeechToTextRequest, SttProvider } from "./types";
+
+/**
+ * Any OpenAI-compatible transcription endpoint: OpenAI itself, Groq or a
+ * self-hosted Whisper server (STT_OPENAI_BASE_URL / STT_OPENAI_MODEL)
+ */
+
+const DEFAULT_MODEL = "whisper-1";
+
+// The endpoint takes files up to 25MB
+const MAX_SEGMENT_BYTES = 24 * 1024 * 1024;
+const MAX_SEGMENT_SECONDS = 30 * 60;
+
+// Used when the endpoint returns no per-segment scores
+const UNSCORED_CONFIDENCE = 0.7;
+
+// Whisper reports the language by name; we store ISO codes like the other providers
+const LANGUAGE_CODES: Record<string, string> = {
+    english: "en",
+    hindi: "hi",
+    bengali: "bn",
+    gujarati: "gu",
+    kannada: "kn",
+    malayalam: "ml",
+    marathi: "mr",
+    punjabi: "pa",
+    tamil: "ta",
+    telugu: "te",
+    urdu: "ur",
+};
+
+function getApiKey(): string | undefined {
+    return process.env.STT_OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+}
+
+export const openAiSttProvider: SttProvider = {
+    name: "openai",
+
+    isConfigured() {
+        return !!getApiKey();
+    },
+
+    async transcribe(request: SpeechToTextRequest) {
+        const client = new OpenAI({
+            apiKey: getApiKey(),
+            baseURL: process.env.STT_OPENAI_BASE_URL || undefined,
+        });
+
+        const extension = AUDIO_EXTENSIONS[request.mimeType] || "ogg";
+        const segments = splitAudio(request.buffer, request.mimeType, {
+            maxBytes: MAX_SEGMENT_BYTES,
+            maxSeconds: MAX_SEGMENT_SECONDS,
+        });
+
+        const texts: string[] = [];
+        const timestamps: { start: number; end: number; text: string }[] = [];
+        let scoredSeconds = 0;
+        let weightedConfidence = 0;
+        let language: string | undefined;
+
+        for (const [index, segment] of segments.entries()) {
+            const response = await client.audio.transcriptions.create({
+                file: await toFile(Buffer.from(segment.buffer), `audio-${index + 1}.${extension}`, { type: request.mimeType }),
+                model: process.env.STT_OPENAI_MODEL || DEFAULT_MODEL,
+                response_format: "verbose_json",
+                timestamp_granularities: ["segment"],
+            });
+
+            if (response.text) texts.push(response.text.trim());
+            const name = response.language?.toLowerCase();
+            language = language || (name ? LANGUAGE_CODES[name] || name : undefined);
+
+            // Segment confidence: probability of the decoded tokens, discounted by the chance it was silence
+            for (const item of response.segments || []) {
+                const seconds = Math.max(item.end - item.start, 0.1);
+                weightedConfidence += Math.exp(item.avg_logprob) * (1 - item.no_speech_prob) * seconds;
+                scoredSeconds += seconds;
+                timestamps.push({
+                    start: item.start + segment.startSeconds,
+                    end: item.end + segment.startSeconds,
+                    text: item.text,
+                });
+            }
+        }
+
+        const rawTranscript = texts.join(" ");
+        const confidence = !rawTranscript
+            ? 0
+            : scoredSeconds > 0 ? weightedConfidence / scoredSeconds : UNSCORED_CONFIDENCE;
+
+        return {
+            rawTranscript,
+            cleanedTranscript: rawTranscript,
+            language,
+            timestamps: timestamps.length > 0 ? timestamps : undefined,
+            provider: "openai",
+            confidence,
+        };
+    },
+};
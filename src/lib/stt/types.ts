@@ -0,0 +1,29 @@
+import type { TranscriptionResult } from "@/app/api/stt/mistral/route";
+
+/**
+ * Shared types for speech-to-text providers used to transcribe voice notes
+ */
+
+export type SttProviderName = "mistral" | "google" | "openai";
+
+export type SpeechToTextRequest = {
+    buffer: ArrayBuffer;
+    fileName: string;
+    // Normalized audio MIME type, e.g. "audio/ogg"
+    mimeType: string;
+    // The business number's own Mistral key, if set
+    mistralApiKey?: string;
+};
+
+export type SttResult = TranscriptionResult & {
+    provider: SttProviderName;
+    // 0-1; providers without a native score return an estimate
+    confidence: number;
+};
+
+export interface SttProvider {
+    name: SttProviderName;
+    // Providers without credentials are skipped in the chain
+    isConfigured(request: SpeechToTextRequest): boolean;
+    transcribe(request: SpeechToTextRequest): Promise<SttResult>;
+}
@@ -0,0 +1,131 @@
+import { supabase } from "./supabaseClient";
+import type { TemplateMessage } from "./providers";
+
+/**
+ * Registry of the approved WhatsApp templates each business number owns, so
+ * reminders, broadcasts and window-fallback sends can pick templates by name
+ */
+
+export const TEMPLATE_CATEGORIES = ["MARKETING", "UTILITY", "AUTHENTICATION"] as const;
+
+export type TemplateCategory = (typeof TEMPLATE_CATEGORIES)[number];
+
+// One body parameter, in the order the provider expects them
+export type TemplateParameter = {
+    name: string;
+    description?: string;
+    example?: string;
+};
+
+export type WhatsAppTemplate = {
+    id: string;
+    phone_number: string;
+    name: string;
+    template_id: string;
+    language: string;
+    category: TemplateCategory;
+    parameters: TemplateParameter[];
+    // Approved body text with {{parameter}} placeholders
+    preview_text: string | null;
+    created_at: string;
+    updated_at: string;
+};
+
+export type TemplateInput = Pick<
+    WhatsAppTemplate,
+    "name" | "template_id" | "language" | "category" | "parameters" | "preview_text"
+>;
+
+function isTemplateCategory(value: unknown): value is TemplateCategory {
+    return typeof value === "string" && (TEMPLATE_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a create/update request body. With `partial`, missing fields are allowed.
+ */
+export function parseTemplateInput(
+    body: Record<string, unknown>,
+    partial = false
+): { input?: Partial<TemplateInput>; error?: string } {
+    const input: Partial<TemplateInput> = {};
+
+    for (const field of ["name", "template_id", "language"] as const) {
+        const value = body[field];
+        if (value === undefined && partial) continue;
+        if (typeof value !== "string" || !value.trim()) {
+            return { error: `${field} is required` };
+        }
+        input[field] = value.trim();
+    }
+
+    if (body.category !== undefined || !partial) {
+        if (!isTemplateCategory(body.category)) {
+            return { error: `category must be one of ${TEMPLATE_CATEGORIES.join(", ")}` };
+        }
+        input.category = body.category;
+    }
+
+    if (body.parameters !== undefined) {
+        const parameters = body.parameters;
+        if (!Array.isArray(parameters) || parameters.some((p) => typeof p?.name !== "string" || !p.name.trim())) {
+            return { error: "parameters must be a list of { name, description?, example? }" };
+        }
+
+        const names = parameters.map((p: TemplateParameter) => p.name.trim());
+        if (new Set(names).size !== names.length) {
+            return { error: "Parameter names must be unique" };
+        }
+
+        input.parameters = parameters.map((p: TemplateParameter) => ({
+            name: p.name.trim(),
+            ...(p.description ? { description: String(p.description) } : {}),
+            ...(p.example ? { example: String(p.example) } : {}),
+        }));
+    } else if (!partial) {
+        input.parameters = [];
+    }
+
+    if (body.preview_text !== undefined) {
+        input.preview_text = typeof body.preview_text === "string" && body.preview_text.trim()
+            ? body.preview_text
+            : null;
+    }
+
+    return { input };
+}
+
+export async function getTemplateByName(businessNumber: string, name: string): Promise<WhatsAppTemplate | null> {
+    const { data, error } = await supabase
+        .from("whatsapp_templates")
+        .select("*")
+        .eq("phone_number", businessNumber)
+        .eq("name", name)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Error loading template", name, error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Message for a registered template; values are keyed by parameter name and
+ * sent in the schema's order
+ */
+export function buildTemplateMessage(
+    template: WhatsAppTemplate,
+    values: Record<string, string>
+): TemplateMessage {
+    const parameters: Record<string, string> = {};
+    for (const parameter of template.parameters || []) {
+        parameters[parameter.name] = values[parameter.name] || "-";
+    }
+
+    return {
+        templateId: template.template_id,
+        language: template.language,
+        parameters,
+    };
+}
@@ -0,0 +1,69 @@
+import { supabase } from "./supabaseClient";
+import { buildInteractiveMessage, InteractiveOption, InteractiveReply } from "./interactive";
+import type { OutboundMessage } from "./outboundSender";
+
+/**
+ * "Did you mean…" check for voice notes no STT provider transcribed with
+ * enough confidence: we read the transcript back and only answer it once the
+ * customer confirms it
+ */
+
+const CONFIRM_OPTION: InteractiveOption = { id: "transcript_yes", title: "Yes" };
+const REJECT_OPTION: InteractiveOption = { id: "transcript_no", title: "No" };
+
+// Interactive bodies are capped at 1024 characters
+const MAX_QUOTED_TRANSCRIPT_LENGTH = 800;
+
+export type TranscriptConfirmation =
+    | { status: "confirmed"; transcript: string; language?: string }
+    | { status: "rejected" };
+
+export function buildTranscriptConfirmation(transcript: string): OutboundMessage {
+    const quoted = transcript.length > MAX_QUOTED_TRANSCRIPT_LENGTH
+        ? `${transcript.slice(0, MAX_QUOTED_TRANSCRIPT_LENGTH)}…`
+        : transcript;
+    const body = `🎤 I want to make sure I understood your voice message. Did you say:\n\n"${quoted}"`;
+
+    return { text: body, interactive: buildInteractiveMessage(body, [CONFIRM_OPTION, REJECT_OPTION]) };
+}
+
+/**
+ * Apply the customer's Yes/No to their latest voice note awaiting confirmation.
+ * Returns null when the reply isn't an answer to a confirmation question.
+ */
+export async function resolveTranscriptConfirmation(
+    contactId: string,
+    businessNumber: string,
+    reply: InteractiveReply | null
+): Promise<TranscriptConfirmation | null> {
+    if (reply?.id !== CONFIRM_OPTION.id && reply?.id !== REJECT_OPTION.id) {
+        return null;
+    }
+
+    const { data: pending, error } = await supabase
+        .from("whatsapp_messages")
+        .select("message_id, content_text, transcript_language")
+        .eq("from_number", contactId)
+        .eq("to_number", businessNumber)
+        .eq("transcript_confirmation", "pending")
+        .order("received_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load voice note awaiting confirmation: ${error.message}`);
+    }
+    if (!pending) {
+        return null;
+    }
+
+    const confirmed = reply.id === CONFIRM_OPTION.id;
+    await supabase
+        .from("whatsapp_messages")
+        .update({ transcript_confirmation: confirmed ? "confirmed" : "rejected" })
+        .eq("message_id", pending.message_id);
+
+    return confirmed
+        ? { status: "confirmed", transcript: pending.content_text || "", language: pending.transcript_language || undefined }
+        : { status: "rejected" };
+}
@@ -0,0 +1,58 @@
+import { google } from "googleapis";
+import { createGoogleJwt } from "../googleAuth";
+import type { SpeechRequest, TtsProvider } from "./types";
+
+// Cloud TTS needs a region; transcripts only carry the language
+const LANGUAGE_REGIONS: Record<string, string> = {
+    en: "en-IN",
+    hi: "hi-IN",
+    bn: "bn-IN",
+    gu: "gu-IN",
+    kn: "kn-IN",
+    ml: "ml-IN",
+    mr: "mr-IN",
+    pa: "pa-IN",
+    ta: "ta-IN",
+    te: "te-IN",
+    ur: "ur-IN",
+};
+
+const DEFAULT_LANGUAGE = "en-IN";
+
+function toLanguageCode(language?: string): string {
+    if (!language) return DEFAULT_LANGUAGE;
+    if (language.includes("-")) return language;
+    return LANGUAGE_REGIONS[language.toLowerCase()] || language;
+}
+
+export const googleTtsProvider: TtsProvider = {
+    name: "google",
+    // The API caps input at 5000 bytes; Indic scripts take ~3 bytes per character
+    maxTextLength: 1500,
+
+    async synthesize(request: SpeechRequest) {
+        const tts = google.texttospeech({
+            version: "v1",
+            auth: createGoogleJwt(["https://www.googleapis.com/auth/cloud-platform"]),
+        });
+
+        const languageCode = toLanguageCode(request.language);
+        const { data } = await tts.text.synthesize({
+            requestBody: {
+                input: { text: request.text },
+                voice: {
+                    languageCode,
+                    // Voice names are per language (e.g. hi-IN-Wavenet-A); other languages use the default voice
+                    ...(request.voice?.startsWith(languageCode) ? { name: request.voice } : {}),
+                },
+                audioConfig: { audioEncoding: "OGG_OPUS" },
+            },
+        });
+
+        if (!data.audioContent) {
+            throw new Error(`Google TTS returned no audio for ${languageCode}`);
+        }
+
+        return Buffer.from(data.audioContent, "base64");
+    },
+};
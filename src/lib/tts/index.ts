@@ -0,0 +1,71 @@
+import { googleTtsProvider } from "./google";
+import { openAiTtsProvider } from "./openai";
+import { TtsProvider, TtsProviderName } from "./types";
+import { uploadMediaFile } from "../mediaLibrary";
+import type { OutboundMedia } from "../providers";
+
+export * from "./types";
+
+const providers: Record<TtsProviderName, TtsProvider> = {
+    openai: openAiTtsProvider,
+    google: googleTtsProvider,
+};
+
+export const DEFAULT_TTS_PROVIDER: TtsProviderName = "openai";
+
+export function isTtsProviderName(name: unknown): name is TtsProviderName {
+    return typeof name === "string" && name in providers;
+}
+
+export function getTtsProvider(name?: string | null): TtsProvider {
+    return isTtsProviderName(name) ? providers[name] : providers[DEFAULT_TTS_PROVIDER];
+}
+
+// Markdown and emoji read badly (or literally) when spoken
+function toSpokenText(text: string): string {
+    return text
+        .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+        .replace(/[*_~`#>]+/g, "")
+        .replace(/\p{Extended_Pictographic}/gu, "")
+        .replace(/[ \t]+/g, " ")
+        .trim();
+}
+
+/**
+ * Speak a reply and store it as a voice note that can be sent as audio media.
+ * Returns null when the reply is too long to speak or synthesis fails, so the
+ * caller can send text instead.
+ */
+export async function synthesizeVoiceNote(
+    text: string,
+    options: {
+        businessNumber: string;
+        provider?: string | null;
+        voice?: string | null;
+        language?: string;
+    }
+): Promise<OutboundMedia | null> {
+    const provider = getTtsProvider(options.provider);
+    const spoken = toSpokenText(text);
+
+    if (!spoken || spoken.length > provider.maxTextLength) {
+        console.log(`Reply too long for a voice note (${spoken.length} chars), sending text`);
+        return null;
+    }
+
+    try {
+        const audio = await provider.synthesize({ text: spoken, language: options.language, voice: options.voice });
+        const url = await uploadMediaFile(
+            new Uint8Array(audio).buffer,
+            "voice-reply.ogg",
+            "audio/ogg",
+            `${options.businessNumber}/voice-replies`
+        );
+
+        console.log(`Voice note synthesized with ${provider.name} (${audio.byteLength} bytes)`);
+        return { type: "audio", url, fileName: "voice-reply.ogg", voice: true };
+    } catch (error) {
+        console.error(`Text-to-speech with ${provider.name} failed:`, error);
+        return null;
+    }
+}
@@ -0,0 +1,30 @@
+import OpenAI from "openai";
+import type { SpeechRequest, TtsProvider } from "./types";
+
+const MODEL = "gpt-4o-mini-tts";
+const DEFAULT_VOICE = "alloy";
+
+export const openAiTtsProvider: TtsProvider = {
+    name: "openai",
+    maxTextLength: 4000,
+
+    // The model follows the language of the text; the instruction keeps the accent natural
+    async synthesize(request: SpeechRequest) {
+        if (!process.env.OPENAI_API_KEY) {
+            throw new Error("OPENAI_API_KEY is not configured");
+        }
+
+        const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        const response = await client.audio.speech.create({
+            model: MODEL,
+            voice: request.voice || DEFAULT_VOICE,
+            input: request.text,
+            response_format: "opus",
+            ...(request.language
+                ? { instructions: `Speak naturally, like a native speaker of the language with code "${request.language}".` }
+                : {}),
+        });
+
+        return Buffer.from(await response.arrayBuffer());
+    },
+};
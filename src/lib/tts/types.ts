@@ -0,0 +1,21 @@
+/**
+ * Shared types for text-to-speech providers used for voice-note replies
+ */
+
+export type TtsProviderName = "openai" | "google";
+
+export type SpeechRequest = {
+    text: string;
+    // Language of the customer's voice note (e.g. "hi" or "en"), if detected
+    language?: string;
+    // Provider voice name; each provider has its own default
+    voice?: string | null;
+};
+
+export interface TtsProvider {
+    name: TtsProviderName;
+    // Longer replies are sent as text instead
+    maxTextLength: number;
+    // OGG/Opus audio, the format WhatsApp plays as a voice note
+    synthesize(request: SpeechRequest): Promise<Buffer>;
+}
@@ -0,0 +1,246 @@
+import crypto from "crypto";
+import { supabase } from "./supabaseClient";
+
+/**
+ * Webhook request authentication (HMAC signatures + replay protection)
+ *
+ * Every inbound webhook must carry:
+ * - x-webhook-timestamp: unix time in seconds when the request was signed
+ * - x-webhook-nonce: unique value per request
+ * - x-webhook-signature: hex HMAC-SHA256 of `${timestamp}.${nonce}.${rawBody}`
+ *   using the business number's webhook secret (optionally prefixed "sha256=")
+ */
+
+export const SIGNATURE_HEADER = "x-webhook-signature";
+export const TIMESTAMP_HEADER = "x-webhook-timestamp";
+export const NONCE_HEADER = "x-webhook-nonce";
+
+// Requests signed more than 5 minutes away from server time are rejected
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// After a rotation the previous secret keeps working for 24 hours
+const ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export type WebhookAuthResult = {
+    valid: boolean;
+    error?: string;
+};
+
+/**
+ * Generate a new random webhook secret
+ */
+export function generateWebhookSecret(): string {
+    return `whsec_${crypto.randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * Compute the signature for a webhook request body
+ */
+export function signWebhookPayload(
+    secret: string,
+    timestamp: string,
+    nonce: string,
+    rawBody: string
+): string {
+    return crypto
+        .createHmac("sha256", secret)
+        .update(`${timestamp}.${nonce}.${rawBody}`)
+        .digest("hex");
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+    const a = Buffer.from(expected, "utf8");
+    const b = Buffer.from(received, "utf8");
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Current secret plus the previous one while it is in its grace period,
+ * or null if the number has no secret
+ */
+async function getActiveWebhookSecrets(businessNumber: string): Promise<string[] | null> {
+    const { data: mapping, error } = await supabase
+        .from("phone_document_mapping")
+        .select("webhook_secret, webhook_secret_previous, webhook_secret_rotated_at")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    if (error || !mapping?.webhook_secret) {
+        return null;
+    }
+
+    const secrets: string[] = [mapping.webhook_secret];
+    const rotatedAt = mapping.webhook_secret_rotated_at
+        ? new Date(mapping.webhook_secret_rotated_at).getTime()
+        : 0;
+    if (mapping.webhook_secret_previous && Date.now() - rotatedAt < ROTATION_GRACE_MS) {
+        secrets.push(mapping.webhook_secret_previous);
+    }
+
+    return secrets;
+}
+
+/**
+ * Verify signature, timestamp and nonce of an inbound webhook
+ * for the given business number
+ */
+export async function verifyWebhookRequest(
+    headers: Headers,
+    rawBody: string,
+    businessNumber: string
+): Promise<WebhookAuthResult> {
+    const signatureHeader = headers.get(SIGNATURE_HEADER);
+    const timestamp = headers.get(TIMESTAMP_HEADER);
+    const nonce = headers.get(NONCE_HEADER);
+
+    if (!signatureHeader || !timestamp || !nonce) {
+        return {
+            valid: false,
+            error: `Missing ${SIGNATURE_HEADER}, ${TIMESTAMP_HEADER} or ${NONCE_HEADER} header`,
+        };
+    }
+
+    const timestampMs = Number(timestamp) * 1000;
+    if (!Number.isFinite(timestampMs) || Math.abs(Date.now() - timestampMs) > MAX_CLOCK_SKEW_MS) {
+        return { valid: false, error: "Request timestamp outside allowed window" };
+    }
+
+    const secrets = await getActiveWebhookSecrets(businessNumber);
+    if (!secrets) {
+        return { valid: false, error: "Webhook secret not configured for this number" };
+    }
+
+    const received = signatureHeader.replace(/^sha256=/, "").toLowerCase();
+    const signatureValid = secrets.some(secret =>
+        signaturesMatch(signWebhookPayload(secret, timestamp, nonce, rawBody), received)
+    );
+
+    if (!signatureValid) {
+        return { valid: false, error: "Invalid webhook signature" };
+    }
+
+    // Record the nonce only after the signature checks out, so unsigned
+    // requests cannot burn nonces. A unique violation means a replay.
+    const { error: nonceError } = await supabase
+        .from("webhook_nonces")
+        .insert([{ nonce, phone_number: businessNumber }]);
+
+    if (nonceError) {
+        if (nonceError.code === "23505") {
+            return { valid: false, error: "Replayed request (nonce already used)" };
+        }
+        throw nonceError;
+    }
+
+    // Nonces only need to outlive the timestamp window
+    const cutoff = new Date(Date.now() - 2 * MAX_CLOCK_SKEW_MS).toISOString();
+    supabase
+        .from("webhook_nonces")
+        .delete()
+        .lt("created_at", cutoff)
+        .then(({ error }) => {
+            if (error) console.error("Error cleaning up webhook nonces:", error);
+        });
+
+    return { valid: true };
+}
+
+/**
+ * Whether the request carries the dashboard admin key
+ * (Authorization: Bearer <ADMIN_API_SECRET>). Always false when no key is configured.
+ */
+export function isAdminRequest(headers: Headers): boolean {
+    const adminSecret = process.env.ADMIN_API_SECRET;
+    const authHeader = headers.get("authorization");
+    if (!adminSecret || !authHeader) {
+        return false;
+    }
+
+    return signaturesMatch(`Bearer ${adminSecret}`, authHeader);
+}
+
+/**
+ * Rotate the webhook secret for a business number.
+ * The old secret stays valid for the grace period.
+ */
+export async function rotateWebhookSecret(businessNumber: string): Promise<string | null> {
+    const { data: mapping, error: mappingError } = await supabase
+        .from("phone_document_mapping")
+        .select("webhook_secret")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    if (mappingError || !mapping) {
+        return null;
+    }
+
+    const secret = generateWebhookSecret();
+
+    const { error: updateError } = await supabase
+        .from("phone_document_mapping")
+        .update({
+            webhook_secret: secret,
+            webhook_secret_previous: mapping.webhook_secret || null,
+            webhook_secret_rotated_at: new Date().toISOString(),
+        })
+        .eq("phone_number", businessNumber);
+
+    if (updateError) {
+        throw updateError;
+    }
+
+    return secret;
+}
+
+/**
+ * Verify the X-Hub-Signature-256 header Meta adds to Cloud API webhooks
+ * (HMAC-SHA256 of the raw body with the Meta app secret)
+ */
+export function verifyMetaSignature(headers: Headers, rawBody: string): WebhookAuthResult {
+    const appSecret = process.env.META_APP_SECRET;
+    if (!appSecret) {
+        return { valid: false, error: "META_APP_SECRET is not configured" };
+    }
+
+    const signatureHeader = headers.get("x-hub-signature-256");
+    if (!signatureHeader) {
+        return { valid: false, error: "Missing x-hub-signature-256 header" };
+    }
+
+    const expected = crypto.createHmac("sha256", appSecret).update(rawBody).digest("hex");
+    const received = signatureHeader.replace(/^sha256=/, "");
+
+    return signaturesMatch(expected, received)
+        ? { valid: true }
+        : { valid: false, error: "Invalid signature" };
+}
+
+/**
+ * Verify Telegram's X-Telegram-Bot-Api-Secret-Token header against the
+ * secret the number's bot was registered with
+ */
+export async function verifyTelegramSecretToken(
+    token: string | null,
+    businessNumber: string
+): Promise<WebhookAuthResult> {
+    if (!token) {
+        return { valid: false, error: "Missing secret token" };
+    }
+
+    const { data: mapping, error } = await supabase
+        .from("phone_document_mapping")
+        .select("telegram_webhook_secret")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    if (error || !mapping?.telegram_webhook_secret) {
+        return { valid: false, error: "Telegram webhook secret not configured for this number" };
+    }
+
+    return signaturesMatch(mapping.telegram_webhook_secret, token)
+        ? { valid: true }
+        : { valid: false, error: "Invalid secret token" };
+}
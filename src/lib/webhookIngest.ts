@@ -0,0 +1,113 @@
+import { supabase } from "./supabaseClient";
+import { enqueueJob } from "./jobQueue";
+import { getReplyDebounceMs } from "./messageBurst";
+import { applyDeliveryReceipt, DeliveryReceipt } from "./deliveryStatus";
+import type { InboundMessage } from "./providers";
+
+/**
+ * Provider-neutral webhook ingestion: store inbound messages, queue the
+ * reply work and record delivery receipts
+ */
+
+export type IngestResult = {
+    duplicate: boolean;
+    row?: Record<string, unknown>;
+    jobId?: string;
+    // How long the worker should wait for follow-up messages before replying
+    debounceMs: number;
+};
+
+/**
+ * Store an inbound message once and queue the reply job for it
+ */
+export async function ingestInboundMessage(payload: InboundMessage): Promise<IngestResult> {
+    // Store the message once - redeliveries must not overwrite a row
+    // that a worker has already enriched (e.g. with a transcript)
+    const { data, error } = await supabase
+        .from("whatsapp_messages")
+        .upsert(
+            {
+                message_id: payload.messageId,
+                channel: payload.channel,
+                from_number: payload.from,
+                to_number: payload.to,
+                received_at: payload.receivedAt,
+                content_type: payload.content?.contentType,
+                content_text: payload.content?.text || payload.UserResponse, // Initial text, will update if voice
+                sender_name: payload.whatsapp?.senderName,
+                interactive_reply: payload.interactiveReply || null,
+                event_type: payload.event,
+                is_in_24_window: payload.isin24window || false,
+                is_responded: payload.isResponded || false,
+                raw_payload: payload,
+            },
+            {
+                onConflict: "message_id",
+                ignoreDuplicates: true
+            }
+        )
+        .select();
+
+    if (error) {
+        console.error("Database error:", error);
+        throw error;
+    }
+
+    // Duplicate deliveries come back without a row
+    const result: IngestResult = {
+        duplicate: !data || data.length === 0,
+        row: data?.[0],
+        debounceMs: 0,
+    };
+    console.log(result.duplicate ? "Duplicate delivery for message:" : "Message stored successfully:", payload.messageId);
+
+    if (payload.event !== "MoMessage") {
+        return result;
+    }
+
+    // Queue the reply work - slow LLM/STT calls happen in the worker.
+    // Wait a little for follow-up messages so a burst gets one reply.
+    result.debounceMs = await getReplyDebounceMs(payload.to);
+
+    const enqueueResult = await enqueueJob("inbound_message", payload, {
+        businessNumber: payload.to,
+        dedupeKey: `inbound:${payload.messageId}`,
+        runAt: new Date(Date.now() + result.debounceMs),
+    });
+
+    if (!enqueueResult.success) {
+        throw new Error(`Failed to queue message: ${enqueueResult.error}`);
+    }
+
+    // The job's dedupe key is the source of truth: a stored row without
+    // a job (earlier enqueue failed) still gets queued on redelivery
+    result.jobId = enqueueResult.jobId;
+    result.duplicate = !!enqueueResult.duplicate;
+
+    return result;
+}
+
+/**
+ * Apply a delivery receipt, queueing a retry when the sent message isn't stored yet.
+ * Returns whether the receipt matched a message right away.
+ */
+export async function ingestDeliveryReceipt(receipt: DeliveryReceipt, businessNumber: string): Promise<boolean> {
+    const updated = await applyDeliveryReceipt(receipt);
+    if (updated > 0) {
+        return true;
+    }
+
+    // The receipt can beat us to storing the sent message - try again shortly
+    const enqueueResult = await enqueueJob("delivery_receipt", receipt, {
+        businessNumber,
+        dedupeKey: `receipt:${receipt.providerMessageId}:${receipt.status}`,
+        runAt: new Date(Date.now() + 15 * 1000),
+        maxAttempts: 3,
+    });
+
+    if (!enqueueResult.success) {
+        throw new Error(`Failed to queue delivery receipt: ${enqueueResult.error}`);
+    }
+
+    return false;
+}
@@ -0,0 +1,766 @@
+import crypto from "crypto";
+import { supabase } from "./supabaseClient";
+import { generateAutoResponse } from "./autoResponder";
+import { getChannelSender } from "./channels";
+import type { InboundMessage } from "./providers";
+import { sendOutboundMessage } from "./outboundSender";
+import { claimInboundMessage, releaseInboundMessage } from "./messageClaim";
+import { getUnansweredBurst, hasNewerInboundMessage } from "./messageBurst";
+import { ocrImage, transcribeImageWithVision } from "./ocr";
+import { extractDocumentText, storeConversationDocument } from "./conversationDocuments";
+import { getLastOfferedOptions, InteractiveReply, matchInteractiveReply } from "./interactive";
+import { normalizeAudioMimeType } from "./audioSegments";
+import { ChainTranscription, transcribeWithFallback } from "./stt";
+import { buildTranscriptConfirmation, resolveTranscriptConfirmation } from "./transcriptConfirmation";
+import { detectConsentKeyword, getConsentConfirmation, isOptedOut, setConsent } from "./consent";
+import { detectHandoffRequest, getActiveHandoff, getHandoffAcknowledgement, pauseConversation } from "./handoff";
+import { getBusinessHoursStatus, getBusinessSchedule, hasRecentAwayMessage } from "./businessHours";
+import { buildRuleReply, findMatchingRule, getReplyRules, recordRuleHit } from "./replyRules";
+import { advanceLeadFlow, LeadFlowTurn } from "./leadFlows";
+
+// Inbound messages are stored and processed in the provider-neutral shape
+export type WhatsAppWebhookPayload = InboundMessage;
+
+export type ProcessOptions = {
+    // On the last queue attempt we send a friendly fallback instead of retrying
+    isFinalAttempt?: boolean;
+    // Stable identifier of whoever processes the message (e.g. the queue job)
+    claimant?: string;
+};
+
+// Stored fields that tell us whether a media message was already processed
+type StoredMessageFields = {
+    content_text: string | null;
+    raw_transcript?: string | null;
+    media_text?: string | null;
+    interactive_reply?: InteractiveReply | null;
+};
+
+// OCR output shorter than this is treated as "no text in the image"
+const MIN_OCR_TEXT_LENGTH = 20;
+
+const IMAGE_DESCRIPTION_PROMPT =
+    "A customer sent this image in a WhatsApp chat. Extract any text it contains, then briefly describe what the image shows (product, document, screenshot, etc.).";
+
+// How much of a shared document goes straight into the user turn; the rest is
+// retrieved from the conversation's document chunks when needed
+const DOCUMENT_EXCERPT_LENGTH = 3000;
+
+// Per-number Mistral key, falling back to the default one
+async function getMistralApiKey(businessNumber: string): Promise<string | undefined> {
+    const { data: mapping } = await supabase
+        .from("phone_document_mapping")
+        .select("mistral_api_key")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    return mapping?.mistral_api_key || process.env.MISTRAL_API_KEY;
+}
+
+// Download a media file sent by the customer through their channel
+async function downloadMedia(
+    payload: WhatsAppWebhookPayload,
+    mediaUrl: string
+): Promise<{ buffer: ArrayBuffer; contentType: string | null }> {
+    console.log("Downloading media from:", mediaUrl);
+
+    const sender = await getChannelSender(payload.to, payload.from);
+    if (!sender) {
+        throw new Error(`No channel settings configured for ${payload.to}`);
+    }
+
+    const media = await sender.downloadMedia(mediaUrl);
+    console.log("Media file size:", media.buffer.byteLength, "bytes");
+
+    return media;
+}
+
+// Per-number STT provider order, confirmation threshold and Mistral key
+async function getSpeechSettings(businessNumber: string) {
+    const { data: mapping } = await supabase
+        .from("phone_document_mapping")
+        .select("mistral_api_key, stt_providers, stt_min_confidence")
+        .eq("phone_number", businessNumber)
+        .limit(1)
+        .single();
+
+    return {
+        mistralApiKey: mapping?.mistral_api_key || process.env.MISTRAL_API_KEY,
+        chain: mapping?.stt_providers as string[] | null | undefined,
+        minConfidence: mapping?.stt_min_confidence as number | null | undefined,
+    };
+}
+
+// Transcribe a voice message with the number's STT provider chain
+async function transcribeVoiceMessage(
+    payload: WhatsAppWebhookPayload,
+    media: NonNullable<WhatsAppWebhookPayload["content"]["media"]>
+): Promise<{ text: string; result: ChainTranscription } | null> {
+    try {
+        const { buffer: audioBuffer, contentType } = await downloadMedia(payload, media.url);
+        const settings = await getSpeechSettings(payload.to);
+        const fileName = media.fileName || "voice-message.ogg";
+
+        // WhatsApp voice notes are OGG/Opus; the MIME type decides how long recordings are split
+        const result = await transcribeWithFallback({
+            buffer: audioBuffer,
+            fileName,
+            mimeType: normalizeAudioMimeType(media.mimeType || contentType, fileName) || "audio/ogg",
+            mistralApiKey: settings.mistralApiKey,
+        }, settings);
+
+        const transcription = result && (result.cleanedTranscript || result.rawTranscript);
+
+        if (!result || !transcription) {
+            console.log("No transcription returned by any STT provider");
+            return null;
+        }
+
+        console.log("Transcription successful:", transcription.substring(0, 100) + (transcription.length > 100 ? "..." : ""));
+        console.log(`Provider: ${result.provider}, confidence: ${result.confidence.toFixed(2)}, language: ${result.language || "unknown"}`);
+
+        return { text: transcription, result };
+    } catch (error) {
+        console.error("Voice transcription failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Extract text from an image sent by the customer: Mistral OCR first,
+ * Pixtral vision when the image has little or no text (e.g. a product photo)
+ */
+async function extractImageMessageText(
+    payload: WhatsAppWebhookPayload,
+    media: NonNullable<WhatsAppWebhookPayload["content"]["media"]>
+): Promise<{ text: string; method: string } | null> {
+    try {
+        const apiKey = await getMistralApiKey(payload.to);
+        if (!apiKey) {
+            throw new Error("Mistral API key (custom or default) is not configured for image processing");
+        }
+
+        const { buffer, contentType } = await downloadMedia(payload, media.url);
+        const mimeType = (media.mimeType || contentType || "image/jpeg").split(";")[0].trim();
+        const dataUrl = `data:${mimeType};base64,${Buffer.from(buffer).toString("base64")}`;
+
+        const ocrText = (await ocrImage(dataUrl, apiKey)).trim();
+        if (ocrText.length >= MIN_OCR_TEXT_LENGTH) {
+            return { text: ocrText, method: "mistral-ocr" };
+        }
+
+        console.log("OCR found little text, describing image with Pixtral");
+        const visionText = (await transcribeImageWithVision(dataUrl, apiKey, IMAGE_DESCRIPTION_PROMPT)).trim();
+        return visionText ? { text: visionText, method: "pixtral-vision" } : null;
+    } catch (error) {
+        console.error("Image text extraction failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Read a document sent by the customer and keep it as context for this
+ * conversation only (not the business's shared knowledge base)
+ */
+async function extractDocumentMessageText(
+    payload: WhatsAppWebhookPayload,
+    media: NonNullable<WhatsAppWebhookPayload["content"]["media"]>
+): Promise<{ text: string; method: string; fileName: string } | null> {
+    try {
+        const apiKey = await getMistralApiKey(payload.to);
+        const { buffer, contentType } = await downloadMedia(payload, media.url);
+        const mimeType = (media.mimeType || contentType || "application/pdf").split(";")[0].trim();
+        const fileName = media.fileName || "document";
+
+        const { text, method } = await extractDocumentText(buffer, mimeType, fileName, apiKey);
+        if (!text) {
+            return null;
+        }
+
+        await storeConversationDocument({
+            businessNumber: payload.to,
+            contactNumber: payload.from,
+            messageId: payload.messageId,
+            fileName,
+            mimeType,
+            text,
+            extractionMethod: method,
+            mistralApiKey: apiKey,
+        });
+
+        return { text, method, fileName };
+    } catch (error) {
+        console.error("Document text extraction failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Send a friendly holding message and mark the inbound messages as responded
+ */
+async function sendFallbackReply(payload: WhatsAppWebhookPayload, text: string, messageIds: string[]) {
+    await sendOutboundMessage({
+        businessNumber: payload.to,
+        contactId: payload.from,
+        message: { text },
+        source: "fallback",
+        messageId: `auto_${payload.messageId}_${Date.now()}`,
+        rawPayload: { isAutoResponse: true, isFallback: true },
+    });
+
+    await markResponded(messageIds);
+}
+
+async function markResponded(messageIds: string[]) {
+    await supabase
+        .from("whatsapp_messages")
+        .update({
+            auto_respond_sent: true,
+            response_sent_at: new Date().toISOString()
+        })
+        .in("message_id", messageIds);
+}
+
+// Accept both 'audio' (some providers) and 'voice' (WhatsApp voice note) as voice messages
+function isVoiceNote(payload: WhatsAppWebhookPayload): boolean {
+    const media = payload.content?.contentType === "media" ? payload.content?.media : undefined;
+    return media?.type === "audio" || media?.type === "voice";
+}
+
+// Voice notes, images and documents are turned into text; other media
+// (stickers, locations...) and reactions carry none
+function hasExtractableMedia(payload: WhatsAppWebhookPayload): boolean {
+    const media = payload.content?.contentType === "media" ? payload.content?.media : undefined;
+    return !!media?.url && (isVoiceNote(payload) || media.type === "image" || media.type === "document");
+}
+
+// Language and confirmation state recorded when the voice note was transcribed
+async function getStoredTranscript(messageId: string) {
+    const { data } = await supabase
+        .from("whatsapp_messages")
+        .select("transcript_language, transcript_confirmation")
+        .eq("message_id", messageId)
+        .maybeSingle();
+
+    return {
+        language: (data?.transcript_language as string | null) || undefined,
+        needsConfirmation: data?.transcript_confirmation === "pending",
+    };
+}
+
+async function getStoredInteractiveReply(messageId: string): Promise<InteractiveReply | null> {
+    const { data } = await supabase
+        .from("whatsapp_messages")
+        .select("interactive_reply")
+        .eq("message_id", messageId)
+        .maybeSingle();
+
+    return data?.interactive_reply || null;
+}
+
+// Outside business hours a number can hold handoffs back until the team is in
+async function isHandoffAvailable(businessNumber: string): Promise<boolean> {
+    const schedule = await getBusinessSchedule(businessNumber);
+    return !schedule.suppressHandoffs || getBusinessHoursStatus(schedule).open;
+}
+
+async function releaseAll(messageIds: string[], claimant: string) {
+    await Promise.all(messageIds.map(id => releaseInboundMessage(id, claimant)));
+}
+
+/**
+ * Resolve a text message to the button/list option it chose, if any.
+ * Typed replies ("2", "book demo") are matched against our last interactive message.
+ */
+async function resolveInteractiveReply(
+    payload: WhatsAppWebhookPayload,
+    text: string,
+    stored: StoredMessageFields | null
+): Promise<InteractiveReply | null> {
+    if (stored?.interactive_reply) {
+        return stored.interactive_reply;
+    }
+
+    const reply = payload.interactiveReply
+        || matchInteractiveReply(text, await getLastOfferedOptions(payload.from, payload.to));
+    if (!reply) {
+        return null;
+    }
+
+    await supabase
+        .from("whatsapp_messages")
+        .update({ interactive_reply: reply })
+        .eq("message_id", payload.messageId);
+
+    return reply;
+}
+
+/**
+ * Get the text of an inbound message, transcribing voice notes and reading images.
+ * Returns null when the media could not be turned into text.
+ */
+async function resolveMessageText(
+    payload: WhatsAppWebhookPayload,
+    stored: StoredMessageFields | null
+): Promise<string | null> {
+    const media = payload.content?.contentType === "media" ? payload.content?.media : undefined;
+    const isVoiceMessage = isVoiceNote(payload);
+    const isImageMessage = media?.type === "image";
+    const isDocumentMessage = media?.type === "document";
+
+    console.log("Message analysis:", {
+        messageId: payload.messageId,
+        contentType: payload.content?.contentType,
+        mediaType: media?.type,
+        hasMediaUrl: !!media?.url,
+        isVoiceMessage,
+        isImageMessage,
+        isDocumentMessage,
+        event: payload.event
+    });
+
+    if (isImageMessage && media?.url) {
+        // Already extracted by an earlier (superseded) run
+        if (stored?.media_text) {
+            return stored.content_text;
+        }
+
+        console.log("Image message detected, extracting text...");
+        const caption = media.caption || payload.content?.text || "";
+        const extraction = await extractImageMessageText(payload, media);
+        if (!extraction) {
+            return caption || null;
+        }
+
+        const imageText = `${caption ? `${caption}\n\n` : ""}[Customer sent an image. Content of the image:]\n${extraction.text}`;
+
+        await supabase
+            .from("whatsapp_messages")
+            .update({
+                content_text: imageText,
+                media_text: extraction.text,
+                media_extraction_method: extraction.method
+            })
+            .eq("message_id", payload.messageId);
+
+        return imageText;
+    }
+
+    if (isDocumentMessage && media?.url) {
+        // Already extracted by an earlier (superseded) run
+        if (stored?.media_text) {
+            return `${stored.content_text}\n${stored.media_text.slice(0, DOCUMENT_EXCERPT_LENGTH)}`;
+        }
+
+        console.log("Document message detected, extracting text...");
+        const caption = media.caption || payload.content?.text || "";
+        const extraction = await extractDocumentMessageText(payload, media);
+        if (!extraction) {
+            return caption || null;
+        }
+
+        const documentNote = `${caption ? `${caption}\n\n` : ""}[Customer sent a document: ${extraction.fileName}]`;
+
+        await supabase
+            .from("whatsapp_messages")
+            .update({
+                content_text: documentNote,
+                media_text: extraction.text,
+                media_extraction_method: extraction.method
+            })
+            .eq("message_id", payload.messageId);
+
+        const excerpt = extraction.text.length > DOCUMENT_EXCERPT_LENGTH
+            ? `${extraction.text.slice(0, DOCUMENT_EXCERPT_LENGTH)}\n[...document continues]`
+            : extraction.text;
+
+        return `${documentNote}\n${excerpt}`;
+    }
+
+    if (!isVoiceMessage || !media?.url) {
+        const text = payload.content?.text || payload.UserResponse || stored?.content_text || null;
+        if (!text) {
+            return null;
+        }
+
+        // The LLM sees the chosen option's title rather than e.g. "2"
+        const reply = await resolveInteractiveReply(payload, text, stored);
+        return reply ? reply.title : text;
+    }
+
+    // Already transcribed by an earlier (superseded) run
+    if (stored?.raw_transcript && stored.content_text) {
+        return stored.content_text;
+    }
+
+    console.log("Voice message detected, transcribing...");
+    const transcriptionResult = await transcribeVoiceMessage(payload, media);
+    if (!transcriptionResult) {
+        return null;
+    }
+
+    console.log("Using transcribed text for auto-response");
+
+    // Update the database with transcribed text and transcription details
+    await supabase
+        .from("whatsapp_messages")
+        .update({
+            content_text: transcriptionResult.text,
+            raw_transcript: transcriptionResult.result.rawTranscript,
+            transcript_language: transcriptionResult.result.language,
+            transcript_method: `${transcriptionResult.result.provider}-stt`,
+            transcript_confidence: transcriptionResult.result.confidence,
+            // Low-confidence transcripts are read back to the customer before we answer them
+            transcript_confirmation: transcriptionResult.result.lowConfidence ? "pending" : null
+        })
+        .eq("message_id", payload.messageId);
+
+    return transcriptionResult.text;
+}
+
+/**
+ * Process a stored inbound message: transcribe voice notes and send the AI reply.
+ * Messages the contact sent in quick succession are merged and answered once.
+ * Throws on transient failures so the job queue can retry.
+ */
+export async function processInboundMessage(
+    payload: WhatsAppWebhookPayload,
+    options: ProcessOptions = {}
+): Promise<void> {
+    // Check if this message has already been responded to
+    const { data: existingMessage, error: fetchError } = await supabase
+        .from("whatsapp_messages")
+        .select("auto_respond_sent, received_at, content_text, raw_transcript, media_text, interactive_reply")
+        .eq("message_id", payload.messageId)
+        .single();
+
+    if (fetchError) {
+        throw new Error(`Failed to load stored message ${payload.messageId}: ${fetchError.message}`);
+    }
+
+    if (existingMessage?.auto_respond_sent) {
+        console.log("Skipping auto-response - already sent for message:", payload.messageId);
+        return;
+    }
+
+    if (payload.event !== "MoMessage") {
+        return;
+    }
+
+    // A newer message from the same contact will answer this one as part of its burst
+    const receivedAt: string = existingMessage.received_at;
+    if (await hasNewerInboundMessage(payload.from, payload.to, receivedAt)) {
+        console.log("Message superseded by a newer message in the same burst:", payload.messageId);
+        return;
+    }
+
+    // Only one worker may reply to a given message_id
+    const claimant = options.claimant || `inline:${crypto.randomUUID()}`;
+    const claimed = await claimInboundMessage(payload.messageId, claimant);
+    if (!claimed) {
+        console.log("Duplicate delivery - reply already claimed for message:", payload.messageId);
+        return;
+    }
+
+    // Pull in the earlier unanswered messages of this burst
+    const burstIds = [payload.messageId];
+    const texts: string[] = [];
+    try {
+        const burst = await getUnansweredBurst(payload.from, payload.to, receivedAt);
+        for (const message of burst) {
+            if (message.message_id === payload.messageId) continue;
+            if (!await claimInboundMessage(message.message_id, claimant)) continue;
+
+            burstIds.push(message.message_id);
+            const earlierPayload = (message.raw_payload || {}) as WhatsAppWebhookPayload;
+            const text = await resolveMessageText(
+                { ...earlierPayload, messageId: message.message_id },
+                message
+            );
+            if (text) texts.push(text);
+        }
+    } catch (err) {
+        await releaseAll(burstIds, claimant);
+        throw err;
+    }
+
+    const ownText = await resolveMessageText(payload, existingMessage);
+    if (ownText) {
+        texts.push(ownText);
+    } else if (texts.length === 0) {
+        if (!hasExtractableMedia(payload)) {
+            console.log("Nothing to answer (no text in this message):", payload.messageId);
+            await markResponded(burstIds);
+            return;
+        }
+
+        console.log("Media processing failed, sending fallback reply");
+        await sendFallbackForVoice(payload, burstIds);
+        return;
+    }
+
+    // STOP / START only updates consent and confirms it
+    const consentKeyword = detectConsentKeyword(ownText);
+    if (consentKeyword) {
+        await setConsent(payload.to, payload.from, consentKeyword.status, { source: "keyword", keyword: ownText });
+        await sendOutboundMessage({
+            businessNumber: payload.to,
+            contactId: payload.from,
+            message: { text: getConsentConfirmation(consentKeyword) },
+            source: "consent",
+            messageId: `auto_${payload.messageId}_${Date.now()}`,
+            rawPayload: { isAutoResponse: true, consent: consentKeyword.status },
+        });
+        await markResponded(burstIds);
+        return;
+    }
+
+    // Opted-out contacts get no replies until they send START
+    if (await isOptedOut(payload.to, payload.from)) {
+        console.log(`Not replying to ${payload.from}: contact opted out`);
+        await markResponded(burstIds);
+        return;
+    }
+
+    // A person has taken over: the bot stays quiet until the conversation is resumed
+    if (await getActiveHandoff(payload.to, payload.from)) {
+        console.log(`Not replying to ${payload.from}: conversation handed off to a person`);
+        await markResponded(burstIds);
+        return;
+    }
+
+    // "Talk to a human" pauses the bot and lets the customer know someone is coming.
+    // After hours the number may hold handoffs back: the bot answers and says when the team is in.
+    const handoffLanguage = detectHandoffRequest(ownText);
+    if (handoffLanguage && await isHandoffAvailable(payload.to)) {
+        await pauseConversation(payload.to, payload.from, "keyword", { note: texts.join("\n") });
+        await sendOutboundMessage({
+            businessNumber: payload.to,
+            contactId: payload.from,
+            message: { text: getHandoffAcknowledgement(handoffLanguage) },
+            source: "auto_reply",
+            messageId: `auto_${payload.messageId}_${Date.now()}`,
+            rawPayload: { isAutoResponse: true, handoff: true },
+        });
+        await markResponded(burstIds);
+        return;
+    }
+
+    // Outside business hours: away message first, then the bot (reply rules,
+    // lead flows and the LLM) only if the number allows it
+    const schedule = await getBusinessSchedule(payload.to);
+    const hoursStatus = getBusinessHoursStatus(schedule);
+    if (!hoursStatus.open) {
+        console.log(`After hours for ${payload.to}${hoursStatus.nextOpening ? `, opens ${hoursStatus.nextOpening}` : ""}`);
+
+        if (schedule.awayMessage && !await hasRecentAwayMessage(payload.from, payload.to)) {
+            await sendOutboundMessage({
+                businessNumber: payload.to,
+                contactId: payload.from,
+                message: { text: schedule.awayMessage },
+                source: "auto_reply",
+                messageId: `away_${payload.messageId}_${Date.now()}`,
+                rawPayload: { isAutoResponse: true, isAwayMessage: true },
+            });
+        }
+
+        if (!schedule.botRepliesAfterHours) {
+            await markResponded(burstIds);
+            return;
+        }
+    }
+
+    let voiceNote: { language?: string } | undefined;
+
+    if (isVoiceNote(payload)) {
+        const transcript = await getStoredTranscript(payload.messageId);
+
+        // Not sure what they said: ask instead of guessing
+        if (ownText && transcript.needsConfirmation) {
+            console.log("Low-confidence transcript, asking the customer to confirm it");
+            await sendOutboundMessage({
+                businessNumber: payload.to,
+                contactId: payload.from,
+                message: buildTranscriptConfirmation(ownText),
+                source: "auto_reply",
+                messageId: `auto_${payload.messageId}_${Date.now()}`,
+                rawPayload: { isAutoResponse: true, transcriptConfirmation: payload.messageId },
+            });
+            await markResponded(burstIds);
+            return;
+        }
+
+        voiceNote = { language: transcript.language };
+    } else if (ownText) {
+        const confirmation = await resolveTranscriptConfirmation(
+            payload.from,
+            payload.to,
+            await getStoredInteractiveReply(payload.messageId)
+        );
+
+        if (confirmation?.status === "rejected") {
+            await sendFallbackReply(
+                payload,
+                "Sorry about that! 🙏 Could you send your voice message again, or type your question?",
+                burstIds
+            );
+            return;
+        }
+
+        // "Yes" to our read-back: answer the voice note itself
+        if (confirmation?.status === "confirmed") {
+            texts[texts.length - 1] = confirmation.transcript;
+            voiceNote = { language: confirmation.language };
+        }
+    }
+
+    const messageText = texts.join("\n");
+
+    if (burstIds.length > 1) {
+        console.log(`Merged ${burstIds.length} messages into one user turn for ${payload.from}`);
+    }
+
+    // Lead-capture questions: answers move the flow on; anything else is
+    // answered below and then the pending question is asked again
+    const flowTurn = await advanceLeadFlow({
+        businessNumber: payload.to,
+        contactId: payload.from,
+        text: messageText,
+        messageId: payload.messageId,
+        senderName: payload.whatsapp?.senderName,
+    });
+    if (flowTurn.status === "handled") {
+        await markResponded(burstIds);
+        return;
+    }
+
+    // Owner-approved answers (address, timings, menu...) go out word for word, no LLM
+    const rule = findMatchingRule(await getReplyRules(payload.to), messageText);
+    const ruleReply = rule && await buildRuleReply(rule, {
+        message: messageText,
+        customer_name: payload.whatsapp?.senderName,
+        business_number: payload.to,
+    });
+    if (rule && ruleReply) {
+        console.log(`Reply rule "${rule.name}" matched message ${payload.messageId}`);
+        const ruleResult = await sendOutboundMessage({
+            businessNumber: payload.to,
+            contactId: payload.from,
+            message: ruleReply,
+            source: "auto_reply",
+            messageId: `auto_${payload.messageId}_${Date.now()}`,
+            rawPayload: { isAutoResponse: true, replyRule: rule.id },
+        });
+
+        if (ruleResult.success) {
+            await recordRuleHit(rule.id);
+            await markResponded(burstIds);
+            await repromptLeadFlow(payload, flowTurn);
+            return;
+        }
+        console.error(`Reply rule "${rule.name}" could not be sent, falling back to the LLM:`, ruleResult.error);
+    }
+
+    console.log("Processing auto-response for message:", payload.messageId);
+
+    let result;
+    try {
+        // ALWAYS try to generate a proper auto-response for user messages
+        result = await generateAutoResponse(
+            payload.from,
+            payload.to,
+            messageText,
+            payload.messageId,
+            payload.whatsapp?.senderName,
+            {
+                excludeMessageIds: burstIds,
+                shouldAbort: () => hasNewerInboundMessage(payload.from, payload.to, receivedAt),
+                voiceNote,
+            }
+        );
+    } catch (err) {
+        console.error("Unexpected error in auto-response processing:", err);
+
+        if (!options.isFinalAttempt) {
+            await releaseAll(burstIds, claimant);
+            throw err;
+        }
+
+        // Send a friendly error message
+        try {
+            await sendFallbackReply(payload, "Hi! 👋 I received your message. Please give me a moment to process it.", burstIds);
+        } catch (innerErr) {
+            console.error("Error sending emergency fallback:", innerErr);
+        }
+        return;
+    }
+
+    if (result.superseded) {
+        // Hand the whole burst over to the newer message's run
+        await releaseAll(burstIds, claimant);
+        return;
+    }
+
+    if (result.success) {
+        console.log("✅ Auto-response sent successfully");
+
+        // Mark the message(s) as responded in the database
+        await markResponded(burstIds);
+        await repromptLeadFlow(payload, flowTurn);
+        return;
+    }
+
+    console.error("❌ Auto-response generation failed:", result.error);
+
+    // Nothing reached the customer yet (e.g. all LLMs down) - let the queue retry
+    if (!options.isFinalAttempt && !result.noDocuments && result.response === undefined) {
+        await releaseAll(burstIds, claimant);
+        throw new Error(result.error || "Auto-response generation failed");
+    }
+
+    // If auto-response fails, send a helpful error message
+    try {
+        await sendFallbackReply(
+            payload,
+            "Hi! 👋 I received your message. I'm processing your request. Please try again in a moment if you don't hear back.",
+            burstIds
+        );
+    } catch (err) {
+        console.error("Error sending fallback message:", err);
+    }
+}
+
+// Helper: after answering an off-script message, ask the pending lead-flow question again
+async function repromptLeadFlow(payload: WhatsAppWebhookPayload, turn: LeadFlowTurn) {
+    // The reply may have handed the conversation to a person
+    if (turn.status !== "off_script" || await getActiveHandoff(payload.to, payload.from)) {
+        return;
+    }
+
+    try {
+        await sendOutboundMessage({
+            businessNumber: payload.to,
+            contactId: payload.from,
+            message: turn.reprompt,
+            source: "auto_reply",
+            messageId: `auto_${payload.messageId}_${Date.now()}`,
+            rawPayload: { isAutoResponse: true, leadFlowReprompt: true },
+        });
+    } catch (err) {
+        console.error("Error re-asking lead flow question:", err);
+    }
+}
+
+// Helper: tell the customer we couldn't read their media (e.g. every STT provider failed)
+async function sendFallbackForVoice(payload: WhatsAppWebhookPayload, messageIds: string[]) {
+    try {
+        await sendFallbackReply(
+            payload,
+            "Sorry, I couldn't make out your message 🙏 Could you send it again, or type it out?",
+            messageIds
+        );
+    } catch (err) {
+        console.error("Error sending fallback for voice message:", err);
+    }
+}
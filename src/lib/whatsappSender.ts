@@ -1,134 +1,86 @@
-/**
- * WhatsApp Message Sender using 11za.in API
- */
-
-const WHATSAPP_API_URL = "https://api.11za.in/apis/sendMessage/sendMessages";
-
-export type SendMessageResult = {
-    success: boolean;
-    error?: string;
-    response?: unknown;
-};
+import type { InteractiveMessage } from "./interactive";
+import {
+    getProvider,
+    OutboundMedia,
+    ProviderCredentials,
+    ProviderName,
+    SendMessageResult,
+    TemplateMessage,
+} from "./providers";
 
 /**
- * Send a text message via WhatsApp using 11za.in API
+ * WhatsApp message sender - talks to whichever provider (11za, Meta Cloud API)
+ * is configured for the business number in phone_document_mapping
  */
-export async function sendWhatsAppMessage(
-    phoneNumber: string,
-    message: string,
-    authToken: string,
-    originWebsite: string
-): Promise<SendMessageResult> {
-    try {
-        if (!authToken || !originWebsite) {
-            console.error("11za auth token and origin are required");
-            return {
-                success: false,
-                error: "WhatsApp API credentials not provided",
-            };
-        }
-
-        const payload = {
-            sendto: phoneNumber,
-            authToken: authToken,
-            originWebsite: originWebsite,
-            contentType: "text",
-            text: message,
-        };
 
-        console.log(`Sending WhatsApp message to ${phoneNumber}...`);
+export type { SendMessageResult } from "./providers";
 
-        const response = await fetch(WHATSAPP_API_URL, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify(payload),
-        });
+// phone_document_mapping columns needed to build a client
+export const PROVIDER_MAPPING_COLUMNS = "whatsapp_provider, auth_token, origin, meta_phone_number_id";
 
-        const data = await response.json();
-
-        if (!response.ok) {
-            console.error("WhatsApp API error:", data);
-            return {
-                success: false,
-                error: `WhatsApp API returned ${response.status}`,
-                response: data,
-            };
-        }
+export type ProviderMapping = {
+    whatsapp_provider?: string | null;
+    auth_token?: string | null;
+    origin?: string | null;
+    meta_phone_number_id?: string | null;
+};
 
-        console.log("WhatsApp message sent successfully:", data);
+export type WhatsAppClient = {
+    provider: ProviderName;
+    hasCredentials: boolean;
+    sendText(to: string, text: string): Promise<SendMessageResult>;
+    sendTemplate(to: string, template: TemplateMessage): Promise<SendMessageResult>;
+    sendMedia(to: string, media: OutboundMedia): Promise<SendMessageResult>;
+    sendInteractive(to: string, message: InteractiveMessage): Promise<SendMessageResult>;
+    downloadMedia(url: string): Promise<{ buffer: ArrayBuffer; contentType: string | null }>;
+};
 
-        return {
-            success: true,
-            response: data,
-        };
-    } catch (error) {
-        console.error("Error sending WhatsApp message:", error);
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-        };
-    }
-}
+const MISSING_CREDENTIALS: SendMessageResult = {
+    success: false,
+    error: "WhatsApp API credentials not provided",
+};
 
 /**
- * Send a template message via WhatsApp using 11za.in API
- * (For future use if you need template messages)
+ * Build a client from a phone_document_mapping row
  */
-export async function sendWhatsAppTemplate(
-    phoneNumber: string,
-    templateData: {
-        templateId: string;
-        parameters?: Record<string, string>;
-    },
-    authToken: string,
-    originWebsite: string
-): Promise<SendMessageResult> {
-    try {
-        if (!authToken || !originWebsite) {
-            return {
-                success: false,
-                error: "WhatsApp API credentials not provided",
-            };
-        }
-
-        const payload = {
-            sendto: phoneNumber,
-            authToken: authToken,
-            originWebsite: originWebsite,
-            templateId: templateData.templateId,
-            parameters: templateData.parameters || {},
-        };
-
-        const response = await fetch("https://api.11za.in/apis/template/sendTemplate", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify(payload),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-            console.error("WhatsApp Template API error:", data);
-            return {
-                success: false,
-                error: `WhatsApp API returned ${response.status}`,
-                response: data,
-            };
-        }
-
-        return {
-            success: true,
-            response: data,
-        };
-    } catch (error) {
-        console.error("Error sending WhatsApp template:", error);
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-        };
-    }
+export function createWhatsAppClient(mapping: ProviderMapping): WhatsAppClient {
+    const provider = getProvider(mapping.whatsapp_provider);
+    const credentials: ProviderCredentials = {
+        authToken: mapping.auth_token,
+        origin: mapping.origin,
+        phoneNumberId: mapping.meta_phone_number_id,
+    };
+    const hasCredentials = provider.hasCredentials(credentials);
+
+    return {
+        provider: provider.name,
+        hasCredentials,
+
+        async sendText(to, text) {
+            if (!hasCredentials) {
+                console.error(`${provider.name} credentials are required to send messages`);
+                return MISSING_CREDENTIALS;
+            }
+            return provider.sendText(credentials, to, text);
+        },
+
+        async sendTemplate(to, template) {
+            if (!hasCredentials) return MISSING_CREDENTIALS;
+            return provider.sendTemplate(credentials, to, template);
+        },
+
+        async sendMedia(to, media) {
+            if (!hasCredentials) return MISSING_CREDENTIALS;
+            return provider.sendMedia(credentials, to, media);
+        },
+
+        async sendInteractive(to, message) {
+            if (!hasCredentials) return MISSING_CREDENTIALS;
+            return provider.sendInteractive(credentials, to, message);
+        },
+
+        downloadMedia(url) {
+            return provider.downloadMedia(credentials, url);
+        },
+    };
 }
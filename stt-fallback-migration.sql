@@ -0,0 +1,18 @@
+-- Speech-to-text provider chain with confidence-based confirmation
+-- Run this in your Supabase SQL editor
+
+-- Providers are tried in order ('mistral', 'google', 'openai') until one is at
+-- least stt_min_confidence (0-1) sure; below that the customer is asked to
+-- confirm the transcript ("did you mean…") before we answer it.
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS stt_providers TEXT[] DEFAULT ARRAY['mistral', 'google', 'openai'],
+ADD COLUMN IF NOT EXISTS stt_min_confidence REAL DEFAULT 0.6;
+
+-- transcript_confirmation: pending | confirmed | rejected (NULL = not needed)
+ALTER TABLE whatsapp_messages
+ADD COLUMN IF NOT EXISTS transcript_confidence REAL,
+ADD COLUMN IF NOT EXISTS transcript_confirmation TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_pending_transcripts
+ON whatsapp_messages(from_number, to_number, received_at DESC)
+WHERE transcript_confirmation = 'pending';
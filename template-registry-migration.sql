@@ -0,0 +1,28 @@
+-- Registry of approved WhatsApp templates per business number
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS whatsapp_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone_number TEXT NOT NULL,
+    name TEXT NOT NULL, -- our name for the template, used by reminders/broadcasts/window fallback
+    template_id TEXT NOT NULL, -- provider's template ID (11za) or template name (Meta)
+    language TEXT NOT NULL DEFAULT 'en',
+    category TEXT NOT NULL DEFAULT 'UTILITY', -- MARKETING | UTILITY | AUTHENTICATION
+    parameters JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ "name": "1", "description": "...", "example": "..." }] in body order
+    preview_text TEXT, -- approved body text with {{parameter}} placeholders
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (phone_number, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_templates_phone_number ON whatsapp_templates(phone_number);
+
+ALTER TABLE whatsapp_templates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on whatsapp_templates" ON whatsapp_templates;
+CREATE POLICY "Allow all operations on whatsapp_templates" ON whatsapp_templates FOR ALL USING (true);
+
+-- Window fallback by registry name; window_template_id/window_template_language
+-- are only used when no name is set. window_template_params is then keyed by
+-- the template's parameter names.
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS window_template_name TEXT;
@@ -1,19 +1,37 @@
 #!/bin/bash
 
 # Test script for WhatsApp webhook
-# Usage: ./test-webhook.sh [url]
+# Usage: WEBHOOK_SECRET=whsec_... ./test-webhook.sh [url]
 # Default URL: http://localhost:3000
+# WEBHOOK_SECRET must be the secret configured for the business number (15558346206)
 
 URL=${1:-http://localhost:3000}
 
+if [ -z "$WEBHOOK_SECRET" ]; then
+  echo "⚠️  WEBHOOK_SECRET is not set - signed requests will be rejected with 401"
+fi
+
+# POST a JSON body to the webhook with signature, timestamp and nonce headers
+post_signed() {
+  local body="$1"
+  local timestamp=$(date +%s)
+  local nonce=$(openssl rand -hex 16)
+  local signature=$(printf '%s' "$timestamp.$nonce.$body" | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | sed 's/^.* //')
+
+  curl -s -X POST "$URL/api/webhook/whatsapp" \
+    -H "Content-Type: application/json" \
+    -H "x-webhook-timestamp: $timestamp" \
+    -H "x-webhook-nonce: $nonce" \
+    -H "x-webhook-signature: sha256=$signature" \
+    -d "$body"
+}
+
 echo "Testing WhatsApp webhook at: $URL/api/webhook/whatsapp"
 echo "=================================================="
 
 # Test 1: Send a test message
 echo -e "\n📤 Test 1: Sending test WhatsApp message..."
-RESPONSE=$(curl -s -X POST "$URL/api/webhook/whatsapp" \
-  -H "Content-Type: application/json" \
-  -d '{
+RESPONSE=$(post_signed '{
     "messageId": "test-'$(date +%s)'",
     "channel": "whatsapp",
     "from": "917874949091",
@@ -38,9 +56,7 @@ echo ""
 
 # Test 2: Send duplicate message
 echo -e "\n📤 Test 2: Sending duplicate message (should be handled)..."
-RESPONSE2=$(curl -s -X POST "$URL/api/webhook/whatsapp" \
-  -H "Content-Type: application/json" \
-  -d '{
+RESPONSE2=$(post_signed '{
     "messageId": "duplicate-test-123",
     "channel": "whatsapp",
     "from": "917874949091",
@@ -61,9 +77,7 @@ RESPONSE2=$(curl -s -X POST "$URL/api/webhook/whatsapp" \
 
 echo "First attempt: $RESPONSE2"
 
-RESPONSE3=$(curl -s -X POST "$URL/api/webhook/whatsapp" \
-  -H "Content-Type: application/json" \
-  -d '{
+RESPONSE3=$(post_signed '{
     "messageId": "duplicate-test-123",
     "channel": "whatsapp",
     "from": "917874949091",
@@ -87,9 +101,7 @@ echo ""
 
 # Test 3: Invalid request (missing required fields)
 echo -e "\n📤 Test 3: Sending invalid request (missing messageId)..."
-RESPONSE4=$(curl -s -X POST "$URL/api/webhook/whatsapp" \
-  -H "Content-Type: application/json" \
-  -d '{
+RESPONSE4=$(post_signed '{
     "channel": "whatsapp",
     "from": "917874949091",
     "content": {
@@ -101,8 +113,43 @@ RESPONSE4=$(curl -s -X POST "$URL/api/webhook/whatsapp" \
 echo "Response (should show error): $RESPONSE4"
 echo ""
 
-# Test 4: Retrieve messages
-echo -e "\n📥 Test 4: Retrieving stored messages..."
+# Test 4: Unsigned request (should be rejected)
+echo -e "\n📤 Test 4: Sending unsigned request (should return 401)..."
+RESPONSE5=$(curl -s -X POST "$URL/api/webhook/whatsapp" \
+  -H "Content-Type: application/json" \
+  -d '{
+    "messageId": "unsigned-test-'$(date +%s)'",
+    "channel": "whatsapp",
+    "from": "917874949091",
+    "to": "15558346206",
+    "content": {
+      "contentType": "text",
+      "text": "Unsigned message"
+    },
+    "event": "MoMessage"
+  }')
+
+echo "Response (should be Unauthorized): $RESPONSE5"
+echo ""
+
+# Test 5: Delivery receipt for an outbound message (from = business number)
+echo -e "\n📤 Test 5: Sending a read receipt..."
+RESPONSE6=$(post_signed '{
+    "messageId": "receipt-test-'$(date +%s)'",
+    "providerMessageId": "test-provider-id",
+    "channel": "whatsapp",
+    "from": "15558346206",
+    "to": "917874949091",
+    "timestamp": "'$(date -u +%Y-%m-%dT%H:%M:%SZ)'",
+    "event": "MessageStatus",
+    "status": "read"
+  }')
+
+echo "Response (should be Delivery receipt recorded): $RESPONSE6"
+echo ""
+
+# Test 6: Retrieve messages
+echo -e "\n📥 Test 6: Retrieving stored messages..."
 MESSAGES=$(curl -s "$URL/api/whatsapp/messages?limit=5")
 echo "Recent messages: $MESSAGES"
 echo ""
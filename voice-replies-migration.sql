@@ -0,0 +1,10 @@
+-- Voice-note replies: answer voice notes with synthesized speech
+-- Run this in your Supabase SQL editor
+
+-- Opt-in per number. tts_provider is 'openai' or 'google'; tts_voice is the
+-- provider's voice name (empty = provider default). Voice notes are stored in
+-- the media bucket from outbound-media-migration.sql.
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS voice_replies_enabled BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS tts_provider TEXT DEFAULT 'openai',
+ADD COLUMN IF NOT EXISTS tts_voice TEXT;
@@ -0,0 +1,24 @@
+-- Webhook authentication: per-number secrets and replay protection
+-- Run this in your Supabase SQL editor
+
+-- Per-number webhook secrets (previous secret stays valid for 24h after rotation)
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS webhook_secret TEXT,
+ADD COLUMN IF NOT EXISTS webhook_secret_previous TEXT,
+ADD COLUMN IF NOT EXISTS webhook_secret_rotated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN phone_document_mapping.webhook_secret IS 'HMAC secret used to sign inbound webhooks for this number';
+COMMENT ON COLUMN phone_document_mapping.webhook_secret_previous IS 'Secret before the last rotation, accepted during the grace period';
+
+-- Seen nonces, used to reject replayed webhook requests
+CREATE TABLE IF NOT EXISTS webhook_nonces (
+    nonce TEXT PRIMARY KEY,
+    phone_number TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_nonces_created_at ON webhook_nonces(created_at);
+
+ALTER TABLE webhook_nonces ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all operations on webhook_nonces" ON webhook_nonces;
+CREATE POLICY "Allow all operations on webhook_nonces" ON webhook_nonces FOR ALL USING (true);
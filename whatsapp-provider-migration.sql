@@ -0,0 +1,10 @@
+-- Per-number WhatsApp provider (11za or Meta Cloud API)
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE phone_document_mapping
+ADD COLUMN IF NOT EXISTS whatsapp_provider TEXT DEFAULT '11za',
+ADD COLUMN IF NOT EXISTS meta_phone_number_id TEXT;
+
+COMMENT ON COLUMN phone_document_mapping.whatsapp_provider IS '11za | meta';
+COMMENT ON COLUMN phone_document_mapping.auth_token IS '11za auth token, or the Meta Cloud API access token';
+COMMENT ON COLUMN phone_document_mapping.meta_phone_number_id IS 'Meta Cloud API phone number ID used to send messages';